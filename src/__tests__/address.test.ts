@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { decodeAddress, encodeAddress, isValidAddress } from '../address'
+
+const pk = (n: number) => new Uint8Array(32).fill(n)
+
+const ADDR_1 = 'AEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEA5RCDXMI'
+const ADDR_2 = 'AIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBMXPWWNQ'
+
+describe('encodeAddress', () => {
+  it('should encode a public key with its checksum', () => {
+    expect(encodeAddress(pk(1))).toBe(ADDR_1)
+    expect(encodeAddress(pk(2))).toBe(ADDR_2)
+  })
+
+  it('should reject public keys of the wrong length', () => {
+    expect(() => encodeAddress(new Uint8Array(31))).toThrow(
+      'Invalid public key'
+    )
+  })
+})
+
+describe('decodeAddress', () => {
+  it('should return the public key of an address', () => {
+    expect(decodeAddress(ADDR_1)).toEqual(Buffer.from(pk(1)))
+    expect(decodeAddress(encodeAddress(pk(0xfe)))).toEqual(
+      Buffer.from(pk(0xfe))
+    )
+  })
+
+  it('should reject a wrong checksum', () => {
+    const tampered = ADDR_1.slice(0, 57) + (ADDR_1[57] === 'A' ? 'B' : 'A')
+    expect(() => decodeAddress(tampered)).toThrow('checksum mismatch')
+  })
+
+  it('should reject a wrong length or alphabet', () => {
+    expect(() => decodeAddress(ADDR_1.slice(1))).toThrow('58 characters')
+    expect(() => decodeAddress(ADDR_1.toLowerCase())).toThrow(
+      'unexpected character'
+    )
+  })
+
+  it('should reject non-canonical trailing bits', () => {
+    // The final character only carries 2 significant bits
+    const last = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'.indexOf(ADDR_1[57])
+    const alias =
+      ADDR_1.slice(0, 57) + 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'[last + 1]
+    expect(() => decodeAddress(alias)).toThrow('non-canonical')
+  })
+})
+
+describe('isValidAddress', () => {
+  it('should validate addresses', () => {
+    expect(isValidAddress(ADDR_1)).toBe(true)
+    expect(isValidAddress('not an address')).toBe(false)
+  })
+})
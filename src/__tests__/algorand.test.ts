@@ -2,12 +2,19 @@ import { beforeEach, describe, expect, it, vi } from 'vitest'
 import Transport from '@ledgerhq/hw-transport'
 import { LedgerError } from '../common'
 import {
+  AddressMismatchError,
   AlgorandApp,
+  AlgorandTransaction,
+  computeGroupId,
   ResponseSign,
   StdSigData,
   StdSigDataResponse,
+  TransactionType,
+  UnsupportedVersionError,
 } from '../index'
 
+const ADDRESS_1 = 'AEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEA5RCDXMI'
+
 // Mock the Transport class
 const mockSend = vi.fn()
 const mockClose = vi.fn()
@@ -98,71 +105,121 @@ describe('AlgorandApp', () => {
   })
 
   describe('getAddressAndPubKey', () => {
-    it('should return public key and address', async () => {
+    it('should reject an address that does not match the public key', async () => {
       const mockResponse = Buffer.from([
-        // Mock public key (32 bytes)
-        ...Array(32).fill(1),
-        // Mock address (58 bytes)
-        ...Array(58).fill(2),
-        // Return code (2 bytes)
+        ...Array(32).fill(2),
+        ...Buffer.from(ADDRESS_1),
         0x90,
         0x00,
       ])
       mockSend.mockResolvedValue(mockResponse)
 
-      const result = await app.getAddressAndPubKey()
-      expect(result.returnCode).toBe(LedgerError.NoErrors)
-
-      // Add more specific expectations to verify correct parsing
-      expect(result.publicKey).toEqual(Buffer.from(Array(32).fill(1)))
-      expect(result.address).toEqual(Buffer.from(Array(58).fill(2)))
+      await expect(app.getAddressAndPubKey(0, true)).rejects.toBeInstanceOf(
+        AddressMismatchError
+      )
     })
   })
 
-  describe('sign', () => {
-    it('should sign a message', async () => {
-      const message = 'test message'
-      const accountId = 0
-      const mockResponse = Buffer.from([
-        // Mock signature (64 bytes)
-        ...Array(64).fill(1),
-        // Return code (2 bytes)
-        0x90,
-        0x00,
-      ])
-      mockSend.mockResolvedValue(mockResponse)
-
-      const result = await app.sign(accountId, message)
-      expect(result.returnCode).toBe(LedgerError.NoErrors)
-      expect(result.signature).toEqual(Buffer.from(Array(64).fill(1)))
+  describe('signGroup', () => {
+    it('should sign only the transactions sent by device accounts', async () => {
+      const header = {
+        fee: 1000,
+        firstValid: 1000,
+        lastValid: 2000,
+        genesisHash: Buffer.alloc(32, 0xaa),
+      }
+      const transactions: AlgorandTransaction[] = [
+        {
+          ...header,
+          type: TransactionType.pay,
+          sender: Buffer.alloc(32, 1),
+          receiver: Buffer.alloc(32, 2),
+          amount: 1,
+        },
+        {
+          ...header,
+          type: TransactionType.pay,
+          sender: Buffer.alloc(32, 2),
+          receiver: Buffer.alloc(32, 1),
+          amount: 1,
+        },
+      ]
+
+      mockSend
+        .mockResolvedValueOnce(
+          Buffer.from([
+            ...Array(32).fill(1),
+            ...Buffer.from(ADDRESS_1),
+            0x90,
+            0x00,
+          ])
+        )
+        .mockResolvedValueOnce(Buffer.from([...Array(64).fill(3), 0x90, 0x00]))
+
+      const result = await app.signGroup(transactions)
+      expect(result.groupId).toEqual(computeGroupId(transactions))
+      expect(result.signatures).toEqual([Buffer.alloc(64, 3), null])
+      expect(result.transactions).toHaveLength(2)
+
+      // Address lookup, then a single signing request for the first transaction
+      expect(mockSend).toHaveBeenCalledTimes(2)
+      expect(mockSend.mock.calls[1][1]).toBe(AlgorandApp._INS.SIGN_MSGPACK)
+      expect(mockSend.mock.calls[1][4]).toEqual(result.transactions[0])
     })
   })
 
   describe('signData', () => {
-    it('should sign an arbitrary message', async () => {
-      const message: StdSigData = {
-        data: Buffer.from('{"test": "test"}').toString('base64'),
-        signer: Buffer.from('test signer'),
-        domain: 'test domain',
-        requestId: 'test requestId',
-        authenticationData: Buffer.from('test authenticationData'),
-        hdPath: "m/44'/283'/0'/0/0",
-      }
+    const message: StdSigData = {
+      data: Buffer.from('{}').toString('base64'),
+      signer: Buffer.alloc(32),
+      domain: 'arc60.io',
+      authenticationData: Buffer.alloc(32),
+    }
+
+    it('should not send signData to apps without SIGN_ARBITRARY', async () => {
+      mockSend.mockResolvedValue(
+        Buffer.from([0, 1, 2, 17, 0, 0, 0, 0, 0, 0x90, 0])
+      )
+
+      await expect(
+        app.signData(message, { scope: 1, encoding: 'base64' })
+      ).rejects.toBeInstanceOf(UnsupportedVersionError)
+      expect(mockSend).toHaveBeenCalledTimes(1)
+    })
 
-      const mockResponse = Buffer.from([
-        // Mock signature (64 bytes)
-        ...Array(64).fill(1),
-        // Return code (2 bytes)
-        0x90,
-        0x00,
-      ])
-      mockSend.mockResolvedValue(mockResponse)
+    it('should report an app that does not know SIGN_ARBITRARY', async () => {
+      const version = Buffer.from([0, 2, 0, 6, 0, 0, 0, 0, 0, 0x90, 0])
+      mockSend
+        .mockResolvedValueOnce(version)
+        .mockRejectedValueOnce(
+          Object.assign(new Error('Instruction not supported'), {
+            statusCode: 0x6d00,
+          })
+        )
+        .mockResolvedValueOnce(version)
+
+      const error = await app
+        .signData(message, { scope: 1, encoding: 'base64' })
+        .catch(e => e)
+
+      expect(error).toBeInstanceOf(UnsupportedVersionError)
+      expect(error.message).toBe(
+        'signData is not supported by Algorand app 2.0.6'
+      )
+      expect(error.requiredVersion).toBeUndefined()
+    })
+  })
 
-      const result = await app.signData(message, {
-        scope: 1,
-        encoding: 'base64',
+  describe('getCapabilities', () => {
+    it('should map the app version to its capabilities', async () => {
+      mockSend.mockResolvedValue(
+        Buffer.from([0, 2, 1, 0, 0, 0, 0, 0, 0, 0x90, 0])
+      )
+      expect(await app.getCapabilities()).toEqual({
+        signArbitrary: true,
+        multiPathSigning: false,
+        programSigning: false,
       })
-      expect(result.signature).toEqual(Buffer.from(Array(64).fill(1)))
     })
   })
 })
@@ -0,0 +1,227 @@
+import { createHash } from 'crypto'
+import { describe, expect, it } from 'vitest'
+import { AlgorandApp } from '../app'
+import {
+  buildSignDataRequest,
+  canonicalizeJson,
+  createAuthenticationData,
+  createRequestId,
+  getSignDataAccountId,
+  validateSignData,
+} from '../arc60'
+import { EmulatorTransport } from '../emulator'
+import {
+  ArbitrarySignError,
+  AuthenticatorFlags,
+  ScopeType,
+  StdSigData,
+} from '../types'
+import { verifySignDataSignature } from '../verify'
+
+const sha256 = (data: string) => createHash('sha256').update(data).digest()
+
+describe('canonicalizeJson', () => {
+  it('should match the RFC 8785 primitive data types example', () => {
+    const value = JSON.parse(
+      '{"numbers":[333333333.33333329,1E30,4.50,2e-3,0.000000000000000000000000001],' +
+        '"string":"\\u20ac$\\u000F\\u000aA\'\\u0042\\u0022\\u005c\\\\\\"\\/",' +
+        '"literals":[null,true,false]}'
+    )
+    expect(canonicalizeJson(value)).toBe(
+      '{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],' +
+        '"string":"€$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}'
+    )
+  })
+
+  it('should sort keys by UTF-16 code units', () => {
+    const value = {
+      '€': 'Euro Sign',
+      '\r': 'Carriage Return',
+      דּ: 'Hebrew Letter Dalet With Dagesh',
+      '1': 'One',
+      '😀': 'Emoji: Grinning Face',
+      '\u0080': 'Control',
+      ö: 'Latin Small Letter O With Diaeresis',
+    }
+    const order = ['\r', '1', '\u0080', 'ö', '€', '😀', 'דּ']
+    expect(canonicalizeJson(value)).toBe(
+      `{${order.map(key => `${JSON.stringify(key)}:${JSON.stringify(value[key as keyof typeof value])}`).join(',')}}`
+    )
+  })
+
+  it('should sort nested objects and skip undefined members', () => {
+    expect(
+      canonicalizeJson({ b: [{ z: 1, y: 2 }], a: undefined, c: 'x' })
+    ).toBe('{"b":[{"y":2,"z":1}],"c":"x"}')
+  })
+
+  it('should reject values JSON cannot represent', () => {
+    expect(() => canonicalizeJson({ n: NaN })).toThrow(
+      'Invalid JSON at $.n: NaN is not finite'
+    )
+    expect(() => canonicalizeJson({ list: [1, undefined] } as never)).toThrow(
+      'Invalid JSON at $.list[1]: unsupported undefined'
+    )
+  })
+
+  it('should reject unpaired surrogates', () => {
+    expect(() => canonicalizeJson({ s: 'a\ud800' })).toThrow(
+      'Invalid JSON at $.s: unpaired surrogate'
+    )
+    expect(() => canonicalizeJson({ list: ['\udc00'] })).toThrow(
+      'Invalid JSON at $.list[0]: unpaired surrogate'
+    )
+    expect(() => canonicalizeJson({ '\udfff': 1 })).toThrow(
+      'Invalid JSON at $: unpaired surrogate'
+    )
+    expect(canonicalizeJson({ '😀': '😀' })).toBe('{"😀":"😀"}')
+  })
+})
+
+describe('signData helpers', () => {
+  it('should encode request IDs as base64 uppercase hex', () => {
+    expect(createRequestId('0a1b')).toBe(Buffer.from('0A1B').toString('base64'))
+    expect(createRequestId(Buffer.from([0xab, 0x01]))).toBe(
+      Buffer.from('AB01').toString('base64')
+    )
+    const random = Buffer.from(createRequestId(), 'base64').toString()
+    expect(random).toMatch(/^[0-9A-F]{32}$/)
+    expect(() => createRequestId('xyz')).toThrow('Invalid request ID')
+  })
+
+  it('should derive authenticationData from the domain', () => {
+    expect(createAuthenticationData('arc60.io')).toEqual(sha256('arc60.io'))
+
+    const withFlags = createAuthenticationData('arc60.io', {
+      flags: AuthenticatorFlags.USER_PRESENT | AuthenticatorFlags.USER_VERIFIED,
+      signCount: 258,
+    })
+    expect(withFlags.subarray(0, 32)).toEqual(sha256('arc60.io'))
+    expect(withFlags.subarray(32).toString('hex')).toBe('0500000102')
+
+    expect(() => createAuthenticationData('')).toThrow('Invalid domain')
+    expect(() => createAuthenticationData('a', { flags: 256 })).toThrow(
+      'Invalid flags'
+    )
+  })
+
+  it('should build a complete request with defaults', () => {
+    const signer = Buffer.alloc(32, 1)
+    const { signingData, metadata } = buildSignDataRequest({
+      data: { type: 'arc60.create', challenge: 'x' },
+      domain: 'arc60.io',
+      signer,
+      accountId: 2,
+    })
+    expect(metadata).toEqual({ scope: ScopeType.AUTH, encoding: 'base64' })
+    expect(Buffer.from(signingData.data, 'base64').toString()).toBe(
+      '{"challenge":"x","type":"arc60.create"}'
+    )
+    expect(signingData.authenticationData).toEqual(sha256('arc60.io'))
+    expect(signingData.hdPath).toBe("m/44'/283'/2'/0/0")
+    expect(signingData.requestId).toBeUndefined()
+  })
+
+  it('should reject invalid signers and paths', () => {
+    const base = { data: {}, domain: 'arc60.io', signer: Buffer.alloc(32) }
+    expect(() =>
+      buildSignDataRequest({ ...base, signer: Buffer.alloc(31) })
+    ).toThrow('Invalid signer')
+    expect(() =>
+      buildSignDataRequest({ ...base, hdPath: "m/44'/60'/0'/0/0" })
+    ).toThrow('Invalid hdPath')
+  })
+
+  it('should be accepted and signed by the device', async () => {
+    const app = new AlgorandApp(
+      new EmulatorTransport({
+        mnemonic:
+          'equip will roof matter pink blind book anxiety banner elbow sun young',
+      })
+    )
+    const { publicKey } = await app.getAddressAndPubKey(1)
+    const { signingData, metadata } = buildSignDataRequest({
+      data: { origin: 'https://arc60.io', nonce: 42 },
+      domain: 'arc60.io',
+      signer: publicKey,
+      requestId: true,
+      accountId: 1,
+      flags: AuthenticatorFlags.USER_PRESENT,
+    })
+    const response = await app.signData(signingData, metadata)
+    expect(verifySignDataSignature(response, metadata)).toBe(true)
+  })
+})
+
+describe('validateSignData', () => {
+  const signer = Buffer.alloc(32, 3)
+  const { signingData, metadata } = buildSignDataRequest({
+    data: { challenge: 'abc' },
+    domain: 'arc60.io',
+    signer,
+  })
+  const codesOf = (data: StdSigData, meta = metadata) =>
+    validateSignData(data, meta, signer).map(({ field, code }) => [field, code])
+
+  it('should accept a built request', () => {
+    expect(validateSignData(signingData, metadata, signer)).toEqual([])
+  })
+
+  it('should map each problem to the device error code', () => {
+    const base64 = (text: string) => Buffer.from(text).toString('base64')
+    expect(
+      codesOf(signingData, { ...metadata, scope: 2 as ScopeType })
+    ).toEqual([['scope', ArbitrarySignError.ErrorInvalidScope]])
+    expect(codesOf(signingData, { ...metadata, encoding: 'hex' })).toEqual([
+      ['encoding', ArbitrarySignError.ErrorFailedDecoding],
+    ])
+    expect(codesOf({ ...signingData, data: 'not base64!' })).toEqual([
+      ['data', ArbitrarySignError.ErrorFailedDecoding],
+    ])
+    expect(codesOf({ ...signingData, data: base64('{bad') })).toEqual([
+      ['data', ArbitrarySignError.ErrorBadJson],
+    ])
+    expect(codesOf({ ...signingData, signer: Buffer.alloc(32, 9) })).toEqual([
+      ['signer', ArbitrarySignError.ErrorInvalidSigner],
+    ])
+    expect(codesOf({ ...signingData, signer: Buffer.alloc(31) })).toEqual([
+      ['signer', ArbitrarySignError.ErrorInvalidSigner],
+    ])
+    expect(codesOf({ ...signingData, domain: 'other.io' })).toEqual([
+      ['authenticationData', ArbitrarySignError.ErrorFailedDomainAuth],
+    ])
+    expect(
+      codesOf({ ...signingData, authenticationData: Buffer.alloc(0) })
+    ).toEqual([
+      ['authenticationData', ArbitrarySignError.ErrorMissingAuthenticatedData],
+    ])
+    expect(codesOf({ ...signingData, hdPath: "m/44'/60'/0'/0/0" })).toEqual([
+      ['hdPath', ArbitrarySignError.ErrorFailedHdPath],
+    ])
+  })
+
+  it('should require canonical JSON', () => {
+    const data = Buffer.from('{"b": 1, "a": 2}').toString('base64')
+    const [issue] = validateSignData({ ...signingData, data }, metadata)
+    expect(issue.code).toBe(ArbitrarySignError.ErrorBadJson)
+    expect(issue.message).toContain('not canonical')
+  })
+
+  it('should report every problem at once', () => {
+    const issues = validateSignData(
+      { ...signingData, domain: '', authenticationData: Buffer.alloc(0) },
+      { scope: ScopeType.UNKNOWN, encoding: 'base64' }
+    )
+    expect(issues.map(issue => issue.field)).toEqual([
+      'scope',
+      'domain',
+      'authenticationData',
+    ])
+  })
+
+  it('should find the account of account paths', () => {
+    expect(getSignDataAccountId()).toBe(0)
+    expect(getSignDataAccountId("m/44'/283'/7'/0/0")).toBe(7)
+    expect(getSignDataAccountId("m/44'/283'/7'/0/1")).toBeUndefined()
+  })
+})
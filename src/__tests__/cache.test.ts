@@ -0,0 +1,176 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { encodeAddress } from '../address'
+import { AlgorandApp } from '../app'
+import {
+  getDeviceFingerprint,
+  MemoryAddressStore,
+  readAddressCache,
+} from '../cache'
+import { EmulatorTransport } from '../emulator'
+import { JsonFileAddressStore } from '../node'
+
+const MNEMONIC =
+  'equip will roof matter pink blind book anxiety banner elbow sun young'
+const OTHER_MNEMONIC =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+
+const key = Buffer.alloc(32, 7)
+const entry = { publicKey: key.toString('hex'), address: encodeAddress(key) }
+
+describe('getDeviceFingerprint', () => {
+  it('should depend on the target ID and the key', () => {
+    const fingerprint = getDeviceFingerprint('33000004', key)
+
+    expect(fingerprint).toMatch(/^[0-9a-f]{32}$/)
+    expect(getDeviceFingerprint('33000004', key)).toBe(fingerprint)
+    expect(getDeviceFingerprint('31100004', key)).not.toBe(fingerprint)
+    expect(getDeviceFingerprint('33000004', Buffer.alloc(32, 8))).not.toBe(
+      fingerprint
+    )
+  })
+})
+
+describe('readAddressCache', () => {
+  it('should ignore other devices and corrupted entries', async () => {
+    const store = new MemoryAddressStore()
+    await store.write({
+      fingerprint: 'a',
+      entries: {
+        "m/44'/283'/0'/0/0": entry,
+        "m/44'/283'/1'/0/0": {
+          ...entry,
+          address: encodeAddress(Buffer.alloc(32)),
+        },
+        "m/44'/283'/2'/0/0": { ...entry, publicKey: 'zz' },
+      },
+    })
+
+    expect((await readAddressCache(store, 'a')).entries).toEqual({
+      "m/44'/283'/0'/0/0": entry,
+    })
+    expect((await readAddressCache(store, 'b')).entries).toEqual({})
+  })
+})
+
+describe('JsonFileAddressStore', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'addresses-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('should round-trip a snapshot', async () => {
+    const store = new JsonFileAddressStore(join(dir, 'cache.json'))
+    const snapshot = {
+      fingerprint: 'a',
+      entries: { "m/44'/283'/0'/0/0": entry },
+    }
+
+    expect(await store.read()).toBeUndefined()
+    await store.write(snapshot)
+    expect(await store.read()).toEqual(snapshot)
+    expect(JSON.parse(await readFile(join(dir, 'cache.json'), 'utf8'))).toEqual(
+      snapshot
+    )
+  })
+
+  it('should treat an unreadable file as empty', async () => {
+    const path = join(dir, 'cache.json')
+    await writeFile(path, '{not json')
+    expect(await new JsonFileAddressStore(path).read()).toBeUndefined()
+    await writeFile(path, '[]')
+    expect(await new JsonFileAddressStore(path).read()).toBeUndefined()
+  })
+
+  it('should treat a file without entries as empty', async () => {
+    const path = join(dir, 'cache.json')
+    const store = new JsonFileAddressStore(path)
+    for (const entries of [null, []]) {
+      await writeFile(path, JSON.stringify({ fingerprint: 'ab', entries }))
+      expect(await store.read()).toBeUndefined()
+      expect(await readAddressCache(store, 'ab')).toEqual({
+        fingerprint: 'ab',
+        entries: {},
+      })
+    }
+  })
+})
+
+describe('AlgorandApp.getAddresses', () => {
+  let transport: EmulatorTransport
+  let app: AlgorandApp
+
+  beforeEach(() => {
+    transport = new EmulatorTransport({ mnemonic: MNEMONIC })
+    app = new AlgorandApp(transport)
+  })
+
+  it('should export a range of accounts', async () => {
+    const { addresses, fingerprint } = await app.getAddresses({
+      start: 1,
+      count: 3,
+    })
+
+    expect(fingerprint).toBeUndefined()
+    expect(addresses.map(a => a.path)).toEqual([
+      "m/44'/283'/1'/0/0",
+      "m/44'/283'/2'/0/0",
+      "m/44'/283'/3'/0/0",
+    ])
+    const second = await app.getAddressAndPubKey(2)
+    expect(addresses[1].publicKey).toEqual(second.publicKey)
+    expect(addresses[1].address).toBe(second.address.toString())
+    expect(addresses.every(a => !a.cached)).toBe(true)
+  })
+
+  it('should serve cached keys without asking the device', async () => {
+    const store = new MemoryAddressStore()
+    const first = await app.getAddresses({ count: 4 }, { store })
+    const exchange = vi.spyOn(transport, 'exchange')
+    const second = await app.getAddresses({ count: 4 }, { store })
+
+    expect(second.fingerprint).toBe(first.fingerprint)
+    expect(second.addresses.map(a => a.address)).toEqual(
+      first.addresses.map(a => a.address)
+    )
+    expect(second.addresses.map(a => a.cached)).toEqual([
+      false,
+      true,
+      true,
+      true,
+    ])
+    // Version and account 0, to identify the device
+    expect(exchange).toHaveBeenCalledTimes(2)
+  })
+
+  it('should invalidate the cache for another device', async () => {
+    const store = new MemoryAddressStore()
+    const first = await app.getAddresses({ count: 2 }, { store })
+
+    const other = new AlgorandApp(
+      new EmulatorTransport({ mnemonic: OTHER_MNEMONIC })
+    )
+    const second = await other.getAddresses({ count: 2 }, { store })
+
+    expect(second.fingerprint).not.toBe(first.fingerprint)
+    expect(second.addresses.every(a => !a.cached)).toBe(true)
+    expect(second.addresses[1].address).not.toBe(first.addresses[1].address)
+    expect((await store.read())?.fingerprint).toBe(second.fingerprint)
+  })
+
+  it('should reject invalid ranges and paths', async () => {
+    await expect(app.getAddresses({ count: -1 })).rejects.toThrow(
+      'Invalid account range'
+    )
+    await expect(app.getAddresses(["m/44'/60'/0'/0/0"])).rejects.toThrow(
+      'Invalid path'
+    )
+  })
+})
@@ -0,0 +1,274 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { AlgorandApp } from '../app'
+import { ExitCode, runCli } from '../cli'
+import { EmulatorTransport } from '../emulator'
+import { createLogicSig, logicSigPublicKey } from '../logicsig'
+import { multisigPublicKey } from '../multisig'
+import {
+  decodeSignedTransaction,
+  encodeSignedTransaction,
+  encodeTransaction,
+} from '../transaction'
+import { AlgorandTransaction, TransactionType } from '../types'
+
+const MNEMONIC =
+  'equip will roof matter pink blind book anxiety banner elbow sun young'
+
+function payment(sender: Uint8Array): AlgorandTransaction {
+  return {
+    type: TransactionType.pay,
+    sender: Buffer.from(sender),
+    receiver: Buffer.alloc(32, 1),
+    amount: 1000,
+    fee: 1000,
+    firstValid: 1,
+    lastValid: 1001,
+    genesisHash: Buffer.alloc(32, 2),
+  }
+}
+
+describe('ledger-algorand CLI', () => {
+  let dir: string
+  let stdout: string
+  let stderr: string
+  let approve: boolean
+  let sender: Buffer
+
+  async function cli(...argv: string[]) {
+    stdout = ''
+    stderr = ''
+    return runCli(argv, {
+      stdout: text => (stdout += text),
+      stderr: text => (stderr += text),
+      env: { LEDGER_ALGORAND_TRANSPORT: 'emulator' },
+      openTransport: async name => {
+        expect(name).toBe('emulator')
+        return new EmulatorTransport({
+          mnemonic: MNEMONIC,
+          approve: () => approve,
+        })
+      },
+    })
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'cli-'))
+    approve = true
+    const app = new AlgorandApp(new EmulatorTransport({ mnemonic: MNEMONIC }))
+    sender = (await app.getAddressAndPubKey(1)).publicKey
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('should report the app version', async () => {
+    expect(await cli('version', '--json')).toBe(ExitCode.Success)
+    expect(JSON.parse(stdout)).toMatchObject({
+      version: '2.1.0',
+      deviceLocked: false,
+    })
+  })
+
+  it('should export addresses with a cache file', async () => {
+    const cache = join(dir, 'cache.json')
+    expect(await cli('addresses', '--range', '0-2', '--cache', cache)).toBe(
+      ExitCode.Success
+    )
+    expect(stdout.trim().split('\n')).toHaveLength(3)
+
+    await cli('addresses', '--range', '1-2', '--cache', cache, '--json')
+    const { addresses } = JSON.parse(stdout)
+    expect(addresses.map((a: { cached: boolean }) => a.cached)).toEqual([
+      true,
+      true,
+    ])
+
+    await cli('address', '--path', "m/44'/283'/1'/0/0")
+    expect(stdout.trim()).toBe(addresses[0].address)
+  })
+
+  it('should sign transaction files and verify them', async () => {
+    const input = join(dir, 'pay.txn')
+    // goal writes unsigned transactions as {txn} records
+    await writeFile(
+      input,
+      encodeSignedTransaction({ transaction: payment(sender) })
+    )
+
+    expect(await cli('sign', input, '--path', '1', '--json')).toBe(
+      ExitCode.Success
+    )
+    const [{ output, signed }] = JSON.parse(stdout).files
+    expect(output).toBe(join(dir, 'pay.stxn'))
+    const stxn = decodeSignedTransaction(await readFile(output))
+    expect(stxn.authAddress).toBeUndefined()
+
+    expect(await cli('verify', output)).toBe(ExitCode.Success)
+    expect(stdout).toContain('valid')
+
+    // Signed with account 1 on behalf of another sender
+    const forged = join(dir, 'forged.stxn')
+    await writeFile(
+      forged,
+      encodeSignedTransaction({
+        ...stxn,
+        transaction: payment(Buffer.alloc(32, 3)),
+      })
+    )
+    expect(await cli('verify', output, forged, '--json')).toBe(
+      ExitCode.InvalidSignature
+    )
+    const { files } = JSON.parse(stdout)
+    expect(files.map((f: { valid: boolean }) => f.valid)).toEqual([true, false])
+    expect(files[0].txId).toBe(signed[0].txId)
+  })
+
+  it('should keep the records of other signers', async () => {
+    const input = join(dir, 'group.txn')
+    const output = join(dir, 'group.json')
+    await writeFile(
+      input,
+      Buffer.concat([
+        encodeSignedTransaction({ transaction: payment(Buffer.alloc(32, 3)) }),
+        encodeSignedTransaction({ transaction: payment(sender) }),
+      ])
+    )
+
+    expect(
+      await cli(
+        'sign',
+        input,
+        '--path',
+        '1',
+        '--out',
+        output,
+        '--format',
+        'json'
+      )
+    ).toBe(ExitCode.Success)
+    expect(stdout).toContain('signed 1 of 2')
+
+    expect(await cli('verify', output)).toBe(ExitCode.InvalidSignature)
+    expect(stdout).toContain(`${output}[0]: invalid, not signed`)
+    expect(stdout).toContain(`${output}[1]: valid`)
+  })
+
+  it('should verify multisig and LogicSig records', async () => {
+    const app = new AlgorandApp(new EmulatorTransport({ mnemonic: MNEMONIC }))
+    const records = async (threshold: number) => {
+      const multisig = {
+        version: 1,
+        threshold,
+        publicKeys: [sender, Buffer.alloc(32, 5)],
+      }
+      const { signedTransaction } = await app.signMultisig(
+        payment(multisigPublicKey(multisig)),
+        multisig,
+        1
+      )
+      return encodeSignedTransaction(signedTransaction)
+    }
+    const program = Buffer.from('068101', 'hex')
+    const escrow = (account: Uint8Array) =>
+      encodeSignedTransaction({
+        transaction: payment(account),
+        logicSig: createLogicSig(program),
+      })
+    const input = join(dir, 'records.txn')
+    await writeFile(
+      input,
+      Buffer.concat([
+        await records(1),
+        await records(2),
+        escrow(logicSigPublicKey(program)),
+        escrow(sender),
+      ])
+    )
+
+    expect(await cli('verify', input, '--json')).toBe(ExitCode.InvalidSignature)
+    const { files } = JSON.parse(stdout)
+    expect(files.map((f: { reason?: string }) => f.reason)).toEqual([
+      undefined,
+      'Multisig threshold not met: 1 of 2 signatures',
+      undefined,
+      expect.stringContaining('LogicSig does not authorize'),
+    ])
+  })
+
+  it('should sign data and verify the output', async () => {
+    const input = join(dir, 'challenge.json')
+    const output = join(dir, 'challenge.signed.json')
+    await writeFile(input, JSON.stringify({ nonce: 'abc', user: 'alice' }))
+
+    expect(
+      await cli('sign-data', input, '--domain', 'example.com', '--out', output)
+    ).toBe(ExitCode.Success)
+    const signed = JSON.parse(await readFile(output, 'utf8'))
+    expect(signed.hdPath).toBe("m/44'/283'/0'/0/0")
+    expect(await cli('verify', output)).toBe(ExitCode.Success)
+
+    await writeFile(output, JSON.stringify({ ...signed, domain: 'evil.com' }))
+    expect(await cli('verify', output)).toBe(ExitCode.InvalidSignature)
+    expect(stdout).toContain('not bound to evil.com')
+  })
+
+  it('should map device errors to exit codes', async () => {
+    approve = false
+    const input = join(dir, 'pay.txn')
+    await writeFile(input, encodeTransaction(payment(sender)))
+
+    expect(await cli('sign', input, '--path', '1', '--json')).toBe(
+      ExitCode.UserRejected
+    )
+    expect(JSON.parse(stdout).error).toMatchObject({
+      name: 'UserRejectedError',
+      returnCode: 0x6986,
+    })
+
+    expect(await cli('address', '--confirm')).toBe(ExitCode.UserRejected)
+    expect(stderr).toContain('ask the user to approve it')
+  })
+
+  it('should reject invalid command lines', async () => {
+    const cases = [
+      [],
+      ['unknown'],
+      ['version', '--confirm'],
+      ['addresses'],
+      ['addresses', '--range', '3-1'],
+      ['sign'],
+      ['version', '--transport', 'ble'],
+      ['version', '--timeout', '0'],
+    ]
+    for (const argv of cases) {
+      expect(await cli(...argv)).toBe(ExitCode.Usage)
+    }
+    expect(stderr).toContain('Usage: ledger-algorand')
+  })
+
+  it('should need a mnemonic for the emulator', async () => {
+    expect(
+      await runCli(['version', '--transport', 'emulator', '--json'], {
+        stdout: text => (stdout = text),
+        env: {},
+      })
+    ).toBe(ExitCode.Usage)
+    expect(JSON.parse(stdout).error.message).toContain(
+      'LEDGER_ALGORAND_MNEMONIC'
+    )
+  })
+
+  it('should load the emulator when selected', async () => {
+    expect(
+      await runCli(['version', '--transport', 'emulator', '--json'], {
+        stdout: text => (stdout = text),
+        env: { LEDGER_ALGORAND_MNEMONIC: MNEMONIC },
+      })
+    ).toBe(ExitCode.Success)
+    expect(JSON.parse(stdout).major).toBe(2)
+  })
+})
@@ -0,0 +1,240 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import Transport from '@ledgerhq/hw-transport'
+import {
+  AppNotOpenError,
+  ConnectionState,
+  DeviceTransportError,
+  encodeTransaction,
+  LedgerConnection,
+  OperationCancelledError,
+  TransactionType,
+} from '../index'
+import { delay } from '../operation'
+import { EmulatorOptions, EmulatorTransport } from '../testing'
+
+const MNEMONIC =
+  'equip will roof matter pink blind book anxiety banner elbow sun young'
+
+const TXN = encodeTransaction({
+  type: TransactionType.pay,
+  sender: Buffer.alloc(32, 1),
+  receiver: Buffer.alloc(32, 2),
+  amount: 1000,
+  fee: 1000,
+  firstValid: 1,
+  lastValid: 1001,
+  genesisHash: Buffer.alloc(32, 3),
+})
+
+// A device the tests unplug, lock and take out of the Algorand app
+class Device {
+  options: EmulatorOptions = { mnemonic: MNEMONIC }
+  appOpen = true
+  plugged = true
+  // APDUs to answer before the device is unplugged
+  unplugAfter = Infinity
+  opened: DeviceTransport[] = []
+  instructions: number[] = []
+
+  set locked(locked: boolean) {
+    this.options.deviceLocked = locked
+  }
+
+  async connect(): Promise<Transport> {
+    if (!this.plugged) {
+      throw new Error('No device found')
+    }
+    const transport = new DeviceTransport(this)
+    this.opened.push(transport)
+    return transport
+  }
+}
+
+class DeviceTransport extends Transport {
+  private readonly emulator: EmulatorTransport
+  closed = false
+
+  constructor(private readonly device: Device) {
+    super()
+    this.emulator = new EmulatorTransport(device.options)
+  }
+
+  async exchange(apdu: Buffer): Promise<Buffer> {
+    const { device } = this
+    if (device.unplugAfter === 0) {
+      device.plugged = false
+    }
+    device.unplugAfter -= 1
+    if (this.closed || !device.plugged) {
+      throw new Error('Device disconnected')
+    }
+    device.instructions.push(apdu[1])
+    if (!device.appOpen) {
+      return Buffer.from([0x6e, 0x00])
+    }
+    return this.emulator.exchange(apdu)
+  }
+
+  async close(): Promise<void> {
+    this.closed = true
+  }
+}
+
+const FAST = { pollInterval: 5, retryDelay: 5, waitTimeout: 1000 }
+
+function later(ms: number, action: () => void) {
+  setTimeout(action, ms)
+}
+
+describe('LedgerConnection', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should wait for the user to unlock the device and open the app', async () => {
+    const device = new Device()
+    device.locked = true
+    const states: ConnectionState[] = []
+    const connection = new LedgerConnection(() => device.connect(), {
+      ...FAST,
+      // The user unlocks the device on the dashboard, then opens the app
+      onStateChange: state => {
+        states.push(state)
+        if (state === ConnectionState.DeviceLocked) {
+          device.locked = false
+          device.appOpen = false
+        } else if (state === ConnectionState.AppNotOpen) {
+          device.appOpen = true
+        }
+      },
+    })
+
+    const { publicKey } = await connection.getAddressAndPubKey(0)
+
+    expect(publicKey).toHaveLength(32)
+    expect(states).toEqual([
+      ConnectionState.Connecting,
+      ConnectionState.DeviceLocked,
+      ConnectionState.AppNotOpen,
+      ConnectionState.Ready,
+    ])
+    expect(connection.state).toBe(ConnectionState.Ready)
+    expect(device.opened).toHaveLength(1)
+  })
+
+  it('should reconnect and retry idempotent calls', async () => {
+    const device = new Device()
+    const connection = new LedgerConnection(() => device.connect(), FAST)
+    await connection.connect()
+
+    device.unplugAfter = 0
+    later(20, () => {
+      device.plugged = true
+    })
+    const { publicKey } = await connection.getAddressAndPubKey(1)
+
+    expect(publicKey).toHaveLength(32)
+    expect(device.opened).toHaveLength(2)
+    expect(device.opened[0].closed).toBe(true)
+  })
+
+  it('should never retry signing', async () => {
+    const device = new Device()
+    const states: ConnectionState[] = []
+    const connection = new LedgerConnection(() => device.connect(), {
+      ...FAST,
+      onStateChange: state => states.push(state),
+    })
+    await connection.connect()
+    device.instructions = []
+
+    device.appOpen = false
+    await expect(
+      connection.run(app => app.sign(0, TXN), { idempotent: false })
+    ).rejects.toBeInstanceOf(AppNotOpenError)
+    expect(device.instructions).toEqual([0x08])
+    expect(connection.state).toBe(ConnectionState.AppNotOpen)
+
+    // The next call checks the device again before signing
+    device.appOpen = true
+    const { signature } = await connection.run(app => app.sign(0, TXN))
+    expect(signature).toHaveLength(64)
+    expect(device.instructions).toEqual([0x08, 0x00, 0x08])
+    expect(states.slice(-2)).toEqual([
+      ConnectionState.AppNotOpen,
+      ConnectionState.Ready,
+    ])
+  })
+
+  it('should give up after waitTimeout and retries', async () => {
+    const device = new Device()
+    device.appOpen = false
+    const connection = new LedgerConnection(() => device.connect(), {
+      ...FAST,
+      waitTimeout: 30,
+    })
+    await expect(connection.connect()).rejects.toBeInstanceOf(AppNotOpenError)
+
+    device.appOpen = true
+    await connection.connect()
+    let calls = 0
+    await expect(
+      connection.run(
+        async () => {
+          calls += 1
+          throw new DeviceTransportError(new Error('Device disconnected'))
+        },
+        { idempotent: true }
+      )
+    ).rejects.toBeInstanceOf(DeviceTransportError)
+    expect(calls).toBe(4)
+  })
+
+  it('should stop waiting when cancelled or disconnected', async () => {
+    const device = new Device()
+    device.plugged = false
+    const connection = new LedgerConnection(() => device.connect(), FAST)
+
+    const controller = new AbortController()
+    later(10, () => controller.abort())
+    await expect(
+      connection.connect({ signal: controller.signal })
+    ).rejects.toBeInstanceOf(OperationCancelledError)
+
+    const pending = connection.connect()
+    later(10, () => connection.disconnect())
+    await expect(pending).rejects.toBeInstanceOf(OperationCancelledError)
+    expect(connection.state).toBe(ConnectionState.Disconnected)
+  })
+  it('should remove its abort listeners after each poll', async () => {
+    const added = vi.spyOn(AbortSignal.prototype, 'addEventListener')
+    const removed = vi.spyOn(AbortSignal.prototype, 'removeEventListener')
+    const device = new Device()
+    device.locked = true
+    const connection = new LedgerConnection(() => device.connect(), FAST)
+
+    later(50, () => (device.locked = false))
+    await connection.connect()
+
+    const listeners = added.mock.calls.map(([, listener]) => listener)
+    const left = listeners.filter(
+      listener => !removed.mock.calls.some(([, other]) => other === listener)
+    )
+    // getVersion and the delay of every poll
+    expect(listeners.length).toBeGreaterThan(10)
+    expect(left).toEqual([])
+  })
+  it('should not start polling with an aborted signal', async () => {
+    vi.useFakeTimers()
+    try {
+      const controller = new AbortController()
+      controller.abort()
+      const waiting = delay(1000, controller.signal)
+
+      await expect(waiting).rejects.toBeInstanceOf(OperationCancelledError)
+      expect(vi.getTimerCount()).toBe(0)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
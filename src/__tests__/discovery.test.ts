@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { AlgorandApp } from '../app'
+import { discoverAccounts } from '../discovery'
+import { EmulatorTransport } from '../emulator'
+import { OperationCancelledError } from '../errors'
+import { formatDerivationPath } from '../path'
+import { Bip44Path, DiscoveryState } from '../types'
+
+const MNEMONIC =
+  'equip will roof matter pink blind book anxiety banner elbow sun young'
+
+describe('discoverAccounts', () => {
+  let app: AlgorandApp
+  let used: Set<string>
+  let checked: string[]
+
+  // Marks the addresses of these keys as having activity
+  async function markUsed(...paths: Bip44Path[]) {
+    for (const path of paths) {
+      const { address } = await app.getAddressAndPubKey(path)
+      used.add(address.toString())
+    }
+  }
+
+  function isUsed(address: string, path: string) {
+    checked.push(path)
+    return used.has(address)
+  }
+
+  beforeEach(() => {
+    app = new AlgorandApp(
+      new EmulatorTransport({
+        mnemonic: MNEMONIC,
+        version: { major: 3, minor: 0, patch: 0 },
+      }),
+      { experimental: { multiPathSigning: true } }
+    )
+    used = new Set()
+    checked = []
+  })
+
+  it('should stop after the gap limit of unused accounts', async () => {
+    await markUsed({ account: 0 }, { account: 2 })
+
+    const { accounts, state } = await discoverAccounts(app, {
+      isUsed,
+      gapLimit: 2,
+    })
+
+    expect(accounts.map(a => a.account)).toEqual([0, 2])
+    expect(accounts[1].addresses).toEqual([
+      {
+        path: "m/44'/283'/2'/0/0",
+        index: 0,
+        address: expect.any(String),
+      },
+    ])
+    // Accounts 3 and 4 close the gap
+    expect(checked).toEqual([0, 1, 2, 3, 4].map(formatAccount))
+    expect(state.done).toBe(true)
+  })
+
+  it('should walk address indexes with their own gap limit', async () => {
+    await markUsed({ account: 0, index: 0 }, { account: 0, index: 2 })
+
+    const { accounts } = await discoverAccounts(app, {
+      isUsed,
+      gapLimit: 1,
+      addressGapLimit: 2,
+    })
+
+    expect(accounts).toHaveLength(1)
+    expect(accounts[0].addresses.map(a => a.index)).toEqual([0, 2])
+    expect(checked).toEqual([
+      "m/44'/283'/0'/0/0",
+      "m/44'/283'/0'/0/1",
+      "m/44'/283'/0'/0/2",
+      "m/44'/283'/0'/0/3",
+      "m/44'/283'/0'/0/4",
+      "m/44'/283'/1'/0/0",
+      "m/44'/283'/1'/0/1",
+    ])
+  })
+
+  it('should resume an interrupted scan', async () => {
+    await markUsed({ account: 1 }, { account: 3 })
+    const saved: DiscoveryState[] = []
+    const controller = new AbortController()
+
+    await expect(
+      discoverAccounts(app, {
+        isUsed: (address, path) => {
+          if (path === formatAccount(2)) controller.abort()
+          return isUsed(address, path)
+        },
+        gapLimit: 3,
+        signal: controller.signal,
+        onCheckpoint: state => {
+          saved.push(state)
+        },
+      })
+    ).rejects.toBeInstanceOf(OperationCancelledError)
+
+    const resume = saved[saved.length - 1]
+    expect(resume.account).toBe(2)
+    checked = []
+    const { accounts } = await discoverAccounts(app, {
+      isUsed,
+      gapLimit: 3,
+      resume,
+    })
+
+    expect(accounts.map(a => a.account)).toEqual([1, 3])
+    expect(checked[0]).toBe(formatAccount(2))
+    // The saved state is not modified by the resumed scan
+    expect(resume.done).toBe(false)
+  })
+
+  it('should reject invalid limits', async () => {
+    await expect(
+      discoverAccounts(app, { isUsed, gapLimit: 0 })
+    ).rejects.toThrow('Invalid gap limit')
+    await expect(
+      discoverAccounts(app, { isUsed, addressGapLimit: 1.5 })
+    ).rejects.toThrow('Invalid address gap limit')
+  })
+})
+
+function formatAccount(account: number) {
+  return formatDerivationPath(account)
+}
@@ -0,0 +1,675 @@
+import { createHash } from 'crypto'
+import { mnemonicToSeedSync } from 'bip39'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { LedgerError } from '../common'
+import { deriveChild, publicKeyOf } from '../hdkey'
+import {
+  AlgorandApp,
+  ArbitrarySignError,
+  decodeAddress,
+  decodeSignedTransaction,
+  DeviceLockedError,
+  encodeAddress,
+  encodeTransaction,
+  ExperimentalFeatureError,
+  getTransactionId,
+  InvalidDataError,
+  isValidAddress,
+  LedgerDeviceError,
+  OperationCancelledError,
+  ScopeType,
+  SignDataError,
+  SignDataValidationError,
+  SigningProgress,
+  SigningStage,
+  StdSigData,
+  TransactionType,
+  UnsupportedVersionError,
+  UserRejectedError,
+  verifySignDataSignature,
+  verifyTransactionSignature,
+} from '../index'
+import { EmulatorApprovalRequest, EmulatorTransport } from '../testing'
+
+const MNEMONIC =
+  'equip will roof matter pink blind book anxiety banner elbow sun young'
+
+const HARDENED = 0x80000000
+
+function accountPath(accountId: number) {
+  return [44 + HARDENED, 283 + HARDENED, accountId + HARDENED, 0, 0]
+}
+
+function paymentFrom(sender: Uint8Array, note: Uint8Array = Buffer.alloc(0)) {
+  return encodeTransaction({
+    type: TransactionType.pay,
+    sender,
+    receiver: Buffer.alloc(32, 1),
+    amount: 1000000,
+    fee: 1000,
+    firstValid: 1,
+    lastValid: 1001,
+    genesisHash: Buffer.alloc(32, 2),
+    note,
+  })
+}
+
+function signDataRequest(signer: Uint8Array): StdSigData {
+  const domain = 'arc60.io'
+  return {
+    data: Buffer.from(JSON.stringify({ challenge: 'abc' })).toString('base64'),
+    signer,
+    domain,
+    authenticationData: createHash('sha256').update(domain).digest(),
+  }
+}
+
+const metadata = { scope: ScopeType.AUTH, encoding: 'base64' }
+
+describe('EmulatorTransport', () => {
+  let requests: EmulatorApprovalRequest[]
+  let approve: boolean
+  let transport: EmulatorTransport
+  let app: AlgorandApp
+
+  beforeEach(() => {
+    requests = []
+    approve = true
+    transport = new EmulatorTransport({
+      mnemonic: MNEMONIC,
+      approve: request => {
+        requests.push(request)
+        return approve
+      },
+    })
+    app = new AlgorandApp(transport)
+  })
+
+  it('should reject an invalid mnemonic', () => {
+    expect(() => new EmulatorTransport({ mnemonic: 'not a mnemonic' })).toThrow(
+      'Invalid mnemonic'
+    )
+  })
+
+  it('should report the configured version', async () => {
+    const emulator = new EmulatorTransport({
+      mnemonic: MNEMONIC,
+      version: { major: 2, minor: 2, patch: 1 },
+      testMode: true,
+    })
+    const version = await new AlgorandApp(emulator).getVersion()
+
+    expect(version.major).toBe(2)
+    expect(version.minor).toBe(2)
+    expect(version.patch).toBe(1)
+    expect(version.testMode).toBe(true)
+    expect(version.deviceLocked).toBe(false)
+  })
+
+  it('should derive distinct, valid addresses per account', async () => {
+    const first = await app.getAddressAndPubKey(0)
+    const second = await app.getAddressAndPubKey(1)
+
+    expect(isValidAddress(first.address.toString())).toBe(true)
+    expect(decodeAddress(first.address.toString())).toEqual(first.publicKey)
+    expect(first.publicKey).toEqual(transport.getPublicKey(accountPath(0)))
+    expect(second.publicKey).not.toEqual(first.publicKey)
+    expect(requests).toHaveLength(0)
+  })
+
+  it('should return the same key from getPubkey', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(3)
+    const response = await app.getPubkey(3)
+    expect(response.publicKey).toEqual(publicKey)
+  })
+
+  it('should ask for approval when showing the address', async () => {
+    const { address } = await app.getAddressAndPubKey(0, true)
+    expect(requests).toHaveLength(1)
+    expect(requests[0].data.toString()).toBe(address.toString())
+
+    approve = false
+    await expect(app.getAddressAndPubKey(0, true)).rejects.toMatchObject({
+      returnCode: LedgerError.TransactionRejected,
+    })
+  })
+
+  it('should sign a single chunk transaction', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(0)
+    const blob = paymentFrom(publicKey)
+    const { signature } = await app.sign(0, blob)
+
+    expect(verifyTransactionSignature(blob, signature, publicKey)).toBe(true)
+    expect(requests[0].data).toEqual(blob)
+  })
+
+  it('should sign a multi-chunk transaction for another account', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(2)
+    const blob = paymentFrom(publicKey, Buffer.alloc(600, 7))
+    expect(
+      AlgorandApp.prepareChunksFromAccountId(2, blob).length
+    ).toBeGreaterThan(1)
+
+    const { signature } = await app.sign(2, blob)
+    expect(verifyTransactionSignature(blob, signature, publicKey)).toBe(true)
+    expect(requests[0].path).toEqual(accountPath(2))
+  })
+
+  it('should report signing progress', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(0)
+    const blob = paymentFrom(publicKey, Buffer.alloc(600, 7))
+    const chunkCount = AlgorandApp.prepareChunksFromAccountId(0, blob).length
+    const events: (SigningProgress | string)[] = []
+    transport = new EmulatorTransport({
+      mnemonic: MNEMONIC,
+      approve: () => {
+        events.push('prompt')
+        return true
+      },
+    })
+
+    await new AlgorandApp(transport).sign(0, blob, {
+      onProgress: progress => events.push(progress),
+    })
+    const progress = (stage: SigningStage, chunkIndex: number) => ({
+      stage,
+      ins: 0x08,
+      chunkIndex,
+      chunkCount,
+    })
+    expect(events).toEqual([
+      ...Array.from({ length: chunkCount - 1 }, (_, i) =>
+        progress(SigningStage.ChunkSent, i)
+      ),
+      progress(SigningStage.AwaitingConfirmation, chunkCount - 1),
+      'prompt',
+      progress(SigningStage.Done, chunkCount - 1),
+    ])
+  })
+
+  it('should report progress per group transaction', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(0)
+    const events: SigningProgress[] = []
+    await app.signGroup(
+      [
+        paymentFrom(publicKey),
+        paymentFrom(Buffer.alloc(32, 5)),
+        paymentFrom(publicKey),
+      ],
+      [0],
+      { onProgress: progress => events.push(progress) }
+    )
+    expect(
+      events
+        .filter(event => event.stage === SigningStage.Done)
+        .map(({ itemIndex, itemCount }) => [itemIndex, itemCount])
+    ).toEqual([
+      [0, 3],
+      [2, 3],
+    ])
+  })
+
+  it('should assemble signed transactions for rekeyed senders', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(1)
+    const own = await app.signTransaction(paymentFrom(publicKey), 1)
+    expect(own.signedTransaction.authAddress).toBeUndefined()
+    expect(own.txId).toBe(getTransactionId(paymentFrom(publicKey)))
+
+    const rekeyed = await app.signTransaction(
+      paymentFrom(Buffer.alloc(32, 5)),
+      1
+    )
+    expect(rekeyed.signedTransaction.authAddress).toEqual(publicKey)
+    expect(decodeSignedTransaction(rekeyed.blob).signature).toEqual(
+      rekeyed.signature
+    )
+  })
+
+  it('should report where a multi-chunk signing failed', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(0)
+    const blob = paymentFrom(publicKey, Buffer.alloc(600, 7))
+    const chunks = AlgorandApp.prepareChunksFromAccountId(0, blob)
+
+    approve = false
+    const error = await app.sign(0, blob).catch(e => e)
+    expect(error).toBeInstanceOf(UserRejectedError)
+    expect(error.ins).toBe(0x08)
+    expect(error.chunkIndex).toBe(chunks.length - 1)
+  })
+
+  it('should refuse malformed transactions and user rejection', async () => {
+    await expect(app.sign(0, Buffer.from('not msgpack'))).rejects.toMatchObject(
+      { returnCode: LedgerError.DataIsInvalid }
+    )
+    await expect(
+      app.sign(0, Buffer.from('not msgpack'))
+    ).rejects.toBeInstanceOf(InvalidDataError)
+
+    approve = false
+    const { publicKey } = await app.getAddressAndPubKey(0)
+    await expect(app.sign(0, paymentFrom(publicKey))).rejects.toMatchObject({
+      returnCode: LedgerError.TransactionRejected,
+    })
+  })
+
+  it('should produce verifiable signData signatures', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(0)
+    const response = await app.signData(signDataRequest(publicKey), metadata)
+    expect(verifySignDataSignature(response, metadata)).toBe(true)
+  })
+
+  it('should report signData progress', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(0)
+    const stages: SigningStage[] = []
+    await app.signData(signDataRequest(publicKey), metadata, {
+      onProgress: ({ stage, ins }) => {
+        expect(ins).toBe(0x10)
+        stages.push(stage)
+      },
+    })
+    expect(stages).toEqual([
+      SigningStage.ChunkSent,
+      SigningStage.AwaitingConfirmation,
+      SigningStage.Done,
+    ])
+  })
+
+  it('should sign data for a custom path', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(4)
+    const request = {
+      ...signDataRequest(publicKey),
+      hdPath: "m/44'/283'/4'/0/0",
+    }
+    const response = await app.signData(request, metadata)
+    expect(verifySignDataSignature(response, metadata)).toBe(true)
+  })
+
+  it('should report the signData error codes', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(0)
+    const request = signDataRequest(publicKey)
+    const cases: [StdSigData, number, number?][] = [
+      [request, ArbitrarySignError.ErrorInvalidScope, 2],
+      [
+        { ...request, signer: Buffer.alloc(32, 9) },
+        ArbitrarySignError.ErrorInvalidSigner,
+      ],
+      [
+        { ...request, data: Buffer.from('{bad').toString('base64') },
+        ArbitrarySignError.ErrorBadJson,
+      ],
+      [{ ...request, domain: '' }, ArbitrarySignError.ErrorMissingDomain],
+      [
+        { ...request, authenticationData: Buffer.alloc(0) },
+        ArbitrarySignError.ErrorMissingAuthenticatedData,
+      ],
+      [
+        { ...request, domain: 'other.io' },
+        ArbitrarySignError.ErrorFailedDomainAuth,
+      ],
+      [
+        { ...request, hdPath: "m/44'/60'/0'/0/0" },
+        ArbitrarySignError.ErrorFailedHdPath,
+      ],
+    ]
+
+    for (const [data, returnCode, scope] of cases) {
+      await expect(
+        app.signData(data, { ...metadata, scope: scope ?? ScopeType.AUTH })
+      ).rejects.toMatchObject({ returnCode })
+    }
+    await expect(
+      app.signData({ ...request, domain: '' }, metadata)
+    ).rejects.toBeInstanceOf(SignDataError)
+    expect(requests).toHaveLength(0)
+  })
+
+  it('should refuse invalid signData requests during preflight', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(2)
+    const request = {
+      ...signDataRequest(publicKey),
+      hdPath: "m/44'/283'/2'/0/0",
+    }
+    const signed = await app.signData(request, metadata, { preflight: true })
+    expect(verifySignDataSignature(signed, metadata)).toBe(true)
+    expect(requests).toHaveLength(1)
+
+    const other = await app.getAddressAndPubKey(0)
+    const error = await app
+      .signData({ ...request, signer: other.publicKey }, metadata, {
+        preflight: true,
+      })
+      .catch(e => e)
+    expect(error).toBeInstanceOf(SignDataValidationError)
+    expect(error.returnCode).toBe(ArbitrarySignError.ErrorInvalidSigner)
+    expect(error.issues).toHaveLength(1)
+    expect(requests).toHaveLength(1)
+  })
+
+  it('should refuse everything but the version when locked', async () => {
+    const emulator = new EmulatorTransport({
+      mnemonic: MNEMONIC,
+      deviceLocked: true,
+    })
+    const locked = new AlgorandApp(emulator)
+
+    expect((await locked.getVersion()).deviceLocked).toBe(true)
+    await expect(locked.getAddressAndPubKey(0)).rejects.toMatchObject({
+      returnCode: 0x5515,
+    })
+    await expect(locked.getAddressAndPubKey(0)).rejects.toBeInstanceOf(
+      DeviceLockedError
+    )
+  })
+
+  it('should report the app info from the dashboard command', async () => {
+    const info = await app.getAppInfo()
+
+    expect(info.returnCode).toBe(LedgerError.NoErrors)
+    expect(info.appName).toBe('Algorand')
+    expect(info.appVersion).toBe('2.1.0')
+    expect(info.flagOnboarded).toBe(true)
+    expect(info.flagPINValidated).toBe(true)
+  })
+
+  it('should detect capabilities from the app version', async () => {
+    const old = new AlgorandApp(
+      new EmulatorTransport({
+        mnemonic: MNEMONIC,
+        version: { major: 1, minor: 2, patch: 17 },
+      })
+    )
+
+    expect(await old.getCapabilities()).toEqual({
+      signArbitrary: false,
+      multiPathSigning: false,
+      programSigning: false,
+    })
+    await expect(
+      old.signData(signDataRequest(Buffer.alloc(32)), metadata)
+    ).rejects.toBeInstanceOf(UnsupportedVersionError)
+    expect((await app.getCapabilities()).signArbitrary).toBe(true)
+  })
+
+  it('should ask to close the app before reading device info', async () => {
+    const error = await app.getDeviceInfo().catch(e => e)
+
+    expect(error).toBeInstanceOf(LedgerDeviceError)
+    expect(error.returnCode).toBe(LedgerError.AppDoesNotSeemToBeOpen)
+    expect(error.hint).toMatch(/dashboard/)
+  })
+})
+
+describe('key derivation', () => {
+  // Known answer published with the Algorand Foundation's xHD-Wallet-API
+  // (Khovratovich mode), whose key signed a transaction on TestNet. That
+  // library makes the root key from SHA-512 of the seed instead of the
+  // Ledger's HMAC, so the root is built here the same way and only the
+  // child derivation, shared with the device, is checked.
+  it('should derive a published address from a published mnemonic', () => {
+    const seed = mnemonicToSeedSync(
+      'salon zoo engage submit smile frost later decide wing sight chaos renew lizard rely canal coral scene hobby scare step bus leaf tobacco slice'
+    )
+    const k = createHash('sha512').update(seed).digest()
+    const kL = k.subarray(0, 32)
+    kL[0] &= 0xf8
+    kL[31] = (kL[31] & 0x7f) | 0x40
+    const root = {
+      kL,
+      kR: k.subarray(32),
+      chainCode: createHash('sha256')
+        .update(Buffer.concat([Buffer.from([0x01]), seed]))
+        .digest(),
+    }
+
+    const key = accountPath(0).reduce(deriveChild, root)
+
+    expect(encodeAddress(publicKeyOf(key))).toBe(
+      'ML7IGK322ECUJPUDG6THAQ26KBSK4STG4555PCIJOZNUNNLWU3Z3ZFXITA'
+    )
+  })
+})
+
+describe('signing by path', () => {
+  const experimental = { multiPathSigning: true }
+  let requests: EmulatorApprovalRequest[]
+  let transport: EmulatorTransport
+  let app: AlgorandApp
+
+  beforeEach(() => {
+    requests = []
+    transport = new EmulatorTransport({
+      mnemonic: MNEMONIC,
+      version: { major: 3, minor: 0, patch: 0 },
+      approve: request => {
+        requests.push(request)
+        return true
+      },
+    })
+    app = new AlgorandApp(transport, { experimental })
+  })
+
+  it('should address account paths by account ID', async () => {
+    const byId = await app.getAddressAndPubKey(2)
+
+    expect(
+      (await app.getAddressAndPubKey("m/44'/283'/2'/0/0")).publicKey
+    ).toEqual(byId.publicKey)
+    expect((await app.getAddressAndPubKey({ account: 2 })).publicKey).toEqual(
+      byId.publicKey
+    )
+  })
+
+  it('should derive and sign with any change and index', async () => {
+    const path = { account: 1, change: 0, index: 4 }
+    const { publicKey } = await app.getAddressAndPubKey(path)
+    expect(publicKey).toEqual(
+      transport.getPublicKey([
+        44 + HARDENED,
+        283 + HARDENED,
+        1 + HARDENED,
+        0,
+        4,
+      ])
+    )
+
+    const blob = paymentFrom(publicKey, Buffer.alloc(400, 7))
+    const { signature } = await app.sign("m/44'/283'/1'/0/4", blob)
+
+    expect(verifyTransactionSignature(blob, signature, publicKey)).toBe(true)
+    expect(requests[0].path).toEqual([
+      44 + HARDENED,
+      283 + HARDENED,
+      1 + HARDENED,
+      0,
+      4,
+    ])
+  })
+
+  it('should refuse other paths before the app supports them', async () => {
+    const send = vi.fn()
+    const legacy = new EmulatorTransport({ mnemonic: MNEMONIC })
+    const old = new AlgorandApp(legacy, { experimental })
+    await old.getVersion()
+    legacy.exchange = send
+
+    await expect(
+      old.getAddressAndPubKey({ account: 0, index: 1 })
+    ).rejects.toBeInstanceOf(UnsupportedVersionError)
+    await expect(
+      old.sign("m/44'/283'/0'/1/0", Buffer.from('tx'))
+    ).rejects.toBeInstanceOf(UnsupportedVersionError)
+    expect(send).not.toHaveBeenCalled()
+  })
+
+  it('should not send path payloads unless enabled', async () => {
+    const disabled = new AlgorandApp(transport)
+    await disabled.getVersion()
+    const exchange = vi.spyOn(transport, 'exchange')
+
+    await expect(
+      disabled.getAddressAndPubKey({ account: 0, index: 1 })
+    ).rejects.toBeInstanceOf(ExperimentalFeatureError)
+    await expect(
+      disabled.sign("m/44'/283'/0'/1/0", Buffer.from('tx'))
+    ).rejects.toBeInstanceOf(ExperimentalFeatureError)
+    expect(exchange).not.toHaveBeenCalled()
+    expect(await disabled.getAddressAndPubKey(2)).toEqual(
+      await app.getAddressAndPubKey(2)
+    )
+    expect((await disabled.getCapabilities()).multiPathSigning).toBe(false)
+  })
+
+  it('should reject an invalid path without reaching the device', async () => {
+    await expect(
+      app.sign("m/44'/60'/0'/0/0", Buffer.from('tx'))
+    ).rejects.toThrow('Invalid path')
+    expect(app.queue.size).toBe(0)
+    expect(requests).toHaveLength(0)
+  })
+})
+
+// Resolves the Promise<boolean> of an approval prompt
+type Answer = Parameters<ConstructorParameters<typeof Promise<boolean>>[0]>[0]
+
+describe('cancellation', () => {
+  let release: Answer | undefined
+  let transport: EmulatorTransport
+  let app: AlgorandApp
+
+  // Resolves once the emulated device asks the user
+  const prompted = () =>
+    vi.waitFor(() => {
+      if (!release) throw new Error('No prompt yet')
+      return release
+    })
+
+  beforeEach(() => {
+    release = undefined
+    transport = new EmulatorTransport({
+      mnemonic: MNEMONIC,
+      // Waits for the test to press a button
+      approve: () => new Promise<boolean>(resolve => (release = resolve)),
+    })
+    app = new AlgorandApp(transport)
+  })
+
+  it('should not send anything when already aborted', async () => {
+    const exchange = vi.spyOn(transport, 'exchange')
+    const controller = new AbortController()
+    controller.abort()
+
+    const error = await app
+      .getAddressAndPubKey(0, false, { signal: controller.signal })
+      .catch(e => e)
+    expect(error).toBeInstanceOf(OperationCancelledError)
+    expect(error.reason).toBe('aborted')
+    expect(exchange).not.toHaveBeenCalled()
+  })
+
+  it('should stop sending chunks once aborted', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(0)
+    const blob = paymentFrom(publicKey, Buffer.alloc(600, 7))
+    const controller = new AbortController()
+    const exchange = vi.spyOn(transport, 'exchange')
+    exchange.mockImplementationOnce(async apdu => {
+      controller.abort('dialog closed')
+      return EmulatorTransport.prototype.exchange.call(transport, apdu)
+    })
+
+    const error = await app
+      .sign(0, blob, { signal: controller.signal })
+      .catch(e => e)
+    expect(error).toBeInstanceOf(OperationCancelledError)
+    expect(error.cause).toBe('dialog closed')
+    expect(exchange).toHaveBeenCalledTimes(1)
+  })
+
+  it('should reject while the user has not answered', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(0)
+    const controller = new AbortController()
+    const pending = app.sign(0, paymentFrom(publicKey), {
+      signal: controller.signal,
+    })
+    const answer = await prompted()
+    controller.abort()
+    await expect(pending).rejects.toBeInstanceOf(OperationCancelledError)
+
+    // The device answers the abandoned request; the transport stays usable
+    release = undefined
+    answer(false)
+    const next = app.sign(0, paymentFrom(publicKey))
+    const approveNext = await prompted()
+    approveNext(true)
+    const { signature } = await next
+    expect(
+      verifyTransactionSignature(paymentFrom(publicKey), signature, publicKey)
+    ).toBe(true)
+  })
+
+  it('should hold the queue until an abandoned exchange settles', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(0)
+    // Like the HID transports, refuse an APDU while another one is pending
+    const exchange = transport.exchange.bind(transport)
+    vi.spyOn(transport, 'exchange').mockImplementation(apdu =>
+      transport.exchangeAtomicImpl(() => exchange(apdu))
+    )
+    const controller = new AbortController()
+    const pending = app.sign(0, paymentFrom(publicKey), {
+      signal: controller.signal,
+    })
+    const answer = await prompted()
+    controller.abort()
+    await expect(pending).rejects.toBeInstanceOf(OperationCancelledError)
+
+    const next = app.getAddressAndPubKey(1)
+    expect(app.queue.active?.label).toBe('sign')
+    expect(app.queue.pending.map(({ label }) => label)).toEqual([
+      'getAddressAndPubKey',
+    ])
+    answer(false)
+    expect((await next).publicKey).toHaveLength(32)
+    expect(app.queue.active).toBeUndefined()
+  })
+
+  it('should not interleave concurrent calls', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(0)
+    const blob = paymentFrom(publicKey, Buffer.alloc(600, 7))
+    const chunkCount = AlgorandApp.prepareChunksFromAccountId(0, blob).length
+    const sent: number[] = []
+    const exchange = transport.exchange.bind(transport)
+    vi.spyOn(transport, 'exchange').mockImplementation(apdu => {
+      sent.push(apdu[1])
+      return exchange(apdu)
+    })
+
+    const signing = app.sign(0, blob)
+    const address = app.getAddressAndPubKey(1)
+    await prompted()
+    expect(app.queue.active?.label).toBe('sign')
+    expect(app.queue.pending.map(({ label }) => label)).toEqual([
+      'getAddressAndPubKey',
+    ])
+
+    release?.(true)
+    await Promise.all([signing, address])
+    expect(sent).toEqual([...Array(chunkCount).fill(0x08), 0x04])
+  })
+
+  it('should time out a whole operation', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(0)
+    const error = await app
+      .signTransaction(paymentFrom(publicKey), 0, { timeout: 20 })
+      .catch(e => e)
+    expect(error).toBeInstanceOf(OperationCancelledError)
+    expect(error.reason).toBe('timeout')
+    expect(error.message).toBe('Operation timed out after 20 ms')
+    const reject = await prompted()
+    reject(false)
+  })
+
+  it('should refuse invalid timeouts', async () => {
+    await expect(app.getVersion({ timeout: 0 })).rejects.toThrow(
+      'Invalid timeout'
+    )
+  })
+})
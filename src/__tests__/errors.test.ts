@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { ResponseError } from '@zondax/ledger-js'
+import { LedgerError } from '../common'
+import {
+  AppNotOpenError,
+  ArbitrarySignError,
+  BadJsonError,
+  createDeviceError,
+  DeviceLockedError,
+  DeviceTransportError,
+  InvalidDataError,
+  LedgerDeviceError,
+  OperationCancelledError,
+  SignDataError,
+  toDeviceError,
+  UserRejectedError,
+  WrongLengthError,
+} from '../index'
+
+describe('createDeviceError', () => {
+  it('should pick the subclass of each status word', () => {
+    const cases: [number, Function][] = [
+      [LedgerError.TransactionRejected, UserRejectedError],
+      [LedgerError.AppDoesNotSeemToBeOpen, AppNotOpenError],
+      [0x6e01, AppNotOpenError],
+      [0x5515, DeviceLockedError],
+      [LedgerError.WrongLength, WrongLengthError],
+      [LedgerError.DataIsInvalid, InvalidDataError],
+      [ArbitrarySignError.ErrorBadJson, BadJsonError],
+    ]
+    for (const [statusCode, type] of cases) {
+      const error = createDeviceError(statusCode)
+      expect(error).toBeInstanceOf(type)
+      expect(error.statusCode).toBe(statusCode)
+      expect(error.returnCode).toBe(statusCode)
+    }
+  })
+
+  it('should keep the ResponseError shape', () => {
+    const error = createDeviceError(LedgerError.TransactionRejected, {
+      ins: 0x08,
+      chunkIndex: 2,
+    })
+    expect(error).toBeInstanceOf(ResponseError)
+    expect(error).toBeInstanceOf(Error)
+    expect(error.errorMessage).toBe('Transaction rejected')
+    expect(error.message).toBe('Transaction rejected (INS 0x08, chunk 2)')
+    expect(error.ins).toBe(0x08)
+    expect(error.chunkIndex).toBe(2)
+    expect(error.hint).toContain('approve')
+  })
+
+  it('should group the signData failures', () => {
+    for (let code = 0x6988; code <= 0x698f; code += 1) {
+      expect(createDeviceError(code)).toBeInstanceOf(SignDataError)
+    }
+    const unknown = createDeviceError(0x6f42)
+    expect(unknown.constructor).toBe(LedgerDeviceError)
+    expect(unknown.errorMessage).toBe('Unknown Status Code: 0x6f42')
+  })
+})
+
+describe('toDeviceError', () => {
+  it('should convert transport status errors', () => {
+    const error = toDeviceError(
+      Object.assign(new Error('Ledger device: Locked device'), {
+        statusCode: 0x5515,
+      }),
+      { ins: 0x04 }
+    )
+    expect(error).toBeInstanceOf(DeviceLockedError)
+    expect(error).toMatchObject({ statusCode: 0x5515, ins: 0x04 })
+  })
+
+  it('should convert response errors', () => {
+    const error = toDeviceError(new ResponseError(0x6984, 'Data is invalid'))
+    expect(error).toBeInstanceOf(InvalidDataError)
+  })
+
+  it('should wrap failures without a status word', () => {
+    const cause = new Error('Device disconnected')
+    const error = toDeviceError(cause, { ins: 0x08 })
+    expect(error).toBeInstanceOf(DeviceTransportError)
+    expect(error.message).toBe('Device disconnected (INS 0x08)')
+    expect((error as DeviceTransportError).cause).toBe(cause)
+  })
+
+  it('should keep the innermost context', () => {
+    const inner = createDeviceError(0x6986, { ins: 0x08, chunkIndex: 3 })
+    expect(toDeviceError(inner, { ins: 0x08 })).toBe(inner)
+  })
+
+  it('should let cancellations through', () => {
+    const cancelled = new OperationCancelledError('timeout', 1000)
+    expect(toDeviceError(cancelled)).toBe(cancelled)
+  })
+})
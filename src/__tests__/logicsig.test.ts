@@ -0,0 +1,283 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { ed25519 } from '@noble/curves/ed25519'
+import { AlgorandApp } from '../app'
+import { EmulatorTransport } from '../emulator'
+import { ExperimentalFeatureError, UnsupportedVersionError } from '../errors'
+import {
+  appendLogicSigMultisigSignature,
+  appendLogicSigSignature,
+  createLogicSig,
+  createLogicSigTransaction,
+  logicSigAddress,
+  logicSigPublicKey,
+  mergeLogicSigs,
+} from '../logicsig'
+import { multisigPublicKey } from '../multisig'
+import {
+  decodeSignedTransaction,
+  encodeSignedTransaction,
+  encodeTransaction,
+} from '../transaction'
+import { MultisigMetadata, TransactionType } from '../types'
+import { getProgramSigningPayload, verifyProgramSignature } from '../verify'
+
+// "#pragma version 6; int 1", with its escrow address and SignedTxns produced
+// by algosdk with keys derived from the seeds 0x01.., 0x02.. and 0x03..
+const PROGRAM = Buffer.from('068101', 'hex')
+const ARGS = [Buffer.from('61', 'hex'), Buffer.from('0102', 'hex')]
+const ESCROW_ADDRESS =
+  'ZG2RRCHBZ4K2QKP3NGMYVF2MVG7YW2TSNJPVFVLEGX7KGQ46QVPJGOFTK4'
+const VECTORS = {
+  escrow:
+    '82a46c73696782a361726792c40161c4020102a16cc403068101a374786e88a3616d7407a3666565cd03e8a2667601a26768c4200202020202020202020202020202020202020202020202020202020202020202a26c76cd03e9a3726376c4208a88e3dd7409f195fd52db2d3cba5d72ca6709bf1d94121bf3748801b40f6f5ca3736e64c420c9b51888e1cf15a829fb69998a974ca9bf8b6a726a5f52d56435fea3439e855ea474797065a3706179',
+  delegated:
+    '82a46c73696783a361726792c40161c4020102a16cc403068101a3736967c4407f0bede43ffd74dc1492e4de37cb76cba6091c5dfa5352fb095c1633c0da41d9afda39250986a7a3006d13f0d86621891784b2bbf39c0c06c04b54b478092c0aa374786e88a3616d7407a3666565cd03e8a2667601a26768c4200202020202020202020202020202020202020202020202020202020202020202a26c76cd03e9a3726376c4208a88e3dd7409f195fd52db2d3cba5d72ca6709bf1d94121bf3748801b40f6f5ca3736e64c4208a88e3dd7409f195fd52db2d3cba5d72ca6709bf1d94121bf3748801b40f6f5ca474797065a3706179',
+  delegatedRekeyed:
+    '83a46c73696783a361726792c40161c4020102a16cc403068101a3736967c4407f0bede43ffd74dc1492e4de37cb76cba6091c5dfa5352fb095c1633c0da41d9afda39250986a7a3006d13f0d86621891784b2bbf39c0c06c04b54b478092c0aa473676e72c4208a88e3dd7409f195fd52db2d3cba5d72ca6709bf1d94121bf3748801b40f6f5ca374786e88a3616d7407a3666565cd03e8a2667601a26768c4200202020202020202020202020202020202020202020202020202020202020202a26c76cd03e9a3726376c4208a88e3dd7409f195fd52db2d3cba5d72ca6709bf1d94121bf3748801b40f6f5ca3736e64c4208139770ea87d175f56a35466c34c7ecccb8d8a91b4ee37a25df60f5b8fc9b394a474797065a3706179',
+  multisig:
+    '82a46c73696782a16cc403068101a56c6d73696783a67375627369679382a2706bc4208a88e3dd7409f195fd52db2d3cba5d72ca6709bf1d94121bf3748801b40f6f5ca173c44033c582243d6f3e96f0ce09b412e05a4dc6ce5ae790df874a2b6eeacf98520b3162acbc80a6d2cddec3a62b246872c977f2f5ad58719a2b0dff42c36d4d57c40981a2706bc4208139770ea87d175f56a35466c34c7ecccb8d8a91b4ee37a25df60f5b8fc9b39482a2706bc420ed4928c628d1c2c6eae90338905995612959273a5c63f93636c14614ac8737d1a173c4406b0d66a0ecda958d290b2f980fd402e735fc33fa9327004c0f0ce8a73e039be9dedb9e009022c10d18cc000bc8992af571c0c73475d9934a7f09f0b5d0848608a374687202a17601a374786e88a3616d7407a3666565cd03e8a2667601a26768c4200202020202020202020202020202020202020202020202020202020202020202a26c76cd03e9a3726376c4208a88e3dd7409f195fd52db2d3cba5d72ca6709bf1d94121bf3748801b40f6f5ca3736e64c420637faa3b2c09754b0d1626f0ae20ab1edd2459a1f6ed0024a1c91495ecc8ecc0a474797065a3706179',
+}
+
+const seeds = [1, 2, 3].map(i => Buffer.alloc(32, i))
+const publicKeys = seeds.map(seed => Buffer.from(ed25519.getPublicKey(seed)))
+const multisig: MultisigMetadata = { version: 1, threshold: 2, publicKeys }
+
+function payment(sender: Uint8Array) {
+  return {
+    type: TransactionType.pay as const,
+    sender,
+    receiver: publicKeys[0],
+    amount: 7,
+    fee: 1000,
+    firstValid: 1,
+    lastValid: 1001,
+    genesisHash: Buffer.alloc(32, 2),
+  }
+}
+
+function signProgram(seed: Buffer, multisigKey?: Uint8Array) {
+  return ed25519.sign(getProgramSigningPayload(PROGRAM, multisigKey), seed)
+}
+
+function hex(value: Uint8Array) {
+  return Buffer.from(value).toString('hex')
+}
+
+describe('logic sig payloads', () => {
+  it('should compute the escrow address like algosdk', () => {
+    expect(logicSigAddress(PROGRAM)).toBe(ESCROW_ADDRESS)
+  })
+
+  it('should use the Program and MsigProgram prefixes', () => {
+    expect(getProgramSigningPayload(PROGRAM).toString('hex')).toBe(
+      Buffer.from('Program').toString('hex') + '068101'
+    )
+    const multisigKey = multisigPublicKey(multisig)
+    expect(getProgramSigningPayload(PROGRAM, multisigKey)).toEqual(
+      Buffer.concat([Buffer.from('MsigProgram'), multisigKey, PROGRAM])
+    )
+  })
+
+  it('should verify program signatures', () => {
+    const signature = signProgram(seeds[0])
+    expect(verifyProgramSignature(PROGRAM, signature, publicKeys[0])).toBe(true)
+    expect(verifyProgramSignature(PROGRAM, signature, publicKeys[1])).toBe(
+      false
+    )
+    expect(
+      verifyProgramSignature(
+        PROGRAM,
+        signature,
+        publicKeys[0],
+        multisigPublicKey(multisig)
+      )
+    ).toBe(false)
+  })
+
+  it('should reject empty programs', () => {
+    expect(() => createLogicSig(Buffer.alloc(0))).toThrow('empty program')
+  })
+})
+
+describe('logic sig transactions', () => {
+  it('should assemble escrow transactions', () => {
+    const lsig = createLogicSig(PROGRAM, ARGS)
+    const { blob, signedTransaction } = createLogicSigTransaction(
+      payment(logicSigPublicKey(PROGRAM)),
+      lsig
+    )
+    expect(hex(blob)).toBe(VECTORS.escrow)
+    expect(signedTransaction.authAddress).toBeUndefined()
+  })
+
+  it('should assemble delegated transactions, with sgnr when rekeyed', () => {
+    const lsig = appendLogicSigSignature(
+      createLogicSig(PROGRAM, ARGS),
+      publicKeys[0],
+      signProgram(seeds[0])
+    )
+    expect(
+      hex(createLogicSigTransaction(payment(publicKeys[0]), lsig).blob)
+    ).toBe(VECTORS.delegated)
+
+    const rekeyed = createLogicSigTransaction(
+      payment(publicKeys[1]),
+      lsig,
+      publicKeys[0]
+    )
+    expect(hex(rekeyed.blob)).toBe(VECTORS.delegatedRekeyed)
+    expect(rekeyed.signedTransaction.authAddress).toEqual(publicKeys[0])
+
+    expect(() =>
+      createLogicSigTransaction(payment(publicKeys[1]), lsig)
+    ).toThrow('signature does not match the signer')
+  })
+
+  it('should merge multisig delegations and check the threshold', () => {
+    const multisigKey = multisigPublicKey(multisig)
+    const unsigned = createLogicSig(PROGRAM)
+    const first = appendLogicSigMultisigSignature(
+      unsigned,
+      multisig,
+      publicKeys[0],
+      signProgram(seeds[0], multisigKey)
+    )
+    const third = appendLogicSigMultisigSignature(
+      unsigned,
+      multisig,
+      publicKeys[2],
+      signProgram(seeds[2], multisigKey)
+    )
+
+    expect(() =>
+      createLogicSigTransaction(payment(multisigKey), first)
+    ).toThrow('Multisig threshold not met: 1 of 2 signatures')
+
+    const merged = mergeLogicSigs([first, third])
+    const { blob } = createLogicSigTransaction(payment(multisigKey), merged)
+    expect(hex(blob)).toBe(VECTORS.multisig)
+  })
+
+  it('should refuse mismatching or invalid delegations', () => {
+    const multisigKey = multisigPublicKey(multisig)
+    expect(() =>
+      appendLogicSigMultisigSignature(
+        createLogicSig(PROGRAM),
+        multisig,
+        publicKeys[0],
+        signProgram(seeds[0])
+      )
+    ).toThrow('Invalid program signature')
+
+    const first = appendLogicSigMultisigSignature(
+      createLogicSig(PROGRAM),
+      multisig,
+      publicKeys[0],
+      signProgram(seeds[0], multisigKey)
+    )
+    const otherArgs = { ...first, args: ARGS }
+    expect(() => mergeLogicSigs([first, otherArgs])).toThrow(
+      'Cannot merge: arguments of 1 differ'
+    )
+  })
+
+  it('should round-trip lsig SignedTxns', () => {
+    for (const vector of Object.values(VECTORS)) {
+      const decoded = decodeSignedTransaction(Buffer.from(vector, 'hex'))
+      expect(hex(encodeSignedTransaction(decoded))).toBe(vector)
+    }
+  })
+})
+
+describe('AlgorandApp.signLogicSig', () => {
+  const mnemonic =
+    'equip will roof matter pink blind book anxiety banner elbow sun young'
+  const experimental = { programSigning: true }
+  let transport: EmulatorTransport
+  let app: AlgorandApp
+
+  beforeEach(() => {
+    transport = new EmulatorTransport({
+      mnemonic,
+      version: { major: 3, minor: 0, patch: 0 },
+    })
+    app = new AlgorandApp(transport, { experimental })
+  })
+
+  it('should delegate a program from the device account', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(1)
+    const { logicSig } = await app.signLogicSig(PROGRAM, {
+      accountId: 1,
+      args: ARGS,
+    })
+    expect(logicSig.args).toEqual(ARGS)
+
+    const { signedTransaction } = createLogicSigTransaction(
+      encodeTransaction(payment(publicKey)),
+      logicSig
+    )
+    expect(signedTransaction.logicSig?.signature).toBeDefined()
+  })
+
+  it('should delegate as a multisig subkey', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(0)
+    const deviceMultisig = {
+      ...multisig,
+      publicKeys: [publicKey, publicKeys[1], publicKeys[2]],
+    }
+    const multisigKey = multisigPublicKey(deviceMultisig)
+    const { logicSig } = await app.signLogicSig(PROGRAM, {
+      multisig: deviceMultisig,
+    })
+    const other = appendLogicSigMultisigSignature(
+      createLogicSig(PROGRAM),
+      deviceMultisig,
+      publicKeys[1],
+      signProgram(seeds[1], multisigKey)
+    )
+    const merged = mergeLogicSigs([logicSig, other])
+    const { signedTransaction } = createLogicSigTransaction(
+      payment(multisigKey),
+      merged
+    )
+    expect(signedTransaction.authAddress).toBeUndefined()
+  })
+
+  it('should not send program signing APDUs unless enabled', async () => {
+    const exchanged: number[] = []
+    const exchange = transport.exchange.bind(transport)
+    transport.exchange = apdu => {
+      exchanged.push(apdu[1])
+      return exchange(apdu)
+    }
+    const disabled = new AlgorandApp(transport)
+
+    const error = await disabled.signProgram(PROGRAM).catch(e => e)
+    expect(error).toBeInstanceOf(ExperimentalFeatureError)
+    expect(error.capability).toBe('programSigning')
+    await expect(disabled.signLogicSig(PROGRAM)).rejects.toThrow(
+      ExperimentalFeatureError
+    )
+    expect(exchanged).toEqual([])
+    expect((await disabled.getCapabilities()).programSigning).toBe(false)
+    expect((await app.getCapabilities()).programSigning).toBe(true)
+  })
+
+  it('should fail clearly on app versions without program signing', async () => {
+    const legacy = new AlgorandApp(
+      new EmulatorTransport({
+        mnemonic,
+        version: { major: 2, minor: 1, patch: 0 },
+      }),
+      { experimental }
+    )
+    const error = await legacy.signProgram(PROGRAM).catch(e => e)
+    expect(error).toBeInstanceOf(UnsupportedVersionError)
+    expect(error.message).toBe(
+      'Program signing requires Algorand app 3.0.0 or later (installed: 2.1.0)'
+    )
+    await expect(legacy.signLogicSig(PROGRAM)).rejects.toThrow(
+      UnsupportedVersionError
+    )
+  })
+})
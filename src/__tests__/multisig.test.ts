@@ -0,0 +1,257 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { ed25519 } from '@noble/curves/ed25519'
+import { AlgorandApp } from '../app'
+import { EmulatorTransport } from '../emulator'
+import {
+  appendMultisigSignature,
+  countMultisigSignatures,
+  createMultisigSignature,
+  createMultisigTransaction,
+  finalizeMultisigTransaction,
+  mergeMultisigTransactions,
+  multisigAddress,
+  multisigMetadataOf,
+  multisigPreimage,
+  multisigPublicKey,
+} from '../multisig'
+import {
+  decodeSignedTransaction,
+  decodeTransaction,
+  encodeSignedTransaction,
+  encodeTransaction,
+} from '../transaction'
+import { MultisigMetadata } from '../types'
+
+// Reference encodings produced by algosdk for a 2-of-3 multisig whose
+// subkeys are derived from the seeds 0x01.., 0x02.. and 0x03..
+const MULTISIG_ADDRESS =
+  'MN72UOZMBF2UWDIWE3YK4IFLD3OSIWNB63WQAJFBZEKJL3GI5TAH2T6D7A'
+const VECTORS = {
+  txn: '88a3616d74cd03e8a3666565cd03e8a2667601a26768c4200202020202020202020202020202020202020202020202020202020202020202a26c76cd03e9a3726376c4208a88e3dd7409f195fd52db2d3cba5d72ca6709bf1d94121bf3748801b40f6f5ca3736e64c420637faa3b2c09754b0d1626f0ae20ab1edd2459a1f6ed0024a1c91495ecc8ecc0a474797065a3706179',
+  signed1:
+    '82a46d73696783a67375627369679382a2706bc4208a88e3dd7409f195fd52db2d3cba5d72ca6709bf1d94121bf3748801b40f6f5ca173c440151cc6b1b2594a5a3e337e161bf58af1eaba304dc2a7dac48a7e4e4002d282a125e38a351fa9897b998b3457b80ff0bda0233026e75862a3a7769bcd29522d0381a2706bc4208139770ea87d175f56a35466c34c7ecccb8d8a91b4ee37a25df60f5b8fc9b39481a2706bc420ed4928c628d1c2c6eae90338905995612959273a5c63f93636c14614ac8737d1a374687202a17601a374786e88a3616d74cd03e8a3666565cd03e8a2667601a26768c4200202020202020202020202020202020202020202020202020202020202020202a26c76cd03e9a3726376c4208a88e3dd7409f195fd52db2d3cba5d72ca6709bf1d94121bf3748801b40f6f5ca3736e64c420637faa3b2c09754b0d1626f0ae20ab1edd2459a1f6ed0024a1c91495ecc8ecc0a474797065a3706179',
+  merged:
+    '82a46d73696783a67375627369679382a2706bc4208a88e3dd7409f195fd52db2d3cba5d72ca6709bf1d94121bf3748801b40f6f5ca173c440151cc6b1b2594a5a3e337e161bf58af1eaba304dc2a7dac48a7e4e4002d282a125e38a351fa9897b998b3457b80ff0bda0233026e75862a3a7769bcd29522d0381a2706bc4208139770ea87d175f56a35466c34c7ecccb8d8a91b4ee37a25df60f5b8fc9b39482a2706bc420ed4928c628d1c2c6eae90338905995612959273a5c63f93636c14614ac8737d1a173c440b408f326200ff5fdeae645c8ac086d4d639a931df62b3fda804489fb4e82f01c4b05936b4b663f8e1ec3231b91a4d4a3a236e647e29bf0bb426cdf74cde41303a374687202a17601a374786e88a3616d74cd03e8a3666565cd03e8a2667601a26768c4200202020202020202020202020202020202020202020202020202020202020202a26c76cd03e9a3726376c4208a88e3dd7409f195fd52db2d3cba5d72ca6709bf1d94121bf3748801b40f6f5ca3736e64c420637faa3b2c09754b0d1626f0ae20ab1edd2459a1f6ed0024a1c91495ecc8ecc0a474797065a3706179',
+  rekeyed:
+    '83a46d73696783a67375627369679382a2706bc4208a88e3dd7409f195fd52db2d3cba5d72ca6709bf1d94121bf3748801b40f6f5ca173c440fa303dbe45f03ca60aa9a20334471dd093e4994d6b99d13882f0ecf38cd66003d06b3399b09598477c7f5118dc95b52d2f36dcf7b1012c39ef39455173e6f60a81a2706bc4208139770ea87d175f56a35466c34c7ecccb8d8a91b4ee37a25df60f5b8fc9b39481a2706bc420ed4928c628d1c2c6eae90338905995612959273a5c63f93636c14614ac8737d1a374687202a17601a473676e72c420637faa3b2c09754b0d1626f0ae20ab1edd2459a1f6ed0024a1c91495ecc8ecc0a374786e88a3616d74cd03e8a3666565cd03e8a2667601a26768c4200202020202020202020202020202020202020202020202020202020202020202a26c76cd03e9a3726376c4208a88e3dd7409f195fd52db2d3cba5d72ca6709bf1d94121bf3748801b40f6f5ca3736e64c4208139770ea87d175f56a35466c34c7ecccb8d8a91b4ee37a25df60f5b8fc9b394a474797065a3706179',
+}
+
+const seeds = [1, 2, 3].map(i => Buffer.alloc(32, i))
+const publicKeys = seeds.map(seed => Buffer.from(ed25519.getPublicKey(seed)))
+const params: MultisigMetadata = { version: 1, threshold: 2, publicKeys }
+
+function signWith(seed: Buffer, blob: Uint8Array) {
+  return Buffer.from(
+    ed25519.sign(Buffer.concat([Buffer.from('TX'), blob]), seed)
+  )
+}
+
+function hex(value: Uint8Array) {
+  return Buffer.from(value).toString('hex')
+}
+
+describe('multisig address', () => {
+  it('should match algosdk', () => {
+    expect(multisigAddress(params)).toBe(MULTISIG_ADDRESS)
+  })
+
+  it('should build the tagged preimage', () => {
+    const preimage = multisigPreimage(params)
+    expect(preimage.subarray(0, 12).toString()).toBe('MultisigAddr')
+    expect([...preimage.subarray(12, 14)]).toEqual([1, 2])
+    expect(preimage.length).toBe(14 + 3 * 32)
+  })
+
+  it('should depend on the order of the keys', () => {
+    const reordered = { ...params, publicKeys: [...publicKeys].reverse() }
+    expect(multisigAddress(reordered)).not.toBe(MULTISIG_ADDRESS)
+  })
+
+  it('should reject invalid parameters', () => {
+    expect(() => multisigAddress({ ...params, version: 2 })).toThrow(
+      'Unsupported multisig version: 2'
+    )
+    expect(() => multisigAddress({ ...params, threshold: 0 })).toThrow(
+      'Invalid multisig threshold: 0 of 3'
+    )
+    expect(() => multisigAddress({ ...params, threshold: 4 })).toThrow(
+      'Invalid multisig threshold: 4 of 3'
+    )
+    expect(() => multisigAddress({ ...params, publicKeys: [] })).toThrow(
+      'expected 1 to 255 public keys'
+    )
+    expect(() =>
+      multisigAddress({
+        ...params,
+        publicKeys: [Buffer.alloc(31), ...publicKeys],
+      })
+    ).toThrow('Invalid multisig public key 0')
+  })
+})
+
+describe('multisig transactions', () => {
+  const txn = decodeTransaction(Buffer.from(VECTORS.txn, 'hex'))
+  const blob = encodeTransaction(txn)
+  const unsigned = createMultisigTransaction(txn, params)
+
+  it('should sign and encode like algosdk', () => {
+    const signed = appendMultisigSignature(
+      unsigned,
+      publicKeys[0],
+      signWith(seeds[0], blob)
+    )
+    expect(signed.authAddress).toBeUndefined()
+    expect(hex(encodeSignedTransaction(signed))).toBe(VECTORS.signed1)
+  })
+
+  it('should round-trip signed transactions', () => {
+    for (const vector of [VECTORS.signed1, VECTORS.merged, VECTORS.rekeyed]) {
+      const decoded = decodeSignedTransaction(Buffer.from(vector, 'hex'))
+      expect(hex(encodeSignedTransaction(decoded))).toBe(vector)
+    }
+  })
+
+  it('should set the authorizing address for rekeyed senders', () => {
+    const rekeyed = decodeSignedTransaction(Buffer.from(VECTORS.rekeyed, 'hex'))
+    const created = createMultisigTransaction(rekeyed.transaction, params)
+    expect(created.authAddress).toEqual(multisigPublicKey(params))
+    expect(multisigMetadataOf(createMultisigSignature(params))).toEqual(params)
+
+    const signed = appendMultisigSignature(
+      created,
+      publicKeys[0],
+      signWith(seeds[0], encodeTransaction(rekeyed.transaction))
+    )
+    expect(hex(encodeSignedTransaction(signed))).toBe(VECTORS.rekeyed)
+  })
+
+  it('should merge partial signatures into the final transaction', () => {
+    const first = appendMultisigSignature(
+      unsigned,
+      publicKeys[0],
+      signWith(seeds[0], blob)
+    )
+    const third = appendMultisigSignature(
+      unsigned,
+      publicKeys[2],
+      signWith(seeds[2], blob)
+    )
+
+    expect(() => finalizeMultisigTransaction(first)).toThrow(
+      'Multisig threshold not met: 1 of 2 signatures'
+    )
+
+    const merged = mergeMultisigTransactions([
+      encodeSignedTransaction(first),
+      third,
+    ])
+    expect(countMultisigSignatures(merged)).toBe(2)
+    expect(hex(finalizeMultisigTransaction(merged))).toBe(VECTORS.merged)
+  })
+
+  it('should refuse signatures that do not belong', () => {
+    expect(() =>
+      appendMultisigSignature(
+        unsigned,
+        Buffer.alloc(32, 9),
+        signWith(seeds[0], blob)
+      )
+    ).toThrow('is not part of the multisig')
+    expect(() =>
+      appendMultisigSignature(unsigned, publicKeys[1], signWith(seeds[0], blob))
+    ).toThrow('Invalid signature from')
+  })
+
+  it('should refuse to merge mismatching parts', () => {
+    const other = createMultisigTransaction({ ...txn, fee: 2000 }, params)
+    expect(() => mergeMultisigTransactions([unsigned, other])).toThrow(
+      'Cannot merge: transaction 1 differs'
+    )
+
+    const twoOfTwo = createMultisigTransaction(txn, {
+      ...params,
+      publicKeys: publicKeys.slice(0, 2),
+    })
+    expect(() => mergeMultisigTransactions([unsigned, twoOfTwo])).toThrow(
+      'Cannot merge: multisig parameters of 1 differ'
+    )
+
+    const forged = {
+      ...unsigned,
+      multisig: {
+        ...params,
+        subsignatures: publicKeys.map((publicKey, i) => ({
+          publicKey,
+          signature: i === 0 ? Buffer.alloc(64, 1) : undefined,
+        })),
+      },
+    }
+    const signed = appendMultisigSignature(
+      unsigned,
+      publicKeys[0],
+      signWith(seeds[0], blob)
+    )
+    expect(() => mergeMultisigTransactions([signed, forged])).toThrow(
+      'Cannot merge: conflicting signatures for subkey 0 in 1'
+    )
+    expect(() => finalizeMultisigTransaction(forged)).toThrow(
+      'Invalid multisig: 1 bad signature(s)'
+    )
+  })
+
+  it('should reject unknown signed transaction fields', () => {
+    const blob = Buffer.from('82a3666f6fa0a374786e80', 'hex')
+    expect(() => decodeSignedTransaction(blob)).toThrow(
+      'Invalid signed transaction: unexpected field(s) foo'
+    )
+  })
+})
+
+describe('AlgorandApp.signMultisig', () => {
+  const mnemonic =
+    'equip will roof matter pink blind book anxiety banner elbow sun young'
+  let app: AlgorandApp
+
+  beforeEach(() => {
+    app = new AlgorandApp(new EmulatorTransport({ mnemonic }))
+  })
+
+  it('should sign with the device subkey and merge with the others', async () => {
+    const { publicKey } = await app.getAddressAndPubKey(0)
+    const deviceParams = {
+      ...params,
+      publicKeys: [publicKeys[0], publicKey, publicKeys[2]],
+    }
+    const txn = {
+      ...decodeTransaction(Buffer.from(VECTORS.txn, 'hex')),
+      sender: multisigPublicKey(deviceParams),
+    }
+
+    const response = await app.signMultisig(txn, deviceParams)
+    expect(response.publicKey).toEqual(publicKey)
+    expect(countMultisigSignatures(response.signedTransaction)).toBe(1)
+
+    const other = appendMultisigSignature(
+      createMultisigTransaction(txn, deviceParams),
+      publicKeys[2],
+      signWith(seeds[2], encodeTransaction(txn))
+    )
+    const merged = mergeMultisigTransactions([
+      response.signedTransaction,
+      other,
+    ])
+    const final = decodeSignedTransaction(finalizeMultisigTransaction(merged))
+    expect(final.multisig?.subsignatures[1].signature).toEqual(
+      response.signature
+    )
+  })
+
+  it('should refuse when the device key is not a subkey', async () => {
+    await expect(
+      app.signMultisig(
+        decodeTransaction(Buffer.from(VECTORS.txn, 'hex')),
+        params
+      )
+    ).rejects.toThrow('is not a subkey of the multisig')
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatDerivationPath,
+  getPathAccountId,
+  HARDENED,
+  parseBip32Path,
+  serializeBip32Path,
+  toAlgorandPath,
+} from '../path'
+
+const ACCOUNT_2 = [44 + HARDENED, 283 + HARDENED, 2 + HARDENED, 0, 0]
+
+describe('toAlgorandPath', () => {
+  it('should accept every form of the same path', () => {
+    expect(toAlgorandPath(2)).toEqual(ACCOUNT_2)
+    expect(toAlgorandPath("m/44'/283'/2'/0/0")).toEqual(ACCOUNT_2)
+    expect(toAlgorandPath('m/44h/283h/2h/0/0')).toEqual(ACCOUNT_2)
+    expect(toAlgorandPath(ACCOUNT_2)).toEqual(ACCOUNT_2)
+    expect(toAlgorandPath({ account: 2 })).toEqual(ACCOUNT_2)
+  })
+
+  it('should keep change and index', () => {
+    expect(formatDerivationPath({ account: 1, change: 1, index: 7 })).toBe(
+      "m/44'/283'/1'/1/7"
+    )
+    expect(formatDerivationPath("m/44'/283'/0'/0'/3'")).toBe(
+      "m/44'/283'/0'/0'/3'"
+    )
+  })
+
+  it('should reject paths of other coins or shapes', () => {
+    expect(() => toAlgorandPath("m/44'/60'/0'/0/0")).toThrow(
+      "Invalid path m/44'/60'/0'/0/0: expected m/44'/283'/<account>'/<change>/<index>"
+    )
+    expect(() => toAlgorandPath("m/44'/283'/0'/0")).toThrow('expected')
+    expect(() => toAlgorandPath("m/44'/283'/0/0/0")).toThrow('expected')
+    // Indexes must carry the hardened bit themselves
+    expect(() => toAlgorandPath([44, 283, 0, 0, 0])).toThrow('expected')
+  })
+
+  it('should reject malformed components', () => {
+    expect(() => toAlgorandPath("m/44'/283'/x'/0/0")).toThrow(
+      'bad component "x\'"'
+    )
+    expect(() => toAlgorandPath(-1)).toThrow('not an index')
+    expect(() => toAlgorandPath({ account: 0, index: 1.5 })).toThrow(
+      'not an index'
+    )
+    expect(() => toAlgorandPath([44 + HARDENED, 2 ** 32])).toThrow('bad index')
+    expect(() => toAlgorandPath({} as never)).toThrow('unsupported type')
+  })
+})
+
+describe('getPathAccountId', () => {
+  it('should return the account of account paths only', () => {
+    expect(getPathAccountId("m/44'/283'/5'/0/0")).toBe(5)
+    expect(getPathAccountId({ account: 0 })).toBe(0)
+    expect(getPathAccountId({ account: 0, index: 1 })).toBeUndefined()
+  })
+})
+
+describe('serializeBip32Path', () => {
+  it('should write little-endian words at any depth', () => {
+    expect(serializeBip32Path(parseBip32Path("m/44'/1")).toString('hex')).toBe(
+      '2c00008001000000'
+    )
+  })
+
+  it('should reject empty or too deep paths', () => {
+    expect(() => parseBip32Path('m')).toThrow('expected m/<index>')
+    expect(() => parseBip32Path(`m${'/0'.repeat(11)}`)).toThrow(
+      'deeper than 10 levels'
+    )
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import { formatAmount, previewTransaction } from '../preview'
+import { encodeTransaction } from '../transaction'
+import { OnApplicationComplete, TransactionType } from '../types'
+
+const pk = (n: number) => new Uint8Array(32).fill(n)
+
+const ADDR_1 = 'AEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEA5RCDXMI'
+const ADDR_2 = 'AIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBAEAQCAIBMXPWWNQ'
+const ADDR_3 = 'AMBQGAYDAMBQGAYDAMBQGAYDAMBQGAYDAMBQGAYDAMBQGAYDAMB5DBBASI'
+
+const MAINNET_GENESIS_HASH = Buffer.from(
+  'wGHE2Pwdvd7S12BL5FaOP20EGYesN73ktiC1qzkkit8=',
+  'base64'
+)
+
+const header = {
+  sender: pk(1),
+  fee: 1000,
+  firstValid: 1000,
+  lastValid: 2000,
+  genesisId: 'mainnet-v1.0',
+  genesisHash: MAINNET_GENESIS_HASH,
+}
+
+describe('formatAmount', () => {
+  it('should scale base units by the number of decimals', () => {
+    expect(formatAmount(1234567, 6)).toBe('1.234567')
+    expect(formatAmount(1000, 6)).toBe('0.001')
+    expect(formatAmount(5000000, 6)).toBe('5')
+    expect(formatAmount(BigInt('18446744073709551615'), 0)).toBe(
+      '18446744073709551615'
+    )
+  })
+})
+
+describe('previewTransaction', () => {
+  it('should list payment screens in device order', () => {
+    const blob = encodeTransaction({
+      ...header,
+      type: TransactionType.pay,
+      receiver: pk(2),
+      amount: 1234567,
+      closeRemainderTo: pk(3),
+      rekeyTo: pk(3),
+      note: Buffer.from('hello'),
+    })
+
+    const { transaction, screens } = previewTransaction(blob)
+    expect(transaction.type).toBe(TransactionType.pay)
+    expect(screens).toEqual([
+      { title: 'Txn type', value: 'Payment' },
+      { title: 'Sender', value: ADDR_1 },
+      { title: 'Rekey to', value: ADDR_3 },
+      { title: 'Fee', value: '0.001 ALGO' },
+      { title: 'Note', value: '5 bytes' },
+      { title: 'Receiver', value: ADDR_2 },
+      { title: 'Amount', value: '1.234567 ALGO' },
+      { title: 'Close to', value: ADDR_3 },
+    ])
+  })
+
+  it('should show genesis fields outside mainnet', () => {
+    const blob = encodeTransaction({
+      ...header,
+      genesisId: 'testnet-v1.0',
+      genesisHash: new Uint8Array(32).fill(0xaa),
+      group: new Uint8Array(32).fill(0xbb),
+      type: TransactionType.pay,
+      receiver: pk(2),
+    })
+
+    const titles = previewTransaction(blob).screens.map(s => s.title)
+    expect(titles).toEqual([
+      'Txn type',
+      'Sender',
+      'Fee',
+      'Genesis ID',
+      'Genesis hash',
+      'Group ID',
+      'Receiver',
+      'Amount',
+    ])
+  })
+
+  it('should scale asset amounts for known assets', () => {
+    const blob = encodeTransaction({
+      ...header,
+      type: TransactionType.axfer,
+      assetIndex: 31566704,
+      amount: 2500000,
+      receiver: pk(2),
+    })
+
+    expect(previewTransaction(blob).screens.slice(3)).toEqual([
+      { title: 'Asset ID', value: '31566704' },
+      { title: 'Amount', value: '2500000' },
+      { title: 'Destination', value: ADDR_2 },
+    ])
+
+    const known = previewTransaction(blob, {
+      assets: { 31566704: { decimals: 6, unitName: 'USDC' } },
+    })
+    expect(known.screens[4]).toEqual({ title: 'Amount', value: '2.5 USDC' })
+  })
+
+  it('should list application call screens', () => {
+    const blob = encodeTransaction({
+      ...header,
+      type: TransactionType.appl,
+      appIndex: 123,
+      onComplete: OnApplicationComplete.OptIn,
+      appArgs: [Buffer.from('opt'), new Uint8Array([0xff])],
+      accounts: [pk(2)],
+      foreignAssets: [789],
+      approvalProgram: new Uint8Array([6, 0x81, 1]),
+    })
+
+    expect(previewTransaction(blob).screens.slice(3)).toEqual([
+      { title: 'App ID', value: '123' },
+      { title: 'On completion', value: 'OptIn' },
+      { title: 'Foreign asset 0', value: '789' },
+      { title: 'Account 0', value: ADDR_2 },
+      { title: 'App arg 0', value: 'opt' },
+      { title: 'App arg 1', value: '/w==' },
+      { title: 'Approve', value: '3 bytes' },
+    ])
+  })
+
+  it('should list key registration screens', () => {
+    const blob = encodeTransaction({
+      ...header,
+      type: TransactionType.keyreg,
+      nonParticipation: true,
+    })
+
+    expect(previewTransaction(blob).screens.slice(3)).toEqual([
+      { title: 'Participating', value: 'No' },
+    ])
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import { ExchangeQueue, OperationCancelledError } from '../index'
+
+function deferred() {
+  let resolve!: () => void
+  const promise = new Promise<void>(r => (resolve = r))
+  return { promise, resolve }
+}
+
+describe('ExchangeQueue', () => {
+  it('should run one operation at a time, in call order', async () => {
+    const queue = new ExchangeQueue()
+    const log: string[] = []
+    const gate = deferred()
+
+    const first = queue.run(async () => {
+      log.push('first:start')
+      await gate.promise
+      log.push('first:end')
+    })
+    const second = queue.run(async () => {
+      log.push('second')
+    })
+
+    await Promise.resolve()
+    expect(log).toEqual(['first:start'])
+    gate.resolve()
+    await Promise.all([first, second])
+    expect(log).toEqual(['first:start', 'first:end', 'second'])
+  })
+
+  it('should run higher priorities first among waiting operations', async () => {
+    const queue = new ExchangeQueue()
+    const log: string[] = []
+    const gate = deferred()
+
+    const runs = [
+      queue.run(() => gate.promise, { label: 'busy' }),
+      queue.run(async () => log.push('low'), { label: 'low' }),
+      queue.run(async () => log.push('high'), { label: 'high', priority: 1 }),
+      queue.run(async () => log.push('low2'), { label: 'low2' }),
+    ]
+    expect(queue.active?.label).toBe('busy')
+    expect(queue.pending.map(({ label }) => label)).toEqual([
+      'high',
+      'low',
+      'low2',
+    ])
+
+    gate.resolve()
+    await Promise.all(runs)
+    expect(log).toEqual(['high', 'low', 'low2'])
+    expect(queue.active).toBeUndefined()
+    expect(queue.size).toBe(0)
+  })
+
+  it('should keep the slot until held exchanges settle', async () => {
+    const queue = new ExchangeQueue()
+    const log: string[] = []
+    const exchange = deferred()
+
+    const first = queue.run(async () => {
+      queue.hold(exchange.promise)
+      throw new Error('cancelled')
+    })
+    const second = queue.run(async () => log.push('second'))
+
+    await expect(first).rejects.toThrow('cancelled')
+    expect(queue.active?.id).toBe(1)
+    expect(log).toEqual([])
+
+    exchange.resolve()
+    await second
+    expect(log).toEqual(['second'])
+  })
+
+  it('should drop a waiting operation when its signal aborts', async () => {
+    const queue = new ExchangeQueue()
+    const gate = deferred()
+    const controller = new AbortController()
+    let ran = false
+
+    const busy = queue.run(() => gate.promise)
+    const waiting = queue.run(async () => (ran = true), {
+      signal: controller.signal,
+    })
+    controller.abort()
+
+    await expect(waiting).rejects.toBeInstanceOf(OperationCancelledError)
+    expect(queue.size).toBe(0)
+    gate.resolve()
+    await busy
+    expect(ran).toBe(false)
+  })
+
+  it('should keep going after a failure and notify listeners', async () => {
+    const queue = new ExchangeQueue()
+    const sizes: number[] = []
+    const unsubscribe = queue.onChange(q => sizes.push(q.size))
+
+    const failing = queue.run(async () => {
+      throw new Error('boom')
+    })
+    const next = queue.run(async () => 'ok')
+    await expect(failing).rejects.toThrow('boom')
+    await expect(next).resolves.toBe('ok')
+    expect(sizes.length).toBeGreaterThan(0)
+
+    unsubscribe()
+    const count = sizes.length
+    await queue.run(async () => {})
+    expect(sizes).toHaveLength(count)
+  })
+})
@@ -0,0 +1,179 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { describe, expect, it } from 'vitest'
+import {
+  AlgorandApp,
+  ApduTranscript,
+  buildSignDataRequest,
+  DeviceTransportError,
+  encodeAddress,
+  encodeTransaction,
+  ReplayMismatchError,
+  ReplayTransport,
+  toAlgorandPath,
+  TransactionType,
+  verifySignDataSignature,
+  verifyTransactionSignature,
+} from '../index'
+import { EmulatorTransport } from '../testing'
+
+// The fixtures were recorded with TracingTransport over EmulatorTransport with
+// this mnemonic, not on a device: they are not protocol ground truth, see
+// fixtures/emulator/README.md
+const MNEMONIC =
+  'equip will roof matter pink blind book anxiety banner elbow sun young'
+const device = new EmulatorTransport({ mnemonic: MNEMONIC })
+
+const TXN = encodeTransaction({
+  type: TransactionType.pay,
+  sender: Buffer.alloc(32, 1),
+  receiver: Buffer.alloc(32, 2),
+  amount: 1000,
+  fee: 1000,
+  firstValid: 1,
+  lastValid: 1001,
+  genesisHash: Buffer.alloc(32, 3),
+  note: Buffer.alloc(300, 4),
+})
+
+function transcript(name: string): ApduTranscript {
+  return JSON.parse(
+    readFileSync(
+      join(__dirname, 'fixtures', 'emulator', `${name}.json`),
+      'utf8'
+    )
+  )
+}
+
+function replay(name: string) {
+  const transport = new ReplayTransport(transcript(name))
+  return { transport, app: new AlgorandApp(transport) }
+}
+
+describe('ReplayTransport', () => {
+  it('should replay getAddressAndPubKey', async () => {
+    const { transport, app } = replay('get-address')
+    const publicKey = device.getPublicKey(toAlgorandPath(1))
+
+    const result = await app.getAddressAndPubKey(1)
+
+    expect(result.publicKey).toEqual(publicKey)
+    expect(result.address.toString()).toBe(encodeAddress(publicKey))
+    transport.assertComplete()
+  })
+
+  it('should replay a multi-chunk sign', async () => {
+    const { transport, app } = replay('sign')
+
+    const { signature } = await app.sign(1, TXN)
+
+    expect(
+      verifyTransactionSignature(
+        TXN,
+        signature,
+        device.getPublicKey(toAlgorandPath(1))
+      )
+    ).toBe(true)
+    transport.assertComplete()
+  })
+
+  it('should replay signData', async () => {
+    const { transport, app } = replay('sign-data')
+    const { signingData, metadata } = buildSignDataRequest({
+      data: { type: 'arc60.create', challenge: 'x' },
+      domain: 'arc60.io',
+      signer: device.getPublicKey(toAlgorandPath(0)),
+      requestId: '00112233',
+    })
+
+    const response = await app.signData(signingData, metadata)
+
+    expect(verifySignDataSignature(response, metadata)).toBe(true)
+    transport.assertComplete()
+  })
+
+  it('should fail loudly on a different APDU', async () => {
+    const { transport, app } = replay('sign')
+    const other = Buffer.from(TXN)
+    other[other.length - 1] ^= 1
+
+    const error = await app.sign(1, other).catch(e => e)
+
+    expect(error).toBeInstanceOf(DeviceTransportError)
+    expect(error.cause).toBeInstanceOf(ReplayMismatchError)
+    expect(error.cause.index).toBe(1)
+    expect(error.message).toContain(
+      'Replay failed at APDU #1: 80 08 80 00 (209 bytes) differs from the transcript at data byte 208'
+    )
+    // Later calls and the final check keep failing
+    await expect(app.getAddressAndPubKey(1)).rejects.toThrow('APDU #1')
+    expect(() => transport.assertComplete()).toThrow(ReplayMismatchError)
+  })
+
+  it('should report headers, extra and missing APDUs', async () => {
+    const { transport, app } = replay('get-address')
+    await app.getAddressAndPubKey(1)
+    await expect(app.getAddressAndPubKey(0)).rejects.toThrow(
+      'Replay failed at APDU #1: unexpected 80 04 00 00 (4 bytes) after the end of the transcript'
+    )
+    expect(() => transport.assertComplete()).toThrow(ReplayMismatchError)
+
+    const second = replay('sign')
+    await expect(second.app.sign(0, TXN)).rejects.toThrow(
+      'expected 80 08 01 80 (250 bytes), got 80 08 00 80 (250 bytes)'
+    )
+
+    const third = replay('sign-data')
+    await third.app.getVersion()
+    expect(() => third.transport.assertComplete()).toThrow(
+      'Replay failed at APDU #1: expected 80 10 00 00 (20 bytes), but no more APDUs were sent'
+    )
+  })
+
+  it('should replay redacted entries and transport failures', async () => {
+    const [entry] = transcript('get-address').entries
+    const transport = new ReplayTransport([
+      {
+        ...entry,
+        index: 0,
+        ins: 0x00,
+        dataLength: 0,
+        data: undefined,
+        redacted: true,
+        response: '000201000033000004',
+        responseLength: 9,
+      },
+      {
+        ...entry,
+        index: 1,
+        statusWord: undefined,
+        error: 'Device disconnected',
+      },
+    ])
+    const app = new AlgorandApp(transport)
+
+    expect((await app.getVersion()).major).toBe(2)
+    await expect(app.getAddressAndPubKey(1)).rejects.toThrow(
+      'Device disconnected'
+    )
+    transport.assertComplete()
+  })
+
+  it('should reject transcripts it cannot replay', () => {
+    const { entries } = transcript('sign')
+    expect(
+      () =>
+        new ReplayTransport([
+          entries[0],
+          { ...entries[1], response: undefined, redacted: true },
+        ])
+    ).toThrow('Transcript entry 1 has no response to replay')
+    expect(
+      () =>
+        new ReplayTransport({
+          ...transcript('sign'),
+          version: 2,
+        } as unknown as ApduTranscript)
+    ).toThrow('Unsupported transcript version: 2')
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest'
+import Transport from '@ledgerhq/hw-transport'
+import {
+  AlgorandApp,
+  ApduTraceEntry,
+  DeviceTransportError,
+  encodeTransaction,
+  TracingTransport,
+  TransactionType,
+  UserRejectedError,
+} from '../index'
+import { EmulatorTransport } from '../testing'
+
+const MNEMONIC =
+  'equip will roof matter pink blind book anxiety banner elbow sun young'
+
+function emulator(approve = true) {
+  return new EmulatorTransport({ mnemonic: MNEMONIC, approve: () => approve })
+}
+
+const TXN = encodeTransaction({
+  type: TransactionType.pay,
+  sender: Buffer.alloc(32, 1),
+  receiver: Buffer.alloc(32, 2),
+  amount: 1000,
+  fee: 1000,
+  firstValid: 1,
+  lastValid: 1001,
+  genesisHash: Buffer.alloc(32, 3),
+  note: Buffer.alloc(200, 4),
+})
+
+class BrokenTransport extends Transport {
+  async exchange(): Promise<Buffer> {
+    throw new Error('Device disconnected')
+  }
+}
+
+describe('TracingTransport', () => {
+  it('should record every exchange of a call', async () => {
+    const lines: string[] = []
+    const transport = new TracingTransport(emulator(), {
+      logger: line => lines.push(line),
+    })
+    const app = new AlgorandApp(transport)
+
+    const { publicKey } = await app.getAddressAndPubKey(0)
+    await app.sign(0, TXN)
+
+    const { entries, version, dropped } = transport.getTranscript()
+    expect(version).toBe(1)
+    expect(dropped).toBe(0)
+    expect(
+      entries.map(({ index, ins, p1, p2 }) => [index, ins, p1, p2])
+    ).toEqual([
+      [0, 0x04, 0x00, 0x00],
+      [1, 0x08, 0x00, 0x80],
+      [2, 0x08, 0x80, 0x00],
+    ])
+    expect(entries[0]).toMatchObject({
+      cla: 0x80,
+      dataLength: 4,
+      data: '00000000',
+      statusWord: 0x9000,
+      responseLength: 90,
+    })
+    expect(entries[0].response).toMatch(
+      new RegExp(`^${publicKey.toString('hex')}`)
+    )
+    expect(entries[1].dataLength + entries[2].dataLength).toBe(TXN.length)
+    expect(entries[2].responseLength).toBe(64)
+    expect(entries[2].latency).toBeGreaterThanOrEqual(0)
+    expect(lines).toHaveLength(3)
+    expect(lines[2]).toMatch(
+      /^#2 => 80 08 80 00 \(\d+ bytes\) <= 9000 \(64 bytes\) \d+ ms$/
+    )
+  })
+
+  it('should record failing status words', async () => {
+    const transport = new TracingTransport(emulator(false))
+    const app = new AlgorandApp(transport)
+
+    await expect(app.sign(0, TXN)).rejects.toBeInstanceOf(UserRejectedError)
+    expect(transport.entries).toHaveLength(2)
+    expect(transport.entries[1]).toMatchObject({
+      statusWord: 0x6986,
+      responseLength: 0,
+    })
+  })
+
+  it('should redact payloads but keep lengths and status words', async () => {
+    const transport = new TracingTransport(emulator(), {
+      redact: ({ ins }) => ins === 0x08,
+    })
+    const app = new AlgorandApp(transport)
+
+    await app.getAddressAndPubKey(0)
+    await app.sign(0, TXN)
+
+    const [address, first, last] = transport.entries
+    expect(address.redacted).toBeUndefined()
+    expect(address.data).toBe('00000000')
+    expect(first.redacted).toBe(true)
+    expect(last).toMatchObject({
+      redacted: true,
+      statusWord: 0x9000,
+      responseLength: 64,
+    })
+    expect(first.dataLength + last.dataLength).toBe(TXN.length)
+    expect(last.data).toBeUndefined()
+    expect(last.response).toBeUndefined()
+    expect(JSON.stringify(transport.getTranscript())).not.toContain(
+      TXN.toString('hex')
+    )
+  })
+
+  it('should record and rethrow transport failures', async () => {
+    const logged: ApduTraceEntry[] = []
+    const transport = new TracingTransport(new BrokenTransport(), {
+      logger: (_, entry) => logged.push(entry),
+    })
+    const app = new AlgorandApp(transport)
+
+    await expect(app.getVersion()).rejects.toBeInstanceOf(DeviceTransportError)
+    expect(logged).toHaveLength(1)
+    expect(logged[0]).toMatchObject({
+      ins: 0x00,
+      error: 'Device disconnected',
+    })
+    expect(logged[0].statusWord).toBeUndefined()
+  })
+
+  it('should keep the latest entries up to maxEntries', async () => {
+    const transport = new TracingTransport(emulator(), { maxEntries: 2 })
+    const app = new AlgorandApp(transport)
+
+    for (let i = 0; i < 3; i += 1) {
+      await app.getAddressAndPubKey(i)
+    }
+
+    const transcript = transport.getTranscript()
+    expect(transcript.dropped).toBe(1)
+    expect(transcript.entries.map(entry => entry.index)).toEqual([1, 2])
+
+    transport.clear()
+    await app.getVersion()
+    expect(transport.getTranscript()).toMatchObject({
+      dropped: 0,
+      entries: [{ index: 3 }],
+    })
+  })
+})
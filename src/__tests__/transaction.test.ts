@@ -0,0 +1,415 @@
+import { describe, expect, it } from 'vitest'
+import { ed25519 } from '@noble/curves/ed25519'
+import { decode, encode } from '../msgpack'
+import {
+  assignGroupId,
+  computeGroupId,
+  createSignedTransaction,
+  decodeSignedTransaction,
+  decodeTransaction,
+  encodeTransaction,
+  getTransactionId,
+  getTransactionRawId,
+} from '../transaction'
+import {
+  AlgorandTransaction,
+  OnApplicationComplete,
+  TransactionType,
+} from '../types'
+
+// Reference encodings produced by algosdk for the same transactions
+const VECTORS = {
+  pay: '8da3616d74ce0012d687a5636c6f7365c4200303030303030303030303030303030303030303030303030303030303030303a3666565cd03e8a26676cd03e8a367656eac746573746e65742d76312e30a26768c420aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa26c76cd07d0a26c78c4200505050505050505050505050505050505050505050505050505050505050505a46e6f7465c403010203a3726376c4200202020202020202020202020202020202020202020202020202020202020202a572656b6579c4200404040404040404040404040404040404040404040404040404040404040404a3736e64c4200101010101010101010101010101010101010101010101010101010101010101a474797065a3706179',
+  payZero:
+    '86a26676cd03e8a26768c420aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa26c76cd07d0a3726376c4200202020202020202020202020202020202020202020202020202020202020202a3736e64c4200101010101010101010101010101010101010101010101010101010101010101a474797065a3706179',
+  axfer:
+    '8aa461616d740aa461726376c4200202020202020202020202020202020202020202020202020202020202020202a3666565cd03e8a26676cd03e8a367656eac746573746e65742d76312e30a26768c420aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa26c76cd07d0a3736e64c4200101010101010101010101010101010101010101010101010101010101010101a474797065a56178666572a478616964ce01e1ab70',
+  clawback:
+    '8ca461616d74cf8000000000000000a661636c6f7365c4200404040404040404040404040404040404040404040404040404040404040404a461726376c4200202020202020202020202020202020202020202020202020202020202020202a461736e64c4200303030303030303030303030303030303030303030303030303030303030303a3666565cd03e8a26676cd03e8a367656eac746573746e65742d76312e30a26768c420aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa26c76cd07d0a3736e64c4200101010101010101010101010101010101010101010101010101010101010101a474797065a56178666572a47861696401',
+  acfgCreate:
+    '88a4617061728aa2616dc4200707070707070707070707070707070707070707070707070707070707070707a2616ea855534420436f696ea26175b368747470733a2f2f6578616d706c652e636f6da163c4200505050505050505050505050505050505050505050505050505050505050505a2646306a166c4200404040404040404040404040404040404040404040404040404040404040404a16dc4200202020202020202020202020202020202020202020202020202020202020202a172c4200303030303030303030303030303030303030303030303030303030303030303a174ce000f4240a2756ea455534443a3666565cd03e8a26676cd03e8a367656eac746573746e65742d76312e30a26768c420aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa26c76cd07d0a3736e64c4200101010101010101010101010101010101010101010101010101010101010101a474797065a461636667',
+  acfgDestroy:
+    '88a4636169642aa3666565cd03e8a26676cd03e8a367656eac746573746e65742d76312e30a26768c420aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa26c76cd07d0a3736e64c4200101010101010101010101010101010101010101010101010101010101010101a474797065a461636667',
+  afrz: '8aa46166727ac3a466616464c4200202020202020202020202020202020202020202020202020202020202020202a4666169642aa3666565cd03e8a26676cd03e8a367656eac746573746e65742d76312e30a26768c420aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa26c76cd07d0a3736e64c4200101010101010101010101010101010101010101010101010101010101010101a474797065a46166727a',
+  keyreg:
+    '8da3666565cd03e8a26676cd03e8a367656eac746573746e65742d76312e30a26768c420aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa26c76cd07d0a673656c6b6579c4200909090909090909090909090909090909090909090909090909090909090909a3736e64c4200101010101010101010101010101010101010101010101010101010101010101a7737072666b6579c4400a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0aa474797065a66b6579726567a7766f746566737464a6766f74656b64cd03e8a7766f74656b6579c4200808080808080808080808080808080808080808080808080808080808080808a7766f74656c7374ce00030d40',
+  keyregOffline:
+    '88a3666565cd03e8a26676cd03e8a367656eac746573746e65742d76312e30a26768c420aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa26c76cd07d0a76e6f6e70617274c3a3736e64c4200101010101010101010101010101010101010101010101010101010101010101a474797065a66b6579726567',
+  appl: '8ea46170616192c40101c400a46170616e01a46170617391cd0315a46170617491c4200202020202020202020202020202020202020202020202020202020202020202a4617062789281a16ec4016282a16901a16ec40163a46170666191cd01c8a4617069647ba3666565cd03e8a26676cd03e8a367656eac746573746e65742d76312e30a26768c420aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa26c76cd07d0a3736e64c4200101010101010101010101010101010101010101010101010101010101010101a474797065a46170706c',
+  applCreate:
+    '8ca461706170c403068101a46170657001a46170677382a36e627302a36e756901a461706c7381a36e627303a461707375c403068101a3666565cd03e8a26676cd03e8a367656eac746573746e65742d76312e30a26768c420aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa26c76cd07d0a3736e64c4200101010101010101010101010101010101010101010101010101010101010101a474797065a46170706c',
+}
+
+const pk = (n: number) => new Uint8Array(32).fill(n)
+
+const header = {
+  sender: pk(1),
+  fee: 1000,
+  firstValid: 1000,
+  lastValid: 2000,
+  genesisId: 'testnet-v1.0',
+  genesisHash: new Uint8Array(32).fill(0xaa),
+}
+
+describe('encodeTransaction', () => {
+  const cases: [keyof typeof VECTORS, AlgorandTransaction][] = [
+    [
+      'pay',
+      {
+        ...header,
+        type: TransactionType.pay,
+        receiver: pk(2),
+        amount: 1234567,
+        note: new Uint8Array([1, 2, 3]),
+        closeRemainderTo: pk(3),
+        rekeyTo: pk(4),
+        lease: new Uint8Array(32).fill(5),
+      },
+    ],
+    [
+      'payZero',
+      {
+        ...header,
+        type: TransactionType.pay,
+        fee: 0,
+        genesisId: '',
+        receiver: pk(2),
+        amount: 0,
+      },
+    ],
+    [
+      'axfer',
+      {
+        ...header,
+        type: TransactionType.axfer,
+        receiver: pk(2),
+        amount: 10,
+        assetIndex: 31566704,
+      },
+    ],
+    [
+      'clawback',
+      {
+        ...header,
+        type: TransactionType.axfer,
+        receiver: pk(2),
+        assetSender: pk(3),
+        closeRemainderTo: pk(4),
+        amount: BigInt(2) ** BigInt(63),
+        assetIndex: 1,
+      },
+    ],
+    [
+      'acfgCreate',
+      {
+        ...header,
+        type: TransactionType.acfg,
+        params: {
+          total: 1000000,
+          decimals: 6,
+          defaultFrozen: false,
+          unitName: 'USDC',
+          assetName: 'USD Coin',
+          url: 'https://example.com',
+          metadataHash: new Uint8Array(32).fill(7),
+          manager: pk(2),
+          reserve: pk(3),
+          freeze: pk(4),
+          clawback: pk(5),
+        },
+      },
+    ],
+    ['acfgDestroy', { ...header, type: TransactionType.acfg, assetIndex: 42 }],
+    [
+      'afrz',
+      {
+        ...header,
+        type: TransactionType.afrz,
+        freezeAccount: pk(2),
+        frozen: true,
+        assetIndex: 42,
+      },
+    ],
+    [
+      'keyreg',
+      {
+        ...header,
+        type: TransactionType.keyreg,
+        voteKey: pk(8),
+        selectionKey: pk(9),
+        stateProofKey: new Uint8Array(64).fill(10),
+        voteFirst: 100,
+        voteLast: 200000,
+        voteKeyDilution: 1000,
+      },
+    ],
+    [
+      'keyregOffline',
+      { ...header, type: TransactionType.keyreg, nonParticipation: true },
+    ],
+    [
+      'appl',
+      {
+        ...header,
+        type: TransactionType.appl,
+        appIndex: 123,
+        onComplete: OnApplicationComplete.OptIn,
+        appArgs: [new Uint8Array([1]), new Uint8Array([])],
+        accounts: [pk(2)],
+        foreignApps: [456],
+        foreignAssets: [789],
+        boxes: [
+          { appIndex: 0, name: new Uint8Array([0x62]) },
+          { appIndex: 1, name: new Uint8Array([0x63]) },
+        ],
+      },
+    ],
+    [
+      'applCreate',
+      {
+        ...header,
+        type: TransactionType.appl,
+        onComplete: OnApplicationComplete.NoOp,
+        approvalProgram: new Uint8Array([6, 0x81, 1]),
+        clearProgram: new Uint8Array([6, 0x81, 1]),
+        globalSchema: { numUints: 1, numByteSlices: 2 },
+        localSchema: { numUints: 0, numByteSlices: 3 },
+        extraPages: 1,
+      },
+    ],
+  ]
+
+  it.each(cases)('should match the reference encoding for %s', (name, txn) => {
+    expect(encodeTransaction(txn).toString('hex')).toBe(VECTORS[name])
+  })
+
+  it('should encode a state proof transaction', () => {
+    const encoded = encodeTransaction({
+      ...header,
+      type: TransactionType.stpf,
+      stateProofType: 0,
+      message: { b: new Uint8Array([1]), f: 1 },
+    })
+    expect(decode(encoded)).toEqual({
+      fee: 1000,
+      fv: 1000,
+      gen: 'testnet-v1.0',
+      gh: Buffer.alloc(32, 0xaa),
+      lv: 2000,
+      snd: Buffer.alloc(32, 1),
+      spmsg: { b: Buffer.from([1]), f: 1 },
+      type: 'stpf',
+    })
+  })
+
+  it('should reject fields with the wrong length', () => {
+    expect(() =>
+      encodeTransaction({
+        ...header,
+        type: TransactionType.pay,
+        receiver: new Uint8Array(31),
+      })
+    ).toThrow('Invalid receiver: expected 32 bytes, got 31')
+  })
+
+  it('should require a genesis hash', () => {
+    expect(() =>
+      encodeTransaction({
+        ...header,
+        genesisHash: new Uint8Array(32),
+        type: TransactionType.pay,
+      })
+    ).toThrow('Invalid genesisHash')
+  })
+
+  it('should reject negative amounts', () => {
+    expect(() =>
+      encodeTransaction({ ...header, type: TransactionType.pay, amount: -1 })
+    ).toThrow('Invalid amount')
+  })
+})
+
+describe('decodeTransaction', () => {
+  it.each(Object.entries(VECTORS))(
+    'should round trip the reference encoding for %s',
+    (_, hex) => {
+      const blob = Buffer.from(hex, 'hex')
+      expect(encodeTransaction(decodeTransaction(blob))).toEqual(blob)
+    }
+  )
+
+  it('should decode typed fields', () => {
+    const txn = decodeTransaction(Buffer.from(VECTORS.clawback, 'hex'))
+    expect(txn).toEqual({
+      ...header,
+      sender: Buffer.from(pk(1)),
+      genesisHash: Buffer.from(header.genesisHash),
+      type: TransactionType.axfer,
+      receiver: Buffer.from(pk(2)),
+      assetSender: Buffer.from(pk(3)),
+      closeRemainderTo: Buffer.from(pk(4)),
+      amount: BigInt(2) ** BigInt(63),
+      assetIndex: 1,
+    })
+  })
+
+  it('should reject unknown fields', () => {
+    const blob = encode({ gh: Buffer.alloc(32, 1), type: 'pay', xaid: 1 })
+    expect(() => decodeTransaction(blob)).toThrow('unexpected field(s) xaid')
+  })
+
+  it('should reject fields with the wrong type', () => {
+    const blob = encode({ gh: Buffer.alloc(32, 1), type: 'pay', amt: 'ten' })
+    expect(() => decodeTransaction(blob)).toThrow(
+      'Invalid amt: expected an unsigned integer'
+    )
+  })
+
+  it('should reject unsupported transaction types', () => {
+    const blob = encode({ gh: Buffer.alloc(32, 1), type: 'hb' })
+    expect(() => decodeTransaction(blob)).toThrow(
+      'Unsupported transaction type: hb'
+    )
+  })
+
+  it('should reject state proofs with integer keys', () => {
+    const placeholder = Buffer.from('a17281a17880', 'hex')
+    const encoded = encodeTransaction({
+      ...header,
+      type: TransactionType.stpf,
+      stateProof: { r: { x: {} } },
+    })
+    const offset = encoded.indexOf(placeholder)
+    expect(offset).toBeGreaterThan(0)
+    // sprf: { r: { 0: {} } }, as in a real proof's reveals
+    const blob = Buffer.concat([
+      encoded.subarray(0, offset),
+      Buffer.from('a172810080', 'hex'),
+      encoded.subarray(offset + placeholder.length),
+    ])
+
+    expect(() => decodeTransaction(blob)).toThrow(
+      'Only string map keys are supported'
+    )
+  })
+})
+
+describe('group ID', () => {
+  const pay = decodeTransaction(Buffer.from(VECTORS.pay, 'hex'))
+  const axfer = decodeTransaction(Buffer.from(VECTORS.axfer, 'hex'))
+
+  it('should compute the transaction ID', () => {
+    expect(
+      getTransactionRawId(Buffer.from(VECTORS.pay, 'hex')).toString('hex')
+    ).toBe('10f3e9e8f7cabed194eabb238fdcf8d765905b877d9e3e5f1bef02f1e06b0279')
+  })
+
+  it('should match the reference group ID', () => {
+    expect(computeGroupId([pay, axfer]).toString('hex')).toBe(
+      '9b7a4d3966743229e171e6745ba126758e99c6bb2e1654b2b7b245b015c0c65e'
+    )
+  })
+
+  it('should ignore a previously assigned group', () => {
+    const [grouped] = assignGroupId([pay, axfer])
+    expect(computeGroupId([grouped, axfer])).toEqual(
+      computeGroupId([pay, axfer])
+    )
+    expect(encodeTransaction(grouped).toString('hex')).toContain(
+      'a3677270c4209b7a4d39'
+    )
+  })
+
+  it('should reject empty and oversized groups', () => {
+    expect(() => computeGroupId([])).toThrow('Invalid group')
+    expect(() => computeGroupId(new Array(17).fill(pay))).toThrow(
+      'Invalid group'
+    )
+  })
+})
+
+describe('signed transactions', () => {
+  const seed = Buffer.alloc(32, 1)
+  const publicKey = Buffer.from(ed25519.getPublicKey(seed))
+  const sign = (blob: Uint8Array) =>
+    ed25519.sign(Buffer.concat([Buffer.from('TX'), blob]), seed)
+
+  // algosdk signTxn output for a transaction sent by the key itself
+  const OWN_TXN =
+    '88a3616d7405a3666565cd03e8a2667601a26768c4200202020202020202020202020202020202020202020202020202020202020202a26c76cd03e9a3726376c4200202020202020202020202020202020202020202020202020202020202020202a3736e64c4208a88e3dd7409f195fd52db2d3cba5d72ca6709bf1d94121bf3748801b40f6f5ca474797065a3706179'
+  const OWN_SIGNED =
+    '82a3736967c440c59507fb6f7932a6ad5ba67cdede8ea5d49df1af6302d1d3f91edca19015eb856b2c6f2505ac7630d523f589120f0b384136d74b4271694a5d517b53751ea905a374786e88a3616d7405a3666565cd03e8a2667601a26768c4200202020202020202020202020202020202020202020202020202020202020202a26c76cd03e9a3726376c4200202020202020202020202020202020202020202020202020202020202020202a3736e64c4208a88e3dd7409f195fd52db2d3cba5d72ca6709bf1d94121bf3748801b40f6f5ca474797065a3706179'
+  // Same key signing payZero, whose sender has been rekeyed to it
+  const REKEYED_SIGNED =
+    '83a473676e72c4208a88e3dd7409f195fd52db2d3cba5d72ca6709bf1d94121bf3748801b40f6f5ca3736967c44080cb27d122b41862786e7c7beb909e37d517ecc4a7e762e58a142971eac7ce71987b1ae284bfe4315e152e3e81912381ca6e12f2b1c6f433f3e22b7ce1507f0da374786e86a26676cd03e8a26768c420aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa26c76cd07d0a3726376c4200202020202020202020202020202020202020202020202020202020202020202a3736e64c4200101010101010101010101010101010101010101010101010101010101010101a474797065a3706179'
+
+  it('should compute base32 transaction IDs like algosdk', () => {
+    expect(getTransactionId(Buffer.from(VECTORS.pay, 'hex'))).toBe(
+      'CDZ6T2HXZK7NDFHKXMRY7XHY25SZAW4HPWPD4XY354BPDYDLAJ4Q'
+    )
+    expect(
+      getTransactionId(decodeTransaction(Buffer.from(VECTORS.axfer, 'hex')))
+    ).toBe('WOWQ7LUHWTCWGTY6E2GVPJPGI6EX542DGJUUFZNNQQNZVJENFLMA')
+  })
+
+  it('should assemble a SignedTxn for the sender', () => {
+    const blob = Buffer.from(OWN_TXN, 'hex')
+    const result = createSignedTransaction(blob, sign(blob))
+    expect(result.blob.toString('hex')).toBe(OWN_SIGNED)
+    expect(result.txId).toBe(
+      'PWFUI2OIOQERUW2RV7PXDQKD27YZLWJJULI3ODDCHCZ3P4N3ZSOA'
+    )
+    expect(result.signedTransaction.authAddress).toBeUndefined()
+    expect(decodeSignedTransaction(result.blob)).toEqual(
+      result.signedTransaction
+    )
+  })
+
+  it('should set sgnr when the signer is not the sender', () => {
+    const blob = Buffer.from(VECTORS.payZero, 'hex')
+    const result = createSignedTransaction(blob, sign(blob), publicKey)
+    expect(result.blob.toString('hex')).toBe(REKEYED_SIGNED)
+    expect(result.signedTransaction.authAddress).toEqual(publicKey)
+    expect(result.txId).toBe(
+      '7MYCL6NU676ZV6KCNBA43JNVOHE7KZ5KIUTDOP7TYZMUFWLBDHVA'
+    )
+  })
+
+  it('should reject a signature from another key', () => {
+    const blob = Buffer.from(VECTORS.payZero, 'hex')
+    expect(() => createSignedTransaction(blob, sign(blob))).toThrow(
+      'Invalid signature'
+    )
+  })
+})
+
+describe('msgpack', () => {
+  it('should sort map keys and use the smallest integer encoding', () => {
+    expect(encode({ b: 0x100, a: 0x7f }).toString('hex')).toBe(
+      '82a1617fa162cd0100'
+    )
+  })
+
+  it('should round trip large values', () => {
+    const value = {
+      big: BigInt('18446744073709551615'),
+      neg: -200,
+      list: new Array(20).fill(true),
+      str: 'x'.repeat(40),
+      bin: Buffer.alloc(300, 1),
+    }
+    expect(decode(encode(value))).toEqual(value)
+  })
+
+  it('should reject trailing bytes', () => {
+    expect(() => decode(Buffer.from([0x01, 0x02]))).toThrow('trailing')
+  })
+
+  it('should decode __proto__ keys as plain entries', () => {
+    // {"__proto__": {"polluted": 1}}
+    const decoded = decode(encode({ ['__proto__']: { polluted: 1 } }))
+    expect(Object.getPrototypeOf(decoded)).toBeNull()
+    expect(Object.keys(decoded as object)).toEqual(['__proto__'])
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+  })
+})
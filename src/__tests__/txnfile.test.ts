@@ -0,0 +1,271 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { encodeAddress } from '../address'
+import { AlgorandApp } from '../app'
+import { EmulatorTransport } from '../emulator'
+import { createLogicSig } from '../logicsig'
+import { encode, splitMsgpack } from '../msgpack'
+import { getSignedFileName, signTransactionFile } from '../signfile'
+import {
+  encodeSignedTransaction,
+  encodeTransaction,
+  getTransactionId,
+} from '../transaction'
+import {
+  detectTransactionFileFormat,
+  parseTransactionFile,
+  readTransactionFileRecords,
+  serializeTransactionFile,
+  signTransactionRecords,
+  signTransactions,
+} from '../txnfile'
+import {
+  AlgorandTransaction,
+  SignedTransaction,
+  TransactionFileFormat,
+  TransactionType,
+} from '../types'
+import { verifyTransactionSignature } from '../verify'
+
+const MNEMONIC =
+  'equip will roof matter pink blind book anxiety banner elbow sun young'
+const STRANGER = Buffer.alloc(32, 3)
+
+function payment(sender: Uint8Array, amount: number | bigint = 1000) {
+  return {
+    type: TransactionType.pay,
+    sender: Buffer.from(sender),
+    receiver: Buffer.alloc(32, 1),
+    amount,
+    fee: 1000,
+    firstValid: 1,
+    lastValid: 1001,
+    genesisId: 'testnet-v1.0',
+    genesisHash: Buffer.alloc(32, 2),
+  } as AlgorandTransaction
+}
+
+const records: SignedTransaction[] = [
+  { transaction: payment(STRANGER, BigInt('1152921504606846976')) },
+  { transaction: payment(STRANGER), signature: Buffer.alloc(64, 5) },
+  {
+    transaction: {
+      type: TransactionType.acfg,
+      sender: STRANGER,
+      fee: 1000,
+      firstValid: 1,
+      lastValid: 1001,
+      genesisHash: Buffer.alloc(32, 2),
+      params: {
+        total: 100,
+        unitName: 'TOK',
+        manager: Buffer.alloc(32, 4),
+        metadataHash: Buffer.alloc(32, 6),
+      },
+    },
+    authAddress: Buffer.alloc(32, 7),
+  },
+  {
+    transaction: payment(STRANGER),
+    logicSig: createLogicSig(Buffer.from([0x06, 0x81, 0x01])),
+  },
+]
+
+describe('transaction files', () => {
+  it('should split concatenated msgpack values', () => {
+    const blobs = records.map(encodeSignedTransaction)
+    expect(splitMsgpack(Buffer.concat(blobs))).toEqual(blobs)
+    expect(() => splitMsgpack(blobs[0].subarray(0, 10))).toThrow(
+      'Unexpected end'
+    )
+  })
+
+  it('should round-trip every format', () => {
+    const formats: TransactionFileFormat[] = ['msgpack', 'base64', 'json']
+    for (const format of formats) {
+      const content = serializeTransactionFile(records, format)
+      expect(detectTransactionFileFormat(content)).toBe(format)
+      expect(
+        parseTransactionFile(content).map(encodeSignedTransaction)
+      ).toEqual(records.map(encodeSignedTransaction))
+    }
+  })
+
+  it('should write JSON as goal clerk inspect does', () => {
+    const [unsigned, signed, rekeyed] = JSON.parse(
+      serializeTransactionFile(records, 'json').toString()
+    )
+
+    expect(unsigned).toEqual({
+      txn: {
+        amt: '1152921504606846976',
+        fee: 1000,
+        fv: 1,
+        gen: 'testnet-v1.0',
+        gh: Buffer.alloc(32, 2).toString('base64'),
+        lv: 1001,
+        rcv: encodeAddress(Buffer.alloc(32, 1)),
+        snd: encodeAddress(STRANGER),
+        type: 'pay',
+      },
+    })
+    expect(signed.sig).toBe(Buffer.alloc(64, 5).toString('base64'))
+    expect(rekeyed.sgnr).toBe(encodeAddress(Buffer.alloc(32, 7)))
+    expect(rekeyed.txn.apar).toMatchObject({
+      m: encodeAddress(Buffer.alloc(32, 4)),
+      am: Buffer.alloc(32, 6).toString('base64'),
+      un: 'TOK',
+    })
+  })
+
+  it('should read bare transactions and base64 blobs', () => {
+    const bare = encodeTransaction(payment(STRANGER))
+    expect(parseTransactionFile(bare)).toEqual([
+      { transaction: payment(STRANGER) },
+    ])
+
+    // As wrapped by the base64 tool
+    const blob = Buffer.concat(records.map(encodeSignedTransaction))
+    const wrapped = blob.toString('base64').replace(/.{76}/g, '$&\n')
+    expect(parseTransactionFile(wrapped)).toHaveLength(4)
+  })
+
+  it('should reject invalid files', () => {
+    expect(() => parseTransactionFile('')).toThrow('Empty transaction file')
+    expect(() => parseTransactionFile('[{"txn": {"snd": "nope"}}]')).toThrow(
+      'Invalid record 0.txn.snd: expected an address'
+    )
+    expect(() => parseTransactionFile('not base64!')).toThrow(
+      'Invalid base64 on line 1'
+    )
+    expect(() =>
+      parseTransactionFile(Buffer.from([0x81, 0xa1, 0x61, 0x01]))
+    ).toThrow('Invalid record 0')
+    expect(() =>
+      parseTransactionFile('[{"txn": {"__proto__": {"type": "pay"}}}]')
+    ).toThrow('Unsupported transaction type')
+    expect(({} as Record<string, unknown>).type).toBeUndefined()
+  })
+
+  it('should name signed files after their input', () => {
+    expect(getSignedFileName('/tmp/pay.txn')).toBe('/tmp/pay.stxn')
+    expect(getSignedFileName('out/pay.b64')).toBe('out/pay.b64.stxn')
+  })
+})
+
+describe('signing transaction files', () => {
+  let app: AlgorandApp
+  let keys: Buffer[]
+  let dir: string
+
+  beforeEach(async () => {
+    app = new AlgorandApp(new EmulatorTransport({ mnemonic: MNEMONIC }))
+    keys = [
+      (await app.getAddressAndPubKey(0)).publicKey,
+      (await app.getAddressAndPubKey(1)).publicKey,
+    ]
+    dir = await mkdtemp(join(tmpdir(), 'txnfile-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('should sign the records of the device keys only', async () => {
+    const presigned = {
+      transaction: payment(keys[0], 5),
+      signature: Buffer.alloc(64, 5),
+    }
+    const input = [
+      { transaction: payment(keys[1]) },
+      { transaction: payment(STRANGER) },
+      presigned,
+      // Rekeyed to account 0
+      { transaction: payment(STRANGER, 7), authAddress: keys[0] },
+    ]
+
+    const { transactions, signed } = await signTransactions(app, input, {
+      paths: [0, 1],
+    })
+
+    expect(signed).toEqual([0, 3])
+    expect(transactions.slice(1, 3)).toEqual([input[1], presigned])
+    expect(
+      verifyTransactionSignature(
+        encodeTransaction(input[0].transaction),
+        transactions[0].signature as Uint8Array,
+        keys[1]
+      )
+    ).toBe(true)
+    expect(transactions[3].authAddress).toEqual(keys[0])
+  })
+
+  it('should write the signed file in the format of its input', async () => {
+    const input = join(dir, 'pay.txn')
+    await writeFile(
+      input,
+      serializeTransactionFile(
+        [{ transaction: payment(keys[0]) }, { transaction: payment(STRANGER) }],
+        'base64'
+      )
+    )
+
+    const result = await signTransactionFile(app, input)
+
+    expect(result.output).toBe(join(dir, 'pay.stxn'))
+    expect(result.format).toBe('base64')
+    expect(result.signed).toEqual([0])
+    const written = await readFile(result.output, 'utf8')
+    expect(written.trim().split('\n')).toHaveLength(2)
+    const [signed, kept] = parseTransactionFile(written)
+    expect(getTransactionId(signed.transaction)).toBe(
+      getTransactionId(payment(keys[0]))
+    )
+    expect(signed.signature).toHaveLength(64)
+    expect(kept).toEqual({ transaction: payment(STRANGER) })
+  })
+  it('should keep records it cannot decode byte for byte', async () => {
+    const txn = (sender: Uint8Array) => ({
+      amt: 1000,
+      fee: 1000,
+      fv: 1,
+      gh: Buffer.alloc(32, 2),
+      lv: 1001,
+      rcv: Buffer.alloc(32, 1),
+      snd: sender,
+      type: 'pay',
+    })
+    const kept = [
+      // A field from a newer protocol
+      encode({ txn: { ...txn(STRANGER), zzz: 1 } }),
+      // Logic signature delegated by a multisig, in its legacy form
+      encode({
+        lsig: {
+          l: Buffer.from([0x06, 0x81, 0x01]),
+          msig: { subsig: [{ pk: keys[0] }], thr: 1, v: 1 },
+        },
+        txn: txn(keys[0]),
+      }),
+    ]
+    const content = Buffer.concat([encode({ txn: txn(keys[1]) }), ...kept])
+    expect(() => parseTransactionFile(content)).toThrow('Invalid record 1')
+
+    const { records, signed } = await signTransactionRecords(
+      app,
+      readTransactionFileRecords(content),
+      { paths: [0, 1] }
+    )
+
+    expect(signed).toEqual([0])
+    expect(records.slice(1)).toEqual(kept)
+    const input = join(dir, 'kept.txn')
+    await writeFile(input, content.toString('base64'))
+    const result = await signTransactionFile(app, input, { paths: [0, 1] })
+    const written = await readFile(result.output, 'utf8')
+    expect(written.trim().split('\n').slice(1)).toEqual(
+      kept.map(blob => blob.toString('base64'))
+    )
+  })
+})
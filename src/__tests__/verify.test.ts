@@ -0,0 +1,85 @@
+import { createHash } from 'crypto'
+import { describe, expect, it } from 'vitest'
+import { ed25519 } from '@noble/curves/ed25519'
+import { ScopeType, StdSigDataResponse } from '../types'
+import {
+  getSignDataPayload,
+  verifySignDataSignature,
+  verifyTransactionSignature,
+} from '../verify'
+
+const privateKey = Buffer.alloc(32, 7)
+const publicKey = Buffer.from(ed25519.getPublicKey(privateKey))
+const otherKey = Buffer.from(ed25519.getPublicKey(Buffer.alloc(32, 8)))
+
+describe('verifyTransactionSignature', () => {
+  const txn = Buffer.from('81a474797065a3706179', 'hex')
+  const signature = ed25519.sign(
+    Buffer.concat([Buffer.from('TX'), txn]),
+    privateKey
+  )
+
+  it('should accept a signature over the TX-prefixed transaction', () => {
+    expect(verifyTransactionSignature(txn, signature, publicKey)).toBe(true)
+  })
+
+  it('should reject another key, transaction or corrupted signature', () => {
+    const corrupted = Buffer.from(signature)
+    corrupted[10] ^= 1
+
+    expect(verifyTransactionSignature(txn, signature, otherKey)).toBe(false)
+    expect(
+      verifyTransactionSignature(Buffer.from('81'), signature, publicKey)
+    ).toBe(false)
+    expect(verifyTransactionSignature(txn, corrupted, publicKey)).toBe(false)
+    expect(
+      verifyTransactionSignature(txn, signature.slice(0, 63), publicKey)
+    ).toBe(false)
+  })
+})
+
+describe('verifySignDataSignature', () => {
+  const metadata = { scope: ScopeType.AUTH, encoding: 'base64' }
+  const data = Buffer.from('{"type":"foo"}')
+  const authenticationData = createHash('sha256').update('domain').digest()
+  const request = {
+    data: data.toString('base64'),
+    signer: publicKey,
+    domain: 'domain',
+    authenticationData,
+  }
+
+  it('should rebuild the ARC-60 payload', () => {
+    expect(getSignDataPayload(request, metadata)).toEqual(
+      Buffer.concat([
+        createHash('sha256').update(data).digest(),
+        createHash('sha256').update(authenticationData).digest(),
+      ])
+    )
+  })
+
+  it('should check the signature against the signer', () => {
+    const response: StdSigDataResponse = {
+      ...request,
+      signature: ed25519.sign(
+        getSignDataPayload(request, metadata),
+        privateKey
+      ),
+    }
+
+    expect(verifySignDataSignature(response, metadata)).toBe(true)
+    expect(verifySignDataSignature(response, metadata, otherKey)).toBe(false)
+    expect(
+      verifySignDataSignature(
+        { ...response, domain: 'other', authenticationData: Buffer.alloc(32) },
+        metadata
+      )
+    ).toBe(false)
+  })
+
+  it('should reject unsupported encodings', () => {
+    expect(() =>
+      getSignDataPayload(request, { ...metadata, encoding: 'hex' })
+    ).toThrow('Unsupported encoding')
+  })
+})
@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { decodeAddress, encodeAddress } from '../address'
+import { AlgorandApp } from '../app'
+import { EmulatorTransport } from '../emulator'
+import { SignTxnsError } from '../errors'
+import { multisigAddress } from '../multisig'
+import {
+  assignGroupId,
+  decodeSignedTransaction,
+  encodeSignedTransaction,
+  encodeTransaction,
+} from '../transaction'
+import {
+  AlgorandTransaction,
+  SignTxnsErrorCode,
+  TransactionType,
+  WalletTransaction,
+} from '../types'
+import { verifyTransactionSignature } from '../verify'
+import { LedgerWallet } from '../wallet'
+
+const MNEMONIC =
+  'equip will roof matter pink blind book anxiety banner elbow sun young'
+const STRANGER = Buffer.alloc(32, 9)
+
+function payment(sender: Uint8Array, amount = 1000): AlgorandTransaction {
+  return {
+    type: TransactionType.pay,
+    sender: Buffer.from(sender),
+    receiver: Buffer.alloc(32, 1),
+    amount,
+    fee: 1000,
+    firstValid: 1,
+    lastValid: 1001,
+    genesisHash: Buffer.alloc(32, 2),
+  }
+}
+
+function base64(txn: AlgorandTransaction) {
+  return encodeTransaction(txn).toString('base64')
+}
+
+function decoded(stxn: string | null) {
+  return decodeSignedTransaction(Buffer.from(stxn as string, 'base64'))
+}
+
+describe('LedgerWallet', () => {
+  let approve: boolean
+  let prompts: number
+  let app: AlgorandApp
+  let wallet: LedgerWallet
+  let keys: Buffer[]
+
+  beforeEach(async () => {
+    approve = true
+    prompts = 0
+    app = new AlgorandApp(
+      new EmulatorTransport({
+        mnemonic: MNEMONIC,
+        approve: () => {
+          prompts += 1
+          return approve
+        },
+      })
+    )
+    wallet = new LedgerWallet(app, { paths: [0, 1] })
+    keys = (await wallet.getAccounts()).map(({ address }) =>
+      decodeAddress(address)
+    )
+  })
+
+  it('should map device accounts to their paths', async () => {
+    expect(await wallet.getAccounts()).toEqual([
+      { address: encodeAddress(keys[0]), path: "m/44'/283'/0'/0/0" },
+      { address: encodeAddress(keys[1]), path: "m/44'/283'/1'/0/0" },
+    ])
+  })
+
+  it('should sign with the key of each sender', async () => {
+    const txn = payment(keys[1])
+    const [signed] = await wallet.signTxns([{ txn: base64(txn) }])
+
+    const stxn = decoded(signed)
+    expect(stxn.authAddress).toBeUndefined()
+    expect(
+      verifyTransactionSignature(
+        encodeTransaction(txn),
+        stxn.signature as Uint8Array,
+        keys[1]
+      )
+    ).toBe(true)
+  })
+
+  it('should leave transactions for other signers unsigned', async () => {
+    const [mine, theirs, presigned] = assignGroupId([
+      payment(keys[0]),
+      payment(STRANGER),
+      payment(STRANGER, 2000),
+    ])
+    const stxn = encodeSignedTransaction({
+      transaction: presigned,
+      signature: Buffer.alloc(64),
+    }).toString('base64')
+
+    const signed = await wallet.signTxns([
+      { txn: base64(mine) },
+      { txn: base64(theirs), signers: [] },
+      { txn: base64(presigned), signers: [], stxn },
+    ])
+
+    expect(signed[0]).not.toBeNull()
+    expect(signed.slice(1)).toEqual([null, null])
+    expect(prompts).toBe(1)
+  })
+
+  it('should sign for a sender rekeyed to the device', async () => {
+    const txn = payment(STRANGER)
+    const [signed] = await wallet.signTxns([
+      { txn: base64(txn), authAddr: encodeAddress(keys[0]) },
+    ])
+
+    expect(decoded(signed).authAddress).toEqual(keys[0])
+  })
+
+  it('should sign a multisig with every device subkey', async () => {
+    const msig = {
+      version: 1,
+      threshold: 2,
+      addrs: [
+        encodeAddress(keys[0]),
+        encodeAddress(STRANGER),
+        encodeAddress(keys[1]),
+      ],
+    }
+    const sender = decodeAddress(
+      multisigAddress({ ...msig, publicKeys: msig.addrs.map(decodeAddress) })
+    )
+    const [signed] = await wallet.signTxns([
+      { txn: base64(payment(sender)), msig },
+    ])
+
+    const subsigs = decoded(signed).multisig?.subsignatures ?? []
+    expect(subsigs.map(subsig => subsig.signature !== undefined)).toEqual([
+      true,
+      false,
+      true,
+    ])
+  })
+
+  it('should validate every transaction before signing', async () => {
+    const cases: [WalletTransaction[], SignTxnsErrorCode][] = [
+      [[{ txn: base64(payment(STRANGER)) }], SignTxnsErrorCode.Unauthorized],
+      [
+        [
+          { txn: base64(payment(keys[0])) },
+          {
+            txn: base64(payment(keys[0], 5)),
+            signers: [encodeAddress(keys[1])],
+          },
+        ],
+        SignTxnsErrorCode.InvalidInput,
+      ],
+      [[{ txn: 'not msgpack' }], SignTxnsErrorCode.InvalidInput],
+      [
+        [{ txn: base64(payment(keys[0])), stxn: 'AA==' }],
+        SignTxnsErrorCode.InvalidInput,
+      ],
+      [[], SignTxnsErrorCode.InvalidInput],
+    ]
+
+    for (const [txns, code] of cases) {
+      await expect(wallet.signTxns(txns)).rejects.toMatchObject({ code })
+    }
+    expect(prompts).toBe(0)
+  })
+
+  it('should refuse transactions outside their group', async () => {
+    const [first] = assignGroupId([payment(keys[0]), payment(keys[1])])
+    const error = await wallet
+      .signTxns([
+        { txn: base64(first) },
+        // Not the second transaction of that group
+        { txn: base64(payment(keys[1], 5)) },
+      ])
+      .catch(e => e)
+
+    expect(error).toBeInstanceOf(SignTxnsError)
+    expect(error.code).toBe(SignTxnsErrorCode.InvalidInput)
+    expect(error.data).toBe(0)
+  })
+
+  it('should report a rejection on the device as ARC-1 4001', async () => {
+    approve = false
+    await expect(
+      wallet.signTxns([{ txn: base64(payment(keys[0])) }])
+    ).rejects.toMatchObject({ code: SignTxnsErrorCode.UserRejected, data: 0 })
+  })
+
+  it('should act as an algosdk TransactionSigner', async () => {
+    const group = assignGroupId([payment(STRANGER), payment(keys[1])])
+    const signer = wallet.getTransactionSigner()
+
+    const signed = await signer(
+      [group[0], { toByte: () => encodeTransaction(group[1]) }],
+      [1]
+    )
+
+    expect(signed).toHaveLength(1)
+    const stxn = decodeSignedTransaction(signed[0])
+    expect(encodeTransaction(stxn.transaction)).toEqual(
+      encodeTransaction(group[1])
+    )
+    expect(prompts).toBe(1)
+  })
+})
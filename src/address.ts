@@ -0,0 +1,59 @@
+import { sha512_256 } from '@noble/hashes/sha2'
+import { base32Decode, base32Encode } from './base32'
+import { PUBKEYLEN } from './consts'
+
+const CHECKSUM_LEN = 4
+const ADDRESS_LEN = 58
+
+function checksum(publicKey: Uint8Array) {
+  return sha512_256(publicKey).slice(-CHECKSUM_LEN)
+}
+
+/**
+ * Encodes a 32-byte Ed25519 public key as a 58-character Algorand address.
+ * @throws {Error} If the public key does not have the expected length.
+ */
+export function encodeAddress(publicKey: Uint8Array): string {
+  if (publicKey.length !== PUBKEYLEN) {
+    throw new Error(
+      `Invalid public key: expected ${PUBKEYLEN} bytes, got ${publicKey.length}`
+    )
+  }
+  return base32Encode(Buffer.concat([publicKey, checksum(publicKey)]))
+}
+
+/**
+ * Decodes an Algorand address into its 32-byte public key, checking the
+ * length, alphabet and checksum.
+ * @throws {Error} If the address is malformed or its checksum is wrong.
+ */
+export function decodeAddress(address: string): Buffer {
+  if (typeof address !== 'string' || address.length !== ADDRESS_LEN) {
+    throw new Error(
+      `Invalid address: expected ${ADDRESS_LEN} characters, got ${address?.length}`
+    )
+  }
+
+  const decoded = base32Decode(address)
+  const publicKey = decoded.subarray(0, PUBKEYLEN)
+  if (!checksum(publicKey).every((b, i) => b === decoded[PUBKEYLEN + i])) {
+    throw new Error('Invalid address: checksum mismatch')
+  }
+  // Reject non-canonical encodings that decode to the same bytes
+  if (encodeAddress(publicKey) !== address) {
+    throw new Error('Invalid address: non-canonical encoding')
+  }
+  return Buffer.from(publicKey)
+}
+
+/**
+ * Returns true when the string is a well-formed Algorand address.
+ */
+export function isValidAddress(address: string): boolean {
+  try {
+    decodeAddress(address)
+    return true
+  } catch {
+    return false
+  }
+}
@@ -15,51 +15,113 @@
  ******************************************************************************* */
 import type Transport from '@ledgerhq/hw-transport'
 import BaseApp, {
-  BIP32Path,
-  ERROR_DESCRIPTION_OVERRIDE,
   INSGeneric,
-  processErrorResponse,
   processResponse,
   ResponsePayload,
 } from '@zondax/ledger-js'
+import { encodeAddress } from './address'
+import { getSignDataAccountId, validateSignData } from './arc60'
+import { getDeviceFingerprint, readAddressCache } from './cache'
 import { ERROR_DESCRIPTION, LedgerError } from './common'
-import { PUBKEYLEN } from './consts'
 import {
+  CAPABILITY_MIN_VERSIONS,
+  EXPERIMENTAL_CAPABILITIES,
+  PUBKEYLEN,
+} from './consts'
+import {
+  AddressMismatchError,
+  AppNotOpenError,
+  ExperimentalFeatureError,
+  LedgerDeviceError,
+  SignDataValidationError,
+  toDeviceError,
+  UnsupportedVersionError,
+} from './errors'
+import {
+  appendLogicSigMultisigSignature,
+  appendLogicSigSignature,
+  createLogicSig,
+} from './logicsig'
+import {
+  appendMultisigSignature,
+  createMultisigTransaction,
+  multisigPublicKey,
+} from './multisig'
+import { raceCancellation, startOperation, throwIfCancelled } from './operation'
+import {
+  formatBip32Path,
+  formatDerivationPath,
+  getPathAccountId,
+  parseBip32Path,
+  serializeBip32Path,
+  toAlgorandPath,
+} from './path'
+import { ExchangeQueue } from './queue'
+import {
+  assignGroupId,
+  createSignedTransaction,
+  decodeTransaction,
+  encodeTransaction,
+} from './transaction'
+import {
+  AccountRange,
+  AddressCacheSnapshot,
+  AddressEntry,
+  AddressExportOptions,
+  AlgorandAppOptions,
+  AlgorandTransaction,
+  AppCapabilities,
+  AppCapability,
+  AppVersion,
+  DerivationPath,
+  ExperimentalCapability,
+  LogicSigOptions,
+  MultisigMetadata,
+  OperationOptions,
   ResponseAddress,
+  ResponseAddresses,
+  ResponseAppInfo,
+  ResponseDeviceInfo,
   ResponseSign,
+  ResponseSignGroup,
+  ResponseSignLogicSig,
+  ResponseSignMultisig,
+  ResponseSignTransaction,
   ResponseVersion,
+  SignDataIssue,
+  SignDataOptions,
+  SigningStage,
   StdSigData,
   StdSigDataResponse,
   StdSignMetadata,
 } from './types'
+import { getProgramSigningPayload } from './verify'
+import { formatVersion, getAppCapabilities } from './version'
 
-// Add this constant for the default signing path
-const DEFAULT_SIGN_DATA_PATH = "m/44'/283'/0'/0/0"
+// Marks the scope of a call that already holds the exchange queue
+const QUEUED = Symbol('queued')
 
-enum ArbitrarySignError {
-  ErrorInvalidScope = 0x6988,
-  ErrorFailedDecoding = 0x6989,
-  ErrorInvalidSigner = 0x698a,
-  ErrorMissingDomain = 0x698b,
-  ErrorMissingAuthenticatedData = 0x698c,
-  ErrorBadJson = 0x698d,
-  ErrorFailedDomainAuth = 0x698e,
-  ErrorFailedHdPath = 0x698f,
-}
+type OperationScope = OperationOptions & { [QUEUED]?: true }
 
-const ARBITRARY_SIGN_ERROR_DESCRIPTIONS = {
-  ...ERROR_DESCRIPTION_OVERRIDE,
-  [ArbitrarySignError.ErrorInvalidScope]: 'Invalid Scope',
-  [ArbitrarySignError.ErrorFailedDecoding]: 'Failed decoding',
-  [ArbitrarySignError.ErrorInvalidSigner]: 'Invalid Signer',
-  [ArbitrarySignError.ErrorMissingDomain]: 'Missing Domain',
-  [ArbitrarySignError.ErrorMissingAuthenticatedData]:
-    'Missing Authentication Data',
-  [ArbitrarySignError.ErrorBadJson]: 'Bad JSON',
-  [ArbitrarySignError.ErrorFailedDomainAuth]: 'Failed Domain Auth',
-  [ArbitrarySignError.ErrorFailedHdPath]: 'Failed HD Path',
+// Dashboard commands, sent with their own CLA
+const INS_APP_INFO = 0x01
+const INS_DEVICE_INFO = 0x01
+
+const CAPABILITY_FEATURES: Record<AppCapability, string> = {
+  signArbitrary: 'signData',
+  multiPathSigning: 'Signing by path',
+  programSigning: 'Program signing',
 }
 
+// Answers of an app that does not know an instruction
+const UNKNOWN_INSTRUCTION_CODES: number[] = [
+  LedgerError.InstructionNotSupported,
+  LedgerError.AppDoesNotSeemToBeOpen,
+]
+
+// Add this constant for the default signing path
+const DEFAULT_SIGN_DATA_PATH = "m/44'/283'/0'/0/0"
+
 export class AlgorandApp extends BaseApp {
   static _INS = {
     GET_VERSION: 0x00 as number,
@@ -67,6 +129,9 @@ export class AlgorandApp extends BaseApp {
     GET_ADDRESS: 0x04 as number,
     SIGN_MSGPACK: 0x08 as number,
     SIGN_ARBITRARY: 0x10 as number,
+    // Experimental: not in released app versions nor the app's APDU spec,
+    // see EXPERIMENTAL_CAPABILITIES
+    SIGN_PROGRAM: 0x11 as number,
   }
 
   static _params = {
@@ -76,6 +141,9 @@ export class AlgorandApp extends BaseApp {
     p1ValuesSignLegacy: {
       P1_FIRST: 0x00 as 0,
       P1_FIRST_ACCOUNT_ID: 0x01 as 1,
+      // Experimental: first chunk prefixed with a full serialized path, see
+      // MULTI_PATH_SIGNING_MIN_VERSION
+      P1_FIRST_PATH: 0x02 as 2,
       P1_MORE: 0x80 as 128,
       P1_WITH_REQUEST_USER_APPROVAL: 0x80 as 128,
     },
@@ -89,11 +157,26 @@ export class AlgorandApp extends BaseApp {
     requiredPathLengths: [5],
   }
 
-  constructor(transport: Transport) {
+  /**
+   * Serializes the calls made on this instance; inspect it to show that an
+   * operation is waiting for the device.
+   */
+  readonly queue = new ExchangeQueue()
+
+  // Last version reported by getVersion, for capability checks
+  private appVersion?: AppVersion
+  private readonly experimental: AlgorandAppOptions['experimental']
+
+  /**
+   * @param options - `experimental` enables capabilities whose APDUs the
+   * app's spec does not define yet, see EXPERIMENTAL_CAPABILITIES.
+   */
+  constructor(transport: Transport, options: AlgorandAppOptions = {}) {
     super(transport, AlgorandApp._params)
     if (!this.transport) {
       throw new Error('Transport has not been defined')
     }
+    this.experimental = options.experimental
   }
 
   protected async sendGenericChunk(
@@ -102,7 +185,8 @@ export class AlgorandApp extends BaseApp {
     chunkIdx: number,
     chunkNum: number,
     chunk: Buffer,
-    p1?: number
+    p1?: number,
+    options: OperationOptions = {}
   ): Promise<ResponsePayload> {
     if (p1 === undefined) {
       p1 =
@@ -117,36 +201,83 @@ export class AlgorandApp extends BaseApp {
       LedgerError.BadKeyHandle,
     ]
 
+    const { signal, onProgress } = options
+    const progress = { ins, chunkIndex: chunkIdx, chunkCount: chunkNum }
+    const last = chunkIdx === chunkNum - 1
     try {
-      const responseBuffer = await this.transport.send(
-        this.CLA,
+      if (last) {
+        throwIfCancelled(signal)
+        onProgress?.({ stage: SigningStage.AwaitingConfirmation, ...progress })
+      }
+      const responseBuffer = await this.send(
         ins,
         p1,
         p2,
         chunk,
+        signal,
         statusList
       )
-      return processResponse(responseBuffer, this.CUSTOM_APP_ERROR_DESCRIPTION)
+      const response = processResponse(
+        responseBuffer,
+        this.CUSTOM_APP_ERROR_DESCRIPTION
+      )
+      onProgress?.({
+        stage: last ? SigningStage.Done : SigningStage.ChunkSent,
+        ...progress,
+      })
+      return response
     } catch (e) {
-      // Extract status code from error
-      const statusCode: number =
-        (e as any).statusCode ||
-        (e as any).returnCode ||
-        LedgerError.UnknownError
-      const message = (e as any).message
-
-      // Create buffer based on whether error has a message
-      let buffer: Buffer
-      if (message?.length > 0) {
-        const messageBytes = Buffer.from(message, 'utf8')
-        buffer = Buffer.concat([messageBytes, Buffer.allocUnsafe(2)])
-        buffer.writeUInt16BE(statusCode, buffer.length - 2)
-      } else {
-        buffer = Buffer.allocUnsafe(2)
-        buffer.writeUInt16BE(statusCode, 0)
-      }
+      throw toDeviceError(e, { ins, chunkIndex: chunkIdx })
+    }
+  }
 
-      return processResponse(buffer, ARBITRARY_SIGN_ERROR_DESCRIPTIONS)
+  // Sends one APDU, unless the operation is cancelled first
+  private async send(
+    ins: number,
+    p1: number,
+    p2: number,
+    data: Buffer,
+    signal?: AbortSignal,
+    statusList?: number[]
+  ): Promise<Buffer> {
+    throwIfCancelled(signal)
+    return this.raceExchange(
+      this.transport.send(this.CLA, ins, p1, p2, data, statusList),
+      signal
+    )
+  }
+
+  // Races an exchange with the signal. The queue slot is held until the
+  // exchange settles, even when the call is cancelled first
+  private raceExchange<T>(exchange: Promise<T>, signal?: AbortSignal) {
+    this.queue.hold(exchange)
+    return raceCancellation(exchange, signal)
+  }
+
+  // Runs a public call as one queued operation, under the signal and timeout
+  // of its options. Nested calls are given `scope`: they run in the same
+  // queue slot and have no timeout of their own
+  private async withOperation<T>(
+    label: string,
+    options: OperationScope,
+    call: (scope: OperationScope) => Promise<T>
+  ): Promise<T> {
+    if (options[QUEUED]) {
+      return call(options)
+    }
+    const operation = startOperation(options)
+    try {
+      return await this.queue.run(
+        () =>
+          call({
+            signal: operation.signal,
+            onProgress: options.onProgress,
+            [QUEUED]: true,
+          }),
+        { label, priority: options.priority, signal: operation.signal }
+      )
+    } finally {
+      operation.done()
     }
   }
 
@@ -190,9 +321,19 @@ export class AlgorandApp extends BaseApp {
     return chunks
   }
 
-  async getVersion(): Promise<ResponseVersion> {
-    const response = await super.getVersion()
-    return {
+  async getVersion(options: OperationOptions = {}): Promise<ResponseVersion> {
+    const response = await this.withOperation(
+      'getVersion',
+      options,
+      async scope => {
+        try {
+          return await this.raceExchange(super.getVersion(), scope.signal)
+        } catch (e) {
+          throw toDeviceError(e, { ins: AlgorandApp._INS.GET_VERSION })
+        }
+      }
+    )
+    const version = {
       ...response,
       returnCode: LedgerError.NoErrors,
       errorMessage: ERROR_DESCRIPTION[LedgerError.NoErrors],
@@ -200,55 +341,288 @@ export class AlgorandApp extends BaseApp {
       return_code: LedgerError.NoErrors,
       error_message: ERROR_DESCRIPTION[LedgerError.NoErrors],
     } as ResponseVersion
+    const { major, minor, patch } = version
+    this.appVersion = { major, minor, patch }
+    return version
   }
 
+  /**
+   * Returns the name and version of the open app and the device state flags,
+   * with the dashboard GET_APP_AND_VERSION command (CLA 0xb0).
+   */
+  async getAppInfo(options: OperationOptions = {}): Promise<ResponseAppInfo> {
+    const info = await this.withOperation(
+      'getAppInfo',
+      options,
+      async scope => {
+        try {
+          return await this.raceExchange(super.appInfo(), scope.signal)
+        } catch (e) {
+          throw toDeviceError(e, { ins: INS_APP_INFO })
+        }
+      }
+    )
+    return {
+      appName: info.appName ?? '',
+      appVersion: info.appVersion ?? '',
+      flagLen: info.flagLen ?? 0,
+      flagsValue: info.flagsValue ?? 0,
+      flagRecovery: info.flagRecovery ?? false,
+      flagSignedMcuCode: info.flagSignedMcuCode ?? false,
+      flagOnboarded: info.flagOnboarded ?? false,
+      flagPINValidated: info.flagPINValidated ?? false,
+      returnCode: LedgerError.NoErrors,
+      errorMessage: ERROR_DESCRIPTION[LedgerError.NoErrors],
+      // Legacy
+      return_code: LedgerError.NoErrors,
+      error_message: ERROR_DESCRIPTION[LedgerError.NoErrors],
+    }
+  }
+
+  /**
+   * Returns the target ID and firmware versions of the device, with the
+   * dashboard GET_DEVICE_INFO command (CLA 0xe0). The device only answers it
+   * from the dashboard, not while an app is open.
+   * @throws {LedgerDeviceError} With status 0x6e00 and a hint to close the
+   * app when an app is open.
+   */
+  async getDeviceInfo(
+    options: OperationOptions = {}
+  ): Promise<ResponseDeviceInfo> {
+    const info = await this.withOperation(
+      'getDeviceInfo',
+      options,
+      async scope => {
+        try {
+          return await this.raceExchange(super.deviceInfo(), scope.signal)
+        } catch (e) {
+          const error = toDeviceError(e, { ins: INS_DEVICE_INFO })
+          if (error instanceof AppNotOpenError) {
+            throw new LedgerDeviceError(
+              error.statusCode,
+              { ins: INS_DEVICE_INFO },
+              'Device info is only available from the dashboard; close the app.'
+            )
+          }
+          throw error
+        }
+      }
+    )
+    return {
+      targetId: info.targetId ?? '',
+      seVersion: info.seVersion ?? '',
+      flag: info.flag ?? '',
+      mcuVersion: info.mcuVersion ?? '',
+      returnCode: LedgerError.NoErrors,
+      errorMessage: ERROR_DESCRIPTION[LedgerError.NoErrors],
+      // Legacy
+      return_code: LedgerError.NoErrors,
+      error_message: ERROR_DESCRIPTION[LedgerError.NoErrors],
+    }
+  }
+
+  /**
+   * Returns the public key and address of a key on the device.
+   * @param path - Key to derive, defaults to account 0. Paths other than
+   * m/44'/283'/<account>'/0/0 need the experimental multiPathSigning
+   * capability.
+   * @throws {Error} If the path is invalid.
+   */
   async getAddressAndPubKey(
-    accountId = 0,
-    requireConfirmation = false
+    path: DerivationPath = 0,
+    requireConfirmation = false,
+    options: OperationOptions = {}
   ): Promise<ResponseAddress> {
     const p1 = requireConfirmation
       ? AlgorandApp._params.p1Values.SHOW_ADDRESS_IN_DEVICE
       : AlgorandApp._params.p1Values.ONLY_RETRIEVE
-    const data = Buffer.alloc(4)
-    data.writeUInt32BE(accountId)
+    const indexes = toAlgorandPath(path)
 
-    try {
-      const responseBuffer = await this.transport.send(
-        AlgorandApp._params.cla,
-        AlgorandApp._INS.GET_ADDRESS,
-        p1,
-        0,
-        data
-      )
+    const [pubkey, address] = await this.withOperation(
+      'getAddressAndPubKey',
+      options,
+      async scope => {
+        const data = await this.keyData(indexes, scope)
+        try {
+          const responseBuffer = await this.send(
+            AlgorandApp._INS.GET_ADDRESS,
+            p1,
+            0,
+            data,
+            scope.signal
+          )
 
-      const response = processResponse(responseBuffer)
+          const response = processResponse(responseBuffer)
 
-      const pubkey = response.readBytes(PUBKEYLEN)
-      const address = response.getAvailableBuffer().toString()
+          return [
+            response.readBytes(PUBKEYLEN),
+            response.getAvailableBuffer().toString(),
+          ] as const
+        } catch (e) {
+          throw toDeviceError(e, { ins: AlgorandApp._INS.GET_ADDRESS })
+        }
+      }
+    )
 
-      return {
-        publicKey: Buffer.from(pubkey),
-        address: Buffer.from(address),
-        returnCode: LedgerError.NoErrors,
-        errorMessage: ERROR_DESCRIPTION[LedgerError.NoErrors],
-        // Legacy
-        bech32_address: Buffer.from(address),
-        compressed_pk: Buffer.from(pubkey),
-        return_code: LedgerError.NoErrors,
-        error_message: ERROR_DESCRIPTION[LedgerError.NoErrors],
-      } as ResponseAddress
-    } catch (e) {
-      throw processErrorResponse(e)
+    // The device derives both values; they must describe the same account
+    const expectedAddress = encodeAddress(pubkey)
+    if (address !== expectedAddress) {
+      throw new AddressMismatchError(address, expectedAddress)
+    }
+
+    return {
+      publicKey: Buffer.from(pubkey),
+      address: Buffer.from(address),
+      returnCode: LedgerError.NoErrors,
+      errorMessage: ERROR_DESCRIPTION[LedgerError.NoErrors],
+      // Legacy
+      bech32_address: Buffer.from(address),
+      compressed_pk: Buffer.from(pubkey),
+      return_code: LedgerError.NoErrors,
+      error_message: ERROR_DESCRIPTION[LedgerError.NoErrors],
+    } as ResponseAddress
+  }
+
+  /**
+   * Returns the public keys and addresses of several keys in one queued
+   * operation. With `options.store`, keys already cached for this device are
+   * not fetched again and new ones are saved. The device is identified by
+   * getDeviceFingerprint on its target ID and account 0, which takes two
+   * requests; keys cached for another or reset device are discarded.
+   * @param range - Accounts to export, or any list of paths.
+   * @throws {Error} If a path is invalid.
+   */
+  async getAddresses(
+    range: AccountRange | DerivationPath[],
+    options: AddressExportOptions = {}
+  ): Promise<ResponseAddresses> {
+    const paths = (Array.isArray(range) ? range : accountsOf(range)).map(
+      formatDerivationPath
+    )
+    const { store } = options
+
+    const { fingerprint, addresses } = await this.withOperation(
+      'getAddresses',
+      options,
+      async scope => {
+        const fetched = new Map<string, ResponseAddress>()
+        let cache: AddressCacheSnapshot | undefined
+        if (store) {
+          const { targetId } = await this.getVersion(scope)
+          const anchor = await this.getAddressAndPubKey(0, false, scope)
+          fetched.set(formatDerivationPath(0), anchor)
+          cache = await readAddressCache(
+            store,
+            getDeviceFingerprint(targetId, anchor.publicKey)
+          )
+        }
+
+        const entries: AddressEntry[] = []
+        for (const path of paths) {
+          const hit = fetched.has(path) ? undefined : cache?.entries[path]
+          if (hit) {
+            entries.push({
+              path,
+              publicKey: Buffer.from(hit.publicKey, 'hex'),
+              address: hit.address,
+              cached: true,
+            })
+            continue
+          }
+          const response =
+            fetched.get(path) ??
+            (await this.getAddressAndPubKey(path, false, scope))
+          fetched.set(path, response)
+          entries.push({
+            path,
+            publicKey: response.publicKey,
+            address: response.address.toString(),
+            cached: false,
+          })
+        }
+
+        if (store && cache) {
+          const known = Object.keys(cache.entries).length
+          fetched.forEach(({ publicKey, address }, path) => {
+            cache.entries[path] = {
+              publicKey: publicKey.toString('hex'),
+              address: address.toString(),
+            }
+          })
+          if (Object.keys(cache.entries).length !== known) {
+            await store.write(cache)
+          }
+        }
+        return { fingerprint: cache?.fingerprint, addresses: entries }
+      }
+    )
+
+    return {
+      ...(fingerprint === undefined ? {} : { fingerprint }),
+      addresses,
+      returnCode: LedgerError.NoErrors,
+      errorMessage: ERROR_DESCRIPTION[LedgerError.NoErrors],
+      // Legacy
+      return_code: LedgerError.NoErrors,
+      error_message: ERROR_DESCRIPTION[LedgerError.NoErrors],
     }
   }
 
-  async sign(accountId = 0, message: string | Buffer): Promise<ResponseSign> {
-    const chunks = AlgorandApp.prepareChunksFromAccountId(accountId, message)
+  /**
+   * Signs a msgpack-encoded transaction.
+   * @param path - Key that signs, defaults to account 0. Paths other than
+   * m/44'/283'/<account>'/0/0 need the experimental multiPathSigning
+   * capability.
+   * @throws {Error} If the path is invalid.
+   */
+  async sign(
+    path: DerivationPath = 0,
+    message: string | Buffer,
+    options: OperationOptions = {}
+  ): Promise<ResponseSign> {
+    const indexes = toAlgorandPath(path)
+    return this.withOperation('sign', options, scope =>
+      this.signChunked(AlgorandApp._INS.SIGN_MSGPACK, indexes, message, scope)
+    )
+  }
 
-    let p1 =
-      accountId !== 0
-        ? AlgorandApp._params.p1ValuesSignLegacy.P1_FIRST_ACCOUNT_ID
-        : AlgorandApp._params.p1ValuesSignLegacy.P1_FIRST
+  // Returns the GET_ADDRESS / GET_PUBLIC_KEY data addressing a key: the
+  // account ID, which every app version accepts, or the full path
+  private async keyData(path: number[], scope: OperationScope) {
+    const accountId = getPathAccountId(path)
+    if (accountId === undefined) {
+      await this.requireCapability('multiPathSigning', scope)
+      return serializeBip32Path(path)
+    }
+    const data = Buffer.alloc(4)
+    data.writeUInt32BE(accountId)
+    return data
+  }
+
+  // Sends a message with the SIGN_MSGPACK framing (account ID or path prefix,
+  // P1/P2 chunk flags) and returns the signature from the last chunk
+  private async signChunked(
+    ins: number,
+    path: number[],
+    message: string | Buffer,
+    options: OperationScope = {}
+  ): Promise<ResponseSign> {
+    const accountId = getPathAccountId(path)
+    let chunks: Buffer[]
+    let p1: number
+    if (accountId === undefined) {
+      await this.requireCapability('multiPathSigning', options)
+      chunks = this.messageToChunks(
+        Buffer.concat([serializeBip32Path(path), Buffer.from(message)])
+      )
+      p1 = AlgorandApp._params.p1ValuesSignLegacy.P1_FIRST_PATH
+    } else {
+      chunks = AlgorandApp.prepareChunksFromAccountId(accountId, message)
+      p1 =
+        accountId !== 0
+          ? AlgorandApp._params.p1ValuesSignLegacy.P1_FIRST_ACCOUNT_ID
+          : AlgorandApp._params.p1ValuesSignLegacy.P1_FIRST
+    }
 
     let p2 =
       chunks.length > 1
@@ -257,12 +631,13 @@ export class AlgorandApp extends BaseApp {
 
     try {
       let signatureResponse = await this.sendGenericChunk(
-        AlgorandApp._INS.SIGN_MSGPACK,
+        ins,
         p2,
         0,
         chunks.length,
         chunks[0],
-        p1
+        p1,
+        options
       )
 
       for (let i = 1; i < chunks.length; i += 1) {
@@ -271,11 +646,13 @@ export class AlgorandApp extends BaseApp {
             ? AlgorandApp._params.p2Values.P2_MORE_CHUNKS
             : AlgorandApp._params.p2Values.P2_LAST_CHUNK
         signatureResponse = await this.sendGenericChunk(
-          AlgorandApp._INS.SIGN_MSGPACK,
+          ins,
           p2,
           i,
           chunks.length,
-          chunks[i]
+          chunks[i],
+          undefined,
+          options
         )
       }
 
@@ -288,58 +665,414 @@ export class AlgorandApp extends BaseApp {
         error_message: ERROR_DESCRIPTION[LedgerError.NoErrors],
       } as ResponseSign
     } catch (e) {
-      throw processErrorResponse(e)
+      throw toDeviceError(e, { ins })
+    }
+  }
+
+  /**
+   * Signs a transaction and assembles the result into a broadcast-ready
+   * SignedTxn with its transaction ID. `sgnr` is set automatically when the
+   * device key is not the sender (rekeyed accounts).
+   * @param transaction - Typed transaction or msgpack blob.
+   * @param path - Key that signs, defaults to account 0.
+   */
+  async signTransaction(
+    transaction: AlgorandTransaction | Uint8Array,
+    path: DerivationPath = 0,
+    options: OperationOptions = {}
+  ): Promise<ResponseSignTransaction> {
+    const txn =
+      transaction instanceof Uint8Array
+        ? decodeTransaction(transaction)
+        : transaction
+    const indexes = toAlgorandPath(path)
+    return this.withOperation('signTransaction', options, async scope => {
+      const { publicKey } = await this.getAddressAndPubKey(
+        indexes,
+        false,
+        scope
+      )
+      const response = await this.sign(indexes, encodeTransaction(txn), scope)
+      return {
+        ...response,
+        ...createSignedTransaction(txn, response.signature, publicKey),
+        publicKey,
+      }
+    })
+  }
+
+  /**
+   * Signs a TEAL program to delegate a LogicSig. The device signs
+   * "Program" || program, or "MsigProgram" || multisig key || program when
+   * `multisigKey` is given, with the same framing as `sign`.
+   * @param program - Compiled TEAL bytecode.
+   * @param path - Key that delegates, defaults to account 0.
+   * @param multisigKey - Multisig account the device key is a subkey of.
+   * @throws {ExperimentalFeatureError} Unless `experimental.programSigning`
+   * is enabled.
+   * @throws {UnsupportedVersionError} If the app does not support program
+   * signing.
+   */
+  async signProgram(
+    program: Uint8Array,
+    path: DerivationPath = 0,
+    multisigKey?: Uint8Array,
+    options: OperationOptions = {}
+  ): Promise<ResponseSign> {
+    const indexes = toAlgorandPath(path)
+    return this.withOperation('signProgram', options, async scope => {
+      await this.requireCapability('programSigning', scope)
+      return this.signChunked(
+        AlgorandApp._INS.SIGN_PROGRAM,
+        indexes,
+        getProgramSigningPayload(program, multisigKey),
+        scope
+      )
+    })
+  }
+
+  /**
+   * Signs a TEAL program on the device and returns the delegated LogicSig,
+   * with its arguments. With `options.multisig` the device key signs as a
+   * subkey of that multisig; merge the other subkeys' LogicSigs with
+   * `mergeLogicSigs`. Use `createLogicSigTransaction` to build SignedTxns.
+   * @throws {ExperimentalFeatureError} Unless `experimental.programSigning`
+   * is enabled.
+   * @throws {UnsupportedVersionError} If the app does not support program
+   * signing.
+   * @throws {Error} If the device account is not a subkey of the multisig.
+   */
+  async signLogicSig(
+    program: Uint8Array,
+    options: LogicSigOptions = {}
+  ): Promise<ResponseSignLogicSig> {
+    const { args, multisig } = options
+    const indexes = toAlgorandPath(options.path ?? options.accountId ?? 0)
+    const unsigned = createLogicSig(program, args)
+
+    return this.withOperation('signLogicSig', options, async scope => {
+      await this.requireCapability('programSigning', scope)
+
+      const { publicKey } = await this.getAddressAndPubKey(
+        indexes,
+        false,
+        scope
+      )
+      if (multisig) {
+        requireSubkey(multisig, publicKey, indexes)
+      }
+
+      const multisigKey = multisig && multisigPublicKey(multisig)
+      const response = await this.signChunked(
+        AlgorandApp._INS.SIGN_PROGRAM,
+        indexes,
+        getProgramSigningPayload(program, multisigKey),
+        scope
+      )
+      const logicSig = multisig
+        ? appendLogicSigMultisigSignature(
+            unsigned,
+            multisig,
+            publicKey,
+            response.signature
+          )
+        : appendLogicSigSignature(unsigned, publicKey, response.signature)
+      return { ...response, publicKey, logicSig }
+    })
+  }
+
+  /**
+   * Returns what the installed app supports, from its version. Experimental
+   * capabilities are false unless enabled.
+   */
+  async getCapabilities(
+    options: OperationOptions = {}
+  ): Promise<AppCapabilities> {
+    const capabilities = getAppCapabilities(await this.getVersion(options))
+    for (const capability of EXPERIMENTAL_CAPABILITIES) {
+      capabilities[capability] =
+        capabilities[capability] && this.isEnabled(capability)
+    }
+    return capabilities
+  }
+
+  private isEnabled(capability: ExperimentalCapability): boolean {
+    return this.experimental?.[capability] === true
+  }
+
+  // Checks the capability against the last version the app reported, so
+  // that unsupported instructions are never sent
+  private async requireCapability(
+    capability: AppCapability,
+    scope: OperationScope
+  ) {
+    const experimental = EXPERIMENTAL_CAPABILITIES.find(
+      name => name === capability
+    )
+    if (experimental && !this.isEnabled(experimental)) {
+      throw new ExperimentalFeatureError(
+        CAPABILITY_FEATURES[capability],
+        experimental
+      )
+    }
+    const version = this.appVersion ?? (await this.getVersion(scope))
+    if (!getAppCapabilities(version)[capability]) {
+      throw new UnsupportedVersionError(
+        CAPABILITY_FEATURES[capability],
+        formatVersion(version),
+        formatVersion(CAPABILITY_MIN_VERSIONS[capability])
+      )
+    }
+  }
+
+  // An app whose version passed requireCapability may still lack the
+  // instruction: when it answers that it does not know it and still reports
+  // its version, the capability is missing rather than the app closed
+  private async unsupportedBy(
+    error: unknown,
+    capability: AppCapability,
+    scope: OperationScope
+  ): Promise<unknown> {
+    if (
+      !(error instanceof LedgerDeviceError) ||
+      !UNKNOWN_INSTRUCTION_CODES.includes(error.statusCode)
+    ) {
+      return error
+    }
+    let version: AppVersion
+    try {
+      version = await this.getVersion(scope)
+    } catch {
+      return error
+    }
+    return new UnsupportedVersionError(
+      CAPABILITY_FEATURES[capability],
+      formatVersion(version)
+    )
+  }
+
+  /**
+   * Signs an atomic group. The group ID is computed and assigned to every
+   * transaction, then each transaction sent by one of the given device
+   * keys is signed in order. Transactions from other senders are left
+   * unsigned and get a null signature.
+   * @param transactions - Typed transactions or msgpack blobs, in group order.
+   * @param paths - Device keys that may sign, defaults to [0].
+   */
+  async signGroup(
+    transactions: (AlgorandTransaction | Uint8Array)[],
+    paths: DerivationPath[] = [0],
+    options: OperationOptions = {}
+  ): Promise<ResponseSignGroup> {
+    const keyPaths = paths.map(toAlgorandPath)
+    const grouped = assignGroupId(
+      transactions.map(txn =>
+        txn instanceof Uint8Array ? decodeTransaction(txn) : txn
+      )
+    )
+    const blobs = grouped.map(encodeTransaction)
+
+    const signatures = await this.withOperation(
+      'signGroup',
+      options,
+      async scope => {
+        const accounts: { path: number[]; publicKey: Buffer }[] = []
+        for (const path of keyPaths) {
+          const { publicKey } = await this.getAddressAndPubKey(
+            path,
+            false,
+            scope
+          )
+          accounts.push({ path, publicKey })
+        }
+
+        const signed: (Buffer | null)[] = []
+        for (let i = 0; i < grouped.length; i += 1) {
+          const signer = accounts.find(account =>
+            account.publicKey.equals(grouped[i].sender)
+          )
+          if (signer) {
+            const { signature } = await this.sign(signer.path, blobs[i], {
+              ...scope,
+              onProgress: progress =>
+                scope.onProgress?.({
+                  ...progress,
+                  itemIndex: i,
+                  itemCount: grouped.length,
+                }),
+            })
+            signed.push(signature)
+          } else {
+            signed.push(null)
+          }
+        }
+        return signed
+      }
+    )
+
+    return {
+      groupId: Buffer.from(grouped[0].group as Uint8Array),
+      transactions: blobs,
+      signatures,
+      returnCode: LedgerError.NoErrors,
+      errorMessage: ERROR_DESCRIPTION[LedgerError.NoErrors],
+      // Legacy
+      return_code: LedgerError.NoErrors,
+      error_message: ERROR_DESCRIPTION[LedgerError.NoErrors],
     }
   }
 
+  /**
+   * Signs a multisig transaction with the device-held subkey. The device
+   * signs the plain transaction; the signature is returned together with a
+   * partially signed multisig transaction that can be merged with the other
+   * subkeys' signatures using `mergeMultisigTransactions`.
+   * @param transaction - Typed transaction or msgpack blob.
+   * @param multisig - Version, threshold and subkeys of the multisig account.
+   * @param path - Device key holding one of the subkeys.
+   * @throws {Error} If the device key is not a subkey of the multisig.
+   */
+  async signMultisig(
+    transaction: AlgorandTransaction | Uint8Array,
+    multisig: MultisigMetadata,
+    path: DerivationPath = 0,
+    options: OperationOptions = {}
+  ): Promise<ResponseSignMultisig> {
+    const txn =
+      transaction instanceof Uint8Array
+        ? decodeTransaction(transaction)
+        : transaction
+    const unsigned = createMultisigTransaction(txn, multisig)
+    const indexes = toAlgorandPath(path)
+
+    return this.withOperation('signMultisig', options, async scope => {
+      const { publicKey } = await this.getAddressAndPubKey(
+        indexes,
+        false,
+        scope
+      )
+      requireSubkey(multisig, publicKey, indexes)
+
+      const response = await this.sign(indexes, encodeTransaction(txn), scope)
+      return {
+        ...response,
+        publicKey,
+        signedTransaction: appendMultisigSignature(
+          unsigned,
+          publicKey,
+          response.signature
+        ),
+      }
+    })
+  }
+
   /**
    * @deprecated Use getAddressAndPubKey instead
    */
   async getPubkey(
-    accountId = 0,
-    requireConfirmation = false
+    path: DerivationPath = 0,
+    requireConfirmation = false,
+    options: OperationOptions = {}
   ): Promise<ResponseAddress> {
     const p1 = requireConfirmation
       ? AlgorandApp._params.p1Values.SHOW_ADDRESS_IN_DEVICE
       : AlgorandApp._params.p1Values.ONLY_RETRIEVE
-    const data = Buffer.alloc(4)
-    data.writeUInt32BE(accountId)
+    const indexes = toAlgorandPath(path)
 
-    try {
-      const responseBuffer = await this.transport.send(
-        AlgorandApp._params.cla,
-        AlgorandApp._INS.GET_PUBLIC_KEY,
-        p1,
-        0,
-        data
-      )
+    return this.withOperation('getPubkey', options, async scope => {
+      const data = await this.keyData(indexes, scope)
+      try {
+        const responseBuffer = await this.send(
+          AlgorandApp._INS.GET_PUBLIC_KEY,
+          p1,
+          0,
+          data,
+          scope.signal
+        )
 
-      const response = processResponse(responseBuffer)
+        const response = processResponse(responseBuffer)
 
-      const pubkey = response.readBytes(PUBKEYLEN)
-      const address = response.getAvailableBuffer().toString()
+        const pubkey = response.readBytes(PUBKEYLEN)
+        const address = response.getAvailableBuffer().toString()
 
-      return {
-        publicKey: Buffer.from(pubkey),
-        address: Buffer.from(address),
-        returnCode: LedgerError.NoErrors,
-        errorMessage: ERROR_DESCRIPTION[LedgerError.NoErrors],
-        // Legacy
-        bech32_address: Buffer.from(address),
-        compressed_pk: Buffer.from(pubkey),
-        return_code: LedgerError.NoErrors,
-        error_message: ERROR_DESCRIPTION[LedgerError.NoErrors],
-      } as ResponseAddress
-    } catch (e) {
-      throw processErrorResponse(e)
+        return {
+          publicKey: Buffer.from(pubkey),
+          address: Buffer.from(address),
+          returnCode: LedgerError.NoErrors,
+          errorMessage: ERROR_DESCRIPTION[LedgerError.NoErrors],
+          // Legacy
+          bech32_address: Buffer.from(address),
+          compressed_pk: Buffer.from(pubkey),
+          return_code: LedgerError.NoErrors,
+          error_message: ERROR_DESCRIPTION[LedgerError.NoErrors],
+        } as ResponseAddress
+      } catch (e) {
+        throw toDeviceError(e, { ins: AlgorandApp._INS.GET_PUBLIC_KEY })
+      }
+    })
+  }
+
+  /**
+   * Checks a signData request before it is sent for signing, see
+   * validateSignData. When `hdPath` is an account path, the signer is compared
+   * with the public key the device reports for that account; this needs no
+   * confirmation on the device.
+   */
+  async preflightSignData(
+    signingData: StdSigData,
+    metadata: StdSignMetadata,
+    options: OperationOptions = {}
+  ): Promise<SignDataIssue[]> {
+    const accountId = getSignDataAccountId(signingData.hdPath)
+    if (accountId === undefined || signingData.signer.length !== PUBKEYLEN) {
+      return validateSignData(signingData, metadata)
     }
+    const { publicKey } = await this.getAddressAndPubKey(
+      accountId,
+      false,
+      options
+    )
+    return validateSignData(signingData, metadata, publicKey)
   }
 
+  /**
+   * Signs ARC-60 data. With `options.preflight` the request is validated
+   * first and refused without asking the user when the device would reject
+   * it.
+   * @throws {SignDataValidationError} If preflight finds problems.
+   * @throws {UnsupportedVersionError} If the app has no SIGN_ARBITRARY.
+   */
   async signData(
     signingData: StdSigData,
-    metadata: StdSignMetadata
+    metadata: StdSignMetadata,
+    options: SignDataOptions = {}
+  ): Promise<StdSigDataResponse> {
+    return this.withOperation('signData', options, async scope => {
+      await this.requireCapability('signArbitrary', scope)
+      if (options.preflight) {
+        const issues = await this.preflightSignData(
+          signingData,
+          metadata,
+          scope
+        )
+        if (issues.length > 0) {
+          throw new SignDataValidationError(issues)
+        }
+      }
+      try {
+        return await this.sendSignData(signingData, metadata, scope)
+      } catch (e) {
+        throw await this.unsupportedBy(e, 'signArbitrary', scope)
+      }
+    })
+  }
+
+  // Sends a signData request with the SIGN_ARBITRARY INIT/ADD/LAST framing
+  private async sendSignData(
+    signingData: StdSigData,
+    metadata: StdSignMetadata,
+    options: OperationOptions = {}
   ): Promise<StdSigDataResponse> {
-    let dataToEncode
     let decodedData
 
     if (metadata.encoding === 'base64') {
@@ -361,9 +1094,10 @@ export class AlgorandApp extends BaseApp {
     const authDataBuffer = signingData.authenticationData
       ? Buffer.from(signingData.authenticationData)
       : Buffer.from([])
-    const pathBuffer = signingData.hdPath
-      ? this.serializePath(signingData.hdPath)
-      : this.serializePath(DEFAULT_SIGN_DATA_PATH)
+    // The device judges the path itself and answers ErrorFailedHdPath
+    const pathBuffer = serializeBip32Path(
+      parseBip32Path(signingData.hdPath || DEFAULT_SIGN_DATA_PATH)
+    )
 
     const messageSize =
       signerBuffer.length +
@@ -411,7 +1145,8 @@ export class AlgorandApp extends BaseApp {
         0,
         chunks.length + 1,
         firstChunk,
-        AlgorandApp._params.p1ValuesSignArbitrary.P1_INIT
+        AlgorandApp._params.p1ValuesSignArbitrary.P1_INIT,
+        options
       )
 
       for (let i = 0; i < chunks.length; i++) {
@@ -426,13 +1161,14 @@ export class AlgorandApp extends BaseApp {
           i + 1,
           chunks.length + 1,
           chunks[i],
-          p1
+          p1,
+          options
         )
       }
 
       signature = response.readBytes(response.length())
     } catch (e) {
-      throw processErrorResponse(e, ARBITRARY_SIGN_ERROR_DESCRIPTIONS)
+      throw toDeviceError(e, { ins: AlgorandApp._INS.SIGN_ARBITRARY })
     }
 
     return {
@@ -447,6 +1183,25 @@ export class AlgorandApp extends BaseApp {
   }
 }
 
+function accountsOf({ start = 0, count }: AccountRange): number[] {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`Invalid account range: count ${count}`)
+  }
+  return Array.from({ length: count }, (_, i) => start + i)
+}
+
+function requireSubkey(
+  multisig: MultisigMetadata,
+  publicKey: Buffer,
+  indexes: number[]
+) {
+  if (!multisig.publicKeys.some(key => publicKey.equals(key))) {
+    throw new Error(
+      `Key ${formatBip32Path(indexes)} (${encodeAddress(publicKey)}) is not a subkey of the multisig`
+    )
+  }
+}
+
 function serializeEncoding(encoding: string): Buffer {
   switch (encoding) {
     case 'base64':
@@ -0,0 +1,304 @@
+import { sha256 } from '@noble/hashes/sha2'
+import { randomBytes } from '@noble/hashes/utils'
+import { PUBKEYLEN } from './consts'
+import { formatDerivationPath, getPathAccountId } from './path'
+import {
+  ArbitrarySignError,
+  AuthenticationDataOptions,
+  JsonValue,
+  ScopeType,
+  SignDataIssue,
+  SignDataRequest,
+  SignDataRequestOptions,
+  StdSigData,
+  StdSignMetadata,
+} from './types'
+
+const REQUEST_ID_BYTES = 16
+const BASE64 =
+  /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/
+const DEFAULT_HD_PATH = "m/44'/283'/0'/0/0"
+// In unicode mode, only surrogates outside a pair match
+const LONE_SURROGATE = /\p{Surrogate}/u
+
+// RFC 8785 has no escape for a lone surrogate, so it is not valid I-JSON
+function canonicalizeString(value: string, path: string): string {
+  if (LONE_SURROGATE.test(value)) {
+    throw new Error(`Invalid JSON at ${path}: unpaired surrogate`)
+  }
+  return JSON.stringify(value)
+}
+
+function canonicalize(value: unknown, path: string): string {
+  if (value === null || typeof value === 'boolean') {
+    return JSON.stringify(value)
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid JSON at ${path}: ${value} is not finite`)
+    }
+    // ECMAScript number serialization, as RFC 8785 requires
+    return JSON.stringify(value)
+  }
+  if (typeof value === 'string') {
+    return canonicalizeString(value, path)
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item, i) => canonicalize(item, `${path}[${i}]`)).join(',')}]`
+  }
+  if (typeof value === 'object') {
+    const object = value as Record<string, unknown>
+    if (typeof object.toJSON === 'function') {
+      return canonicalize(object.toJSON(), path)
+    }
+    // Default sort compares UTF-16 code units, as RFC 8785 requires
+    const members = Object.keys(object)
+      .filter(key => object[key] !== undefined)
+      .sort()
+      .map(
+        key =>
+          `${canonicalizeString(key, path)}:${canonicalize(object[key], `${path}.${key}`)}`
+      )
+    return `{${members.join(',')}}`
+  }
+  throw new Error(`Invalid JSON at ${path}: unsupported ${typeof value}`)
+}
+
+/**
+ * Serializes a value with the JSON Canonicalization Scheme (RFC 8785):
+ * sorted keys, no whitespace and ECMAScript number formatting. Object
+ * members set to undefined are skipped like in JSON.stringify.
+ * @throws {Error} If the value holds non-finite numbers, bigints, functions,
+ * symbols, undefined array items or strings with unpaired surrogates.
+ */
+export function canonicalizeJson(value: JsonValue): string {
+  return canonicalize(value, '$')
+}
+
+/**
+ * Encodes a request ID for `StdSigData.requestId`: the uppercase hex string
+ * of the ID, base64-encoded. Without an argument a random 16-byte ID is
+ * generated.
+ * @throws {Error} If a string ID is not hex.
+ */
+export function createRequestId(id?: string | Uint8Array): string {
+  let hex: string
+  if (id === undefined) {
+    hex = Buffer.from(randomBytes(REQUEST_ID_BYTES)).toString('hex')
+  } else if (typeof id === 'string') {
+    if (!/^([0-9a-fA-F]{2})+$/.test(id)) {
+      throw new Error('Invalid request ID: expected a hex string')
+    }
+    hex = id
+  } else {
+    hex = Buffer.from(id).toString('hex')
+  }
+  return Buffer.from(hex.toUpperCase()).toString('base64')
+}
+
+/**
+ * Builds the ARC-60 authenticationData for a domain: sha256(domain), which
+ * the device checks against the domain, optionally followed by a flags byte
+ * and a 4-byte big-endian signature counter as in WebAuthn authenticator
+ * data.
+ * @throws {Error} If the domain is empty or the counter is out of range.
+ */
+export function createAuthenticationData(
+  domain: string,
+  options: AuthenticationDataOptions = {}
+): Buffer {
+  if (!domain) {
+    throw new Error('Invalid domain: must not be empty')
+  }
+  const hash = Buffer.from(sha256(Buffer.from(domain, 'utf8')))
+  const { flags, signCount } = options
+  if (flags === undefined && signCount === undefined) {
+    return hash
+  }
+
+  if (
+    flags !== undefined &&
+    (!Number.isInteger(flags) || flags < 0 || flags > 0xff)
+  ) {
+    throw new Error(`Invalid flags: ${flags} is not a byte`)
+  }
+  const count = signCount ?? 0
+  if (!Number.isInteger(count) || count < 0 || count > 0xffffffff) {
+    throw new Error(`Invalid signCount: ${count} is not a uint32`)
+  }
+  const trailer = Buffer.alloc(5)
+  trailer[0] = flags ?? 0
+  trailer.writeUInt32BE(count, 1)
+  return Buffer.concat([hash, trailer])
+}
+
+/**
+ * Builds a `signData` request from a plain JSON object: the data is
+ * canonicalized and base64-encoded, authenticationData is derived from the
+ * domain, the request ID is encoded and hdPath defaults to the account path.
+ * The result passes the checks the device makes (JSON, domain, signer, path).
+ * @throws {Error} If an input is invalid.
+ */
+export function buildSignDataRequest(
+  options: SignDataRequestOptions
+): SignDataRequest {
+  const { data, domain, signer, requestId, accountId = 0 } = options
+  if (signer.length !== PUBKEYLEN) {
+    throw new Error(
+      `Invalid signer: expected ${PUBKEYLEN} bytes, got ${signer.length}`
+    )
+  }
+  let hdPath: string
+  try {
+    hdPath = formatDerivationPath(options.hdPath ?? accountId)
+  } catch (e) {
+    throw new Error(`Invalid hdPath: ${(e as Error).message}`)
+  }
+
+  return {
+    signingData: {
+      data: Buffer.from(canonicalizeJson(data), 'utf8').toString('base64'),
+      signer: Buffer.from(signer),
+      domain,
+      authenticationData: createAuthenticationData(domain, options),
+      ...(requestId === undefined
+        ? {}
+        : {
+            requestId: createRequestId(
+              requestId === true ? undefined : requestId
+            ),
+          }),
+      hdPath,
+    },
+    metadata: { scope: ScopeType.AUTH, encoding: 'base64' },
+  }
+}
+
+/**
+ * Returns the account ID of a signData path of the form
+ * m/44'/283'/<account>'/0/0, the keys every app version reports with
+ * getAddressAndPubKey. Without a path the device signs with account 0.
+ */
+export function getSignDataAccountId(hdPath?: string): number | undefined {
+  try {
+    return getPathAccountId(hdPath || DEFAULT_HD_PATH)
+  } catch {
+    return undefined
+  }
+}
+
+function checkData(data: string): SignDataIssue | undefined {
+  if (!BASE64.test(data)) {
+    return {
+      field: 'data',
+      code: ArbitrarySignError.ErrorFailedDecoding,
+      message: 'data is not valid base64',
+    }
+  }
+  const text = Buffer.from(data, 'base64').toString('utf8')
+  let parsed: JsonValue
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return {
+      field: 'data',
+      code: ArbitrarySignError.ErrorBadJson,
+      message: 'data is not valid JSON',
+    }
+  }
+  if (canonicalizeJson(parsed) !== text) {
+    return {
+      field: 'data',
+      code: ArbitrarySignError.ErrorBadJson,
+      message: 'data is not canonical JSON (RFC 8785), use canonicalizeJson',
+    }
+  }
+  return undefined
+}
+
+/**
+ * Checks a signData request against the rules the device enforces and
+ * returns the problems found, each with the ArbitrarySignError code the
+ * device would answer with. Nothing is sent to the device.
+ * @param publicKey - Key of the account at `hdPath`; when given, the signer
+ * must match it.
+ */
+export function validateSignData(
+  signingData: StdSigData,
+  metadata: StdSignMetadata,
+  publicKey?: Uint8Array
+): SignDataIssue[] {
+  const issues: SignDataIssue[] = []
+  const { signer, domain, authenticationData, hdPath } = signingData
+
+  if (metadata.scope !== ScopeType.AUTH) {
+    issues.push({
+      field: 'scope',
+      code: ArbitrarySignError.ErrorInvalidScope,
+      message: `Unsupported scope ${metadata.scope}, only ScopeType.AUTH is supported`,
+    })
+  }
+  if (metadata.encoding !== 'base64') {
+    issues.push({
+      field: 'encoding',
+      code: ArbitrarySignError.ErrorFailedDecoding,
+      message: `Unsupported encoding "${metadata.encoding}", only base64 is supported`,
+    })
+  } else {
+    const issue = checkData(signingData.data)
+    if (issue) issues.push(issue)
+  }
+
+  if (signer.length !== PUBKEYLEN) {
+    issues.push({
+      field: 'signer',
+      code: ArbitrarySignError.ErrorInvalidSigner,
+      message: `signer must be ${PUBKEYLEN} bytes, got ${signer.length}`,
+    })
+  } else if (publicKey && !Buffer.from(signer).equals(Buffer.from(publicKey))) {
+    issues.push({
+      field: 'signer',
+      code: ArbitrarySignError.ErrorInvalidSigner,
+      message: `signer is not the public key at ${hdPath || DEFAULT_HD_PATH}`,
+    })
+  }
+
+  if (!domain) {
+    issues.push({
+      field: 'domain',
+      code: ArbitrarySignError.ErrorMissingDomain,
+      message: 'domain must not be empty',
+    })
+  }
+  if (authenticationData.length === 0) {
+    issues.push({
+      field: 'authenticationData',
+      code: ArbitrarySignError.ErrorMissingAuthenticatedData,
+      message: 'authenticationData must not be empty',
+    })
+  } else if (
+    domain &&
+    !Buffer.from(sha256(Buffer.from(domain, 'utf8'))).equals(
+      Buffer.from(authenticationData.slice(0, 32))
+    )
+  ) {
+    issues.push({
+      field: 'authenticationData',
+      code: ArbitrarySignError.ErrorFailedDomainAuth,
+      message: 'authenticationData must start with sha256(domain)',
+    })
+  }
+
+  if (hdPath) {
+    try {
+      formatDerivationPath(hdPath)
+    } catch (e) {
+      issues.push({
+        field: 'hdPath',
+        code: ArbitrarySignError.ErrorFailedHdPath,
+        message: `Invalid hdPath: ${(e as Error).message}`,
+      })
+    }
+  }
+  return issues
+}
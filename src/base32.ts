@@ -0,0 +1,39 @@
+// RFC 4648 base32 without padding, as used for addresses and transaction IDs
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export function base32Encode(data: Uint8Array): string {
+  let out = ''
+  let bits = 0
+  let value = 0
+  for (const byte of data) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    out += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+  return out
+}
+
+export function base32Decode(text: string): Buffer {
+  const out: number[] = []
+  let bits = 0
+  let value = 0
+  for (const char of text) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error(`Invalid base32: unexpected character "${char}"`)
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  return Buffer.from(out)
+}
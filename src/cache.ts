@@ -0,0 +1,65 @@
+import { sha256 } from '@noble/hashes/sha2'
+import { encodeAddress } from './address'
+import { PUBKEYLEN } from './consts'
+import { AddressCacheSnapshot, AddressStore } from './types'
+
+const FINGERPRINT_BYTES = 16
+
+/**
+ * Identifies a device and its seed: the SHA-256 of the target ID and a
+ * public key the device derives (account 0 for getAddresses), truncated to
+ * 16 bytes in hex. A different device, or the same one reset with another
+ * seed, gives another fingerprint.
+ */
+export function getDeviceFingerprint(
+  targetId: string,
+  publicKey: Uint8Array
+): string {
+  const digest = sha256(
+    Buffer.concat([Buffer.from(targetId, 'utf8'), Buffer.from(publicKey)])
+  )
+  return Buffer.from(digest.slice(0, FINGERPRINT_BYTES)).toString('hex')
+}
+
+/**
+ * Reads the cached keys of a device. Entries of another device are ignored,
+ * as are entries whose address does not match their public key.
+ */
+export async function readAddressCache(
+  store: AddressStore,
+  fingerprint: string
+): Promise<AddressCacheSnapshot> {
+  const snapshot = await store.read()
+  const entries: AddressCacheSnapshot['entries'] = {}
+  if (snapshot?.fingerprint !== fingerprint) {
+    return { fingerprint, entries }
+  }
+  Object.entries(snapshot.entries).forEach(([path, entry]) => {
+    const publicKey = Buffer.from(entry?.publicKey ?? '', 'hex')
+    if (
+      publicKey.length === PUBKEYLEN &&
+      encodeAddress(publicKey) === entry.address
+    ) {
+      entries[path] = {
+        publicKey: publicKey.toString('hex'),
+        address: entry.address,
+      }
+    }
+  })
+  return { fingerprint, entries }
+}
+
+/**
+ * Keeps the cache for the lifetime of the process.
+ */
+export class MemoryAddressStore implements AddressStore {
+  private snapshot?: AddressCacheSnapshot
+
+  async read(): Promise<AddressCacheSnapshot | undefined> {
+    return this.snapshot && structuredClone(this.snapshot)
+  }
+
+  async write(snapshot: AddressCacheSnapshot): Promise<void> {
+    this.snapshot = structuredClone(snapshot)
+  }
+}
@@ -0,0 +1,730 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'fs/promises'
+import { basename, join } from 'path'
+import { parseArgs } from 'util'
+import type Transport from '@ledgerhq/hw-transport'
+import { encodeAddress } from './address'
+import { AlgorandApp } from './app'
+import { buildSignDataRequest, createAuthenticationData } from './arc60'
+import {
+  AppNotOpenError,
+  DeviceLockedError,
+  DeviceTransportError,
+  InvalidDataError,
+  LedgerDeviceError,
+  OperationCancelledError,
+  SignDataError,
+  SignDataValidationError,
+  UnsupportedVersionError,
+  UserRejectedError,
+  WrongLengthError,
+} from './errors'
+import { logicSigAuthorizer } from './logicsig'
+import { finalizeMultisigTransaction } from './multisig'
+import {
+  getSignedFileName,
+  JsonFileAddressStore,
+  signTransactionFile,
+} from './node'
+import { formatDerivationPath } from './path'
+import {
+  decodeSignedTransaction,
+  encodeTransaction,
+  getTransactionId,
+} from './transaction'
+import { detectTransactionFileFormat, parseTransactionFile } from './txnfile'
+import {
+  DerivationPath,
+  JsonValue,
+  OperationOptions,
+  ScopeType,
+  SignedTransaction,
+  TransactionFileFormat,
+} from './types'
+import { verifySignDataSignature, verifyTransactionSignature } from './verify'
+
+/**
+ * Exit codes of the CLI. Device failures are told apart by the
+ * LedgerDeviceError subclass of their status word.
+ */
+export enum ExitCode {
+  Success = 0,
+  Failure = 1,
+  Usage = 2,
+  InvalidSignature = 3,
+  // 0x6986
+  UserRejected = 10,
+  // 0x6e00, 0x6e01, 0x6511
+  AppNotOpen = 11,
+  // 0x5515, 0x6b0c
+  DeviceLocked = 12,
+  // 0x6700
+  WrongLength = 13,
+  // 0x6984
+  InvalidData = 14,
+  // 0x6988 to 0x698f, or refused by preflight
+  SignDataRejected = 15,
+  UnsupportedVersion = 16,
+  // Any other status word
+  DeviceError = 17,
+  // 0xffff
+  TransportError = 18,
+  Cancelled = 19,
+}
+
+export type TransportName = 'hid' | 'http' | 'emulator'
+
+export interface CliOptions {
+  stdout?: (text: string) => void
+  stderr?: (text: string) => void
+  // Reads LEDGER_ALGORAND_TRANSPORT, LEDGER_ALGORAND_URL and, for the
+  // emulator, LEDGER_ALGORAND_MNEMONIC
+  env?: Record<string, string | undefined>
+  // Replaces the transport selected with --transport, e.g. in tests
+  openTransport?: (name: TransportName, url?: string) => Promise<Transport>
+}
+
+// What `sign-data` writes and `verify` checks; bytes are base64
+export interface SignedDataFile {
+  address: string
+  hdPath: string
+  domain: string
+  data: string
+  signer: string
+  authenticationData: string
+  requestId?: string
+  signature: string
+}
+
+type OptionValues = Record<string, string | boolean | undefined>
+
+interface CommandContext {
+  values: OptionValues
+  positionals: string[]
+  operation: OperationOptions
+  // Undefined for offline commands
+  app?: AlgorandApp
+}
+
+interface CommandResult {
+  // Printed with --json
+  json: unknown
+  // Printed otherwise
+  text: string
+  exitCode?: ExitCode
+}
+
+interface Command {
+  usage: string
+  options: string[]
+  // Offline commands do not open a transport
+  offline?: boolean
+  run(context: CommandContext): Promise<CommandResult>
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UsageError'
+  }
+}
+
+const TRANSPORTS: TransportName[] = ['hid', 'http', 'emulator']
+const FORMATS: TransactionFileFormat[] = ['msgpack', 'base64', 'json']
+const DEFAULT_TRANSPORT: TransportName = 'hid'
+
+const OPTIONS = {
+  transport: { type: 'string' },
+  url: { type: 'string' },
+  json: { type: 'boolean' },
+  timeout: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+  path: { type: 'string' },
+  confirm: { type: 'boolean' },
+  range: { type: 'string' },
+  cache: { type: 'string' },
+  out: { type: 'string' },
+  'out-dir': { type: 'string' },
+  domain: { type: 'string' },
+  'request-id': { type: 'boolean' },
+  format: { type: 'string' },
+} as const
+
+const GLOBAL_OPTIONS = ['transport', 'url', 'json', 'timeout', 'help']
+
+const USAGE = `Usage: ledger-algorand <command> [options]
+
+Commands:
+  version                               Show the Algorand app version
+  address [--path P] [--confirm]        Show an address, optionally on the device
+  addresses --range A-B [--cache FILE]  Export the addresses of accounts A to B
+  sign FILE... [--path P] [--out FILE | --out-dir DIR] [--format F]
+                                        Sign the records of transaction files
+                                        that belong to the key
+  sign-data FILE --domain D [--path P] [--request-id] [--out FILE]
+                                        Sign a JSON document (ARC-60)
+  verify FILE...                        Verify signed transactions and sign-data
+                                        output, without a device
+
+Options:
+  --transport hid|http|emulator         Default: hid, or LEDGER_ALGORAND_TRANSPORT
+  --url URL                             Proxy URL for the http transport
+  --timeout MS                          Time limit of each device call
+  --json                                Print JSON, including errors
+  -h, --help                            Show this help
+
+P is an account number or a path m/44'/283'/<account>'/<change>/<index>.
+F is the format of the signed file: msgpack, base64 or json; by default the
+format of the input.
+`
+
+function toPath(value: OptionValues[string]): DerivationPath {
+  if (value === undefined) {
+    return 0
+  }
+  return /^\d+$/.test(String(value)) ? Number(value) : String(value)
+}
+
+function parseRange(value: OptionValues[string]) {
+  const match = /^(\d+)(?:-(\d+))?$/.exec(String(value ?? ''))
+  if (!match) {
+    throw new UsageError(`Invalid --range ${value}: expected A-B`)
+  }
+  const start = Number(match[1])
+  const end = Number(match[2] ?? match[1])
+  if (end < start) {
+    throw new UsageError(`Invalid --range ${value}: ${end} is before ${start}`)
+  }
+  return { start, count: end - start + 1 }
+}
+
+function parseTimeout(value: OptionValues[string]) {
+  if (value === undefined) {
+    return undefined
+  }
+  const timeout = Number(value)
+  if (!Number.isInteger(timeout) || timeout <= 0) {
+    throw new UsageError(`Invalid --timeout ${value}: expected milliseconds`)
+  }
+  return timeout
+}
+
+function requireValue(values: OptionValues, name: string): string {
+  const value = values[name]
+  if (typeof value !== 'string') {
+    throw new UsageError(`Missing --${name}`)
+  }
+  return value
+}
+
+// Returns why a signed transaction is not valid, if it is not. The program
+// of a LogicSig is not evaluated.
+function checkSignedTransaction(stxn: SignedTransaction): string | undefined {
+  const authorizer = Buffer.from(stxn.authAddress ?? stxn.transaction.sender)
+  try {
+    if (stxn.signature) {
+      const blob = encodeTransaction(stxn.transaction)
+      return verifyTransactionSignature(blob, stxn.signature, authorizer)
+        ? undefined
+        : `signature is not from ${encodeAddress(authorizer)}`
+    }
+    if (stxn.multisig) {
+      finalizeMultisigTransaction(stxn)
+      return undefined
+    }
+    if (stxn.logicSig) {
+      return logicSigAuthorizer(stxn.logicSig, authorizer).equals(authorizer)
+        ? undefined
+        : `LogicSig does not authorize ${encodeAddress(authorizer)}`
+    }
+  } catch (e) {
+    return (e as Error).message
+  }
+  return 'not signed'
+}
+
+function checkSignedData(file: SignedDataFile): string | undefined {
+  const signer = Buffer.from(file.signer, 'base64')
+  const authenticationData = Buffer.from(file.authenticationData, 'base64')
+  if (file.address !== undefined && file.address !== encodeAddress(signer)) {
+    return `signer is not ${file.address}`
+  }
+  const domainHash = createAuthenticationData(file.domain)
+  if (!authenticationData.subarray(0, domainHash.length).equals(domainHash)) {
+    return `authenticationData is not bound to ${file.domain}`
+  }
+  const valid = verifySignDataSignature(
+    {
+      data: file.data,
+      signer,
+      domain: file.domain,
+      authenticationData,
+      signature: Buffer.from(file.signature, 'base64'),
+    },
+    { scope: ScopeType.AUTH, encoding: 'base64' }
+  )
+  return valid ? undefined : `signature is not from ${encodeAddress(signer)}`
+}
+
+function label({ file, index }: { file: string; index?: number }) {
+  return index === undefined ? file : `${file}[${index}]`
+}
+
+async function verifyFile(file: string) {
+  const content = await readFile(file)
+  if (detectTransactionFileFormat(content) === 'json') {
+    const parsed = JSON.parse(content.toString('utf8'))
+    // Output of sign-data, rather than transaction records
+    if (typeof parsed?.domain === 'string') {
+      const signed = parsed as SignedDataFile
+      ;['data', 'signer', 'authenticationData', 'signature'].forEach(field => {
+        if (typeof signed[field as keyof SignedDataFile] !== 'string') {
+          throw new Error(`${file} is missing ${field}`)
+        }
+      })
+      const reason = checkSignedData(signed)
+      return [
+        {
+          file,
+          type: 'signData',
+          valid: reason === undefined,
+          signer: encodeAddress(Buffer.from(signed.signer, 'base64')),
+          ...(reason === undefined ? {} : { reason }),
+        },
+      ]
+    }
+  }
+
+  let records: SignedTransaction[]
+  try {
+    records = parseTransactionFile(content)
+  } catch (e) {
+    throw new Error(`${file}: ${(e as Error).message}`)
+  }
+  return records.map((stxn, index) => {
+    const reason = checkSignedTransaction(stxn)
+    return {
+      file,
+      index,
+      type: 'transaction',
+      valid: reason === undefined,
+      txId: getTransactionId(stxn.transaction),
+      signer: encodeAddress(stxn.authAddress ?? stxn.transaction.sender),
+      ...(reason === undefined ? {} : { reason }),
+    }
+  })
+}
+
+const COMMANDS: Record<string, Command> = {
+  version: {
+    usage: 'version',
+    options: [],
+    async run({ app, operation }) {
+      const { major, minor, patch, testMode, deviceLocked, targetId } = await (
+        app as AlgorandApp
+      ).getVersion(operation)
+      const version = `${major}.${minor}.${patch}`
+      return {
+        json: {
+          version,
+          major,
+          minor,
+          patch,
+          testMode,
+          deviceLocked,
+          targetId,
+        },
+        text: `Algorand app ${version}${testMode ? ' (test mode)' : ''}`,
+      }
+    },
+  },
+
+  address: {
+    usage: 'address [--path P] [--confirm]',
+    options: ['path', 'confirm'],
+    async run({ app, values, operation }) {
+      const path = toPath(values.path)
+      const { publicKey, address } = await (
+        app as AlgorandApp
+      ).getAddressAndPubKey(path, values.confirm === true, operation)
+      return {
+        json: {
+          path: formatDerivationPath(path),
+          address: address.toString(),
+          publicKey: publicKey.toString('hex'),
+        },
+        text: address.toString(),
+      }
+    },
+  },
+
+  addresses: {
+    usage: 'addresses --range A-B [--cache FILE]',
+    options: ['range', 'cache'],
+    async run({ app, values, operation }) {
+      const range = parseRange(requireValue(values, 'range'))
+      const store =
+        typeof values.cache === 'string'
+          ? new JsonFileAddressStore(values.cache)
+          : undefined
+      const { fingerprint, addresses } = await (
+        app as AlgorandApp
+      ).getAddresses(range, { ...operation, store })
+      const entries = addresses.map(({ path, publicKey, address, cached }) => ({
+        path,
+        address,
+        publicKey: publicKey.toString('hex'),
+        cached,
+      }))
+      return {
+        json: { ...(fingerprint ? { fingerprint } : {}), addresses: entries },
+        text: entries
+          .map(({ path, address }) => `${path} ${address}`)
+          .join('\n'),
+      }
+    },
+  },
+
+  sign: {
+    usage: 'sign FILE... [--path P] [--out FILE | --out-dir DIR] [--format F]',
+    options: ['path', 'out', 'out-dir', 'format'],
+    async run({ app, values, positionals, operation }) {
+      if (positionals.length === 0) {
+        throw new UsageError('Missing transaction file')
+      }
+      if (values.out !== undefined && positionals.length > 1) {
+        throw new UsageError('--out takes a single transaction file')
+      }
+      const format = values.format as TransactionFileFormat | undefined
+      if (format !== undefined && !FORMATS.includes(format)) {
+        throw new UsageError(
+          `Unknown format ${format}: expected ${FORMATS.join(', ')}`
+        )
+      }
+      const path = toPath(values.path)
+      const outDir = values['out-dir'] as string | undefined
+      const files = []
+      for (const input of positionals) {
+        const output =
+          (values.out as string | undefined) ??
+          (outDir === undefined
+            ? undefined
+            : join(outDir, basename(getSignedFileName(input))))
+        const result = await signTransactionFile(app as AlgorandApp, input, {
+          ...operation,
+          paths: [path],
+          output,
+          format,
+        })
+        files.push({
+          input,
+          output: result.output,
+          format: result.format,
+          records: result.records.length,
+          signed: result.signed.map(i => ({
+            index: i,
+            txId: getTransactionId(
+              decodeSignedTransaction(result.records[i]).transaction
+            ),
+          })),
+        })
+      }
+      return {
+        json: { files },
+        text: files
+          .map(
+            ({ output, records, signed }) =>
+              `${output}: signed ${signed.length} of ${records}${signed
+                .map(({ txId }) => `\n  ${txId}`)
+                .join('')}`
+          )
+          .join('\n'),
+      }
+    },
+  },
+
+  'sign-data': {
+    usage: 'sign-data FILE --domain D [--path P] [--request-id] [--out FILE]',
+    options: ['path', 'domain', 'request-id', 'out'],
+    async run({ app, values, positionals, operation }) {
+      if (positionals.length !== 1) {
+        throw new UsageError('Expected one JSON file')
+      }
+      const domain = requireValue(values, 'domain')
+      const [file] = positionals
+      let data: JsonValue
+      try {
+        data = JSON.parse(await readFile(file, 'utf8'))
+      } catch (e) {
+        throw new Error(`${file} is not JSON: ${(e as Error).message}`)
+      }
+
+      const path = toPath(values.path)
+      const device = app as AlgorandApp
+      const { publicKey, address } = await device.getAddressAndPubKey(
+        path,
+        false,
+        operation
+      )
+      const { signingData, metadata } = buildSignDataRequest({
+        data,
+        domain,
+        signer: publicKey,
+        hdPath: path,
+        requestId: values['request-id'] === true || undefined,
+      })
+      const response = await device.signData(signingData, metadata, {
+        ...operation,
+        preflight: true,
+      })
+
+      const signed: SignedDataFile = {
+        address: address.toString(),
+        hdPath: response.hdPath as string,
+        domain: response.domain,
+        data: response.data,
+        signer: Buffer.from(response.signer).toString('base64'),
+        authenticationData: Buffer.from(response.authenticationData).toString(
+          'base64'
+        ),
+        ...(response.requestId ? { requestId: response.requestId } : {}),
+        signature: Buffer.from(response.signature).toString('base64'),
+      }
+      const content = JSON.stringify(signed, null, 2)
+      if (typeof values.out === 'string') {
+        await writeFile(values.out, `${content}\n`)
+      }
+      return {
+        json: signed,
+        text: typeof values.out === 'string' ? signed.signature : content,
+      }
+    },
+  },
+
+  verify: {
+    usage: 'verify FILE...',
+    options: [],
+    offline: true,
+    async run({ positionals }) {
+      if (positionals.length === 0) {
+        throw new UsageError('Missing file to verify')
+      }
+      const results = []
+      for (const file of positionals) {
+        results.push(...(await verifyFile(file)))
+      }
+      const valid = results.every(result => result.valid)
+      return {
+        json: { valid, files: results },
+        text: results
+          .map(result =>
+            result.valid
+              ? `${label(result)}: valid (${result.signer})`
+              : `${label(result)}: invalid, ${result.reason}`
+          )
+          .join('\n'),
+        exitCode: valid ? ExitCode.Success : ExitCode.InvalidSignature,
+      }
+    },
+  },
+}
+
+// `packageName` is the optional package that `name` needs
+async function loadModule(name: string, packageName = name): Promise<unknown> {
+  try {
+    return await import(name)
+  } catch (e) {
+    const { code } = e as { code?: string }
+    if (code === 'MODULE_NOT_FOUND' || code === 'ERR_MODULE_NOT_FOUND') {
+      throw new Error(
+        `${packageName} is not installed: npm install ${packageName}`
+      )
+    }
+    throw e
+  }
+}
+
+/**
+ * Opens the transport selected with --transport. The hid and http transports
+ * are optional packages, loaded when used, and so is the emulator, which needs
+ * bip39 and derives its keys from LEDGER_ALGORAND_MNEMONIC.
+ * @throws {Error} If the transport cannot be opened.
+ */
+export async function openTransport(
+  name: TransportName,
+  url?: string,
+  env: Record<string, string | undefined> = process.env
+): Promise<Transport> {
+  switch (name) {
+    case 'hid': {
+      const { default: TransportNodeHid } = (await loadModule(
+        '@ledgerhq/hw-transport-node-hid'
+      )) as { default: { create(): Promise<Transport> } }
+      return TransportNodeHid.create()
+    }
+    case 'http': {
+      if (!url) {
+        throw new UsageError('The http transport needs --url')
+      }
+      const { default: withStaticURLs } = (await loadModule(
+        '@ledgerhq/hw-transport-http'
+      )) as {
+        default: (urls: string[]) => { open(url: string): Promise<Transport> }
+      }
+      return withStaticURLs([url]).open(url)
+    }
+    case 'emulator': {
+      const mnemonic = env.LEDGER_ALGORAND_MNEMONIC
+      if (!mnemonic) {
+        throw new UsageError('The emulator needs LEDGER_ALGORAND_MNEMONIC')
+      }
+      const { EmulatorTransport } = (await loadModule(
+        './testing',
+        'bip39'
+      )) as typeof import('./testing')
+      return new EmulatorTransport({ mnemonic })
+    }
+  }
+}
+
+/**
+ * Maps an error to the exit code of the CLI.
+ */
+export function getExitCode(error: unknown): ExitCode {
+  if (error instanceof UsageError) return ExitCode.Usage
+  if (error instanceof OperationCancelledError) return ExitCode.Cancelled
+  if (error instanceof UnsupportedVersionError) {
+    return ExitCode.UnsupportedVersion
+  }
+  if (error instanceof SignDataValidationError) {
+    return ExitCode.SignDataRejected
+  }
+  if (!(error instanceof LedgerDeviceError)) return ExitCode.Failure
+  if (error instanceof UserRejectedError) return ExitCode.UserRejected
+  if (error instanceof AppNotOpenError) return ExitCode.AppNotOpen
+  if (error instanceof DeviceLockedError) return ExitCode.DeviceLocked
+  if (error instanceof WrongLengthError) return ExitCode.WrongLength
+  if (error instanceof InvalidDataError) return ExitCode.InvalidData
+  if (error instanceof SignDataError) return ExitCode.SignDataRejected
+  if (error instanceof DeviceTransportError) return ExitCode.TransportError
+  return ExitCode.DeviceError
+}
+
+function describeError(error: unknown) {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error) }
+  }
+  const { statusCode, hint, returnCode } = error as {
+    statusCode?: number
+    hint?: string
+    returnCode?: number
+  }
+  const code = statusCode ?? returnCode
+  return {
+    name: error.name,
+    message: error.message,
+    ...(code === undefined ? {} : { returnCode: code }),
+    ...(hint === undefined ? {} : { hint }),
+  }
+}
+
+/**
+ * Runs the `ledger-algorand` command line and returns its exit code. Results
+ * go to stdout, as JSON with --json; errors go to stderr, or to stdout as
+ * `{"error": ...}` with --json.
+ */
+export async function runCli(
+  argv: string[],
+  options: CliOptions = {}
+): Promise<ExitCode> {
+  const stdout = options.stdout ?? (text => process.stdout.write(text))
+  const stderr = options.stderr ?? (text => process.stderr.write(text))
+  const env = options.env ?? process.env
+  let json = argv.includes('--json')
+  let transport: Transport | undefined
+
+  try {
+    let parsed
+    try {
+      parsed = parseArgs({
+        args: argv,
+        options: OPTIONS,
+        allowPositionals: true,
+      })
+    } catch (e) {
+      throw new UsageError((e as Error).message)
+    }
+    const { values, positionals } = parsed
+    json = values.json === true
+    const [name, ...args] = positionals
+    if (values.help || name === 'help') {
+      stdout(USAGE)
+      return ExitCode.Success
+    }
+    const command = name === undefined ? undefined : COMMANDS[name]
+    if (!command) {
+      throw new UsageError(
+        name === undefined ? 'Missing command' : `Unknown command ${name}`
+      )
+    }
+    Object.keys(values).forEach(option => {
+      if (
+        !GLOBAL_OPTIONS.includes(option) &&
+        !command.options.includes(option)
+      ) {
+        throw new UsageError(
+          `--${option} does not apply to ${name}; usage: ${command.usage}`
+        )
+      }
+    })
+
+    const operation = { timeout: parseTimeout(values.timeout) }
+    let app: AlgorandApp | undefined
+    if (!command.offline) {
+      const transportName = (values.transport ??
+        env.LEDGER_ALGORAND_TRANSPORT ??
+        DEFAULT_TRANSPORT) as TransportName
+      if (!TRANSPORTS.includes(transportName)) {
+        throw new UsageError(
+          `Unknown transport ${transportName}: expected ${TRANSPORTS.join(', ')}`
+        )
+      }
+      const url = values.url ?? env.LEDGER_ALGORAND_URL
+      transport = await (options.openTransport
+        ? options.openTransport(transportName, url)
+        : openTransport(transportName, url, env))
+      app = new AlgorandApp(transport)
+    }
+
+    const result = await command.run({
+      values,
+      positionals: args,
+      operation,
+      app,
+    })
+    stdout(`${json ? JSON.stringify(result.json, null, 2) : result.text}\n`)
+    return result.exitCode ?? ExitCode.Success
+  } catch (error) {
+    const described = describeError(error)
+    if (json) {
+      stdout(`${JSON.stringify({ error: described }, null, 2)}\n`)
+    } else {
+      stderr(`Error: ${described.message}\n`)
+      if (described.hint) {
+        stderr(`${described.hint}\n`)
+      }
+      if (error instanceof UsageError) {
+        stderr(`\n${USAGE}`)
+      }
+    }
+    return getExitCode(error)
+  } finally {
+    await transport?.close()
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code
+  })
+}
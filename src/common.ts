@@ -180,97 +180,3 @@ export async function getVersion(transport: Transport) {
     }
   }, processErrorResponse)
 }
-
-const HARDENED = 0x80000000
-
-export function serializePath(path: string | number[]): any {
-  if (!path) {
-    throw new Error('Invalid path.')
-  }
-
-  const numericPath = []
-  const buf = Buffer.alloc(20)
-
-  switch (typeof path) {
-    case 'string': {
-      if (!path.startsWith('m')) {
-        throw new Error('Path should start with "m" (e.g "m/44\'/1\'/5\'/0/3")')
-      }
-
-      const pathArray = path.split('/')
-      if (pathArray.length !== 6) {
-        throw new Error(
-          "Invalid path. . It should be a BIP44 path (e.g \"m/44'/1'/5'/0/3\")"
-        )
-      }
-
-      for (let i = 1; i < pathArray.length; i += 1) {
-        let value = 0
-        let hardening = 0
-
-        if (pathArray[i].endsWith("'")) {
-          hardening = HARDENED
-          value = Number(pathArray[i].slice(0, -1))
-        } else {
-          value = Number(pathArray[i])
-        }
-
-        if (value >= HARDENED) {
-          throw new Error(
-            'Incorrect child value (bigger or equal to 0x80000000)'
-          )
-        }
-
-        value += hardening
-        if (Number.isNaN(value)) {
-          throw new Error(
-            `Invalid path : ${value} is not a number. (e.g "m/44'/1'/5'/0/3")`
-          )
-        }
-        numericPath.push(value)
-        buf.writeUInt32LE(value, 4 * (i - 1))
-      }
-      break
-    }
-    case 'object': {
-      if (path.length != 5) {
-        throw new Error(
-          "Invalid path. It should be a BIP44 path (e.g \"m/44'/1'/5'/0/3\")"
-        )
-      }
-
-      // Check values
-      for (let i = 0; i < path.length; i += 1) {
-        if (typeof path[i] != 'number') {
-          throw new Error(`Invalid path : ${path[i]} is not a number.`)
-        }
-
-        const tmp = Number(path[i])
-        if (Number.isNaN(tmp)) {
-          throw new Error(
-            `Invalid path : ${tmp} is not a number. (e.g "m/44'/1'/5'/0/3")`
-          )
-        }
-
-        // automatic hardening only happens for 0, 1, 2
-        if (i <= 2 && tmp >= HARDENED) {
-          throw new Error(
-            `Incorrect child ${i} value (bigger or equal to 0x80000000)`
-          )
-        }
-      }
-
-      buf.writeUInt32LE(0x80000000 + path[0], 0)
-      buf.writeUInt32LE(0x80000000 + path[1], 4)
-      buf.writeUInt32LE(0x80000000 + path[2], 8)
-      buf.writeUInt32LE(path[3], 12)
-      buf.writeUInt32LE(path[4], 16)
-      break
-    }
-    default:
-      console.log(typeof path)
-      return null
-  }
-
-  return buf
-}
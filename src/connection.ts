@@ -0,0 +1,237 @@
+import Transport from '@ledgerhq/hw-transport'
+import { AlgorandApp } from './app'
+import {
+  AppNotOpenError,
+  DeviceLockedError,
+  DeviceTransportError,
+  OperationCancelledError,
+  toDeviceError,
+} from './errors'
+import { delay, raceCancellation } from './operation'
+import {
+  ConnectionRunOptions,
+  ConnectionState,
+  DerivationPath,
+  LedgerConnectionOptions,
+  ResponseAddress,
+  ResponseVersion,
+} from './types'
+
+const DEFAULT_WAIT_TIMEOUT = 60_000
+const DEFAULT_POLL_INTERVAL = 1000
+const DEFAULT_RETRIES = 3
+const DEFAULT_RETRY_DELAY = 500
+const LOCKED_DEVICE = 0x5515
+
+// Errors that go away once the user reconnects, unlocks or opens the app
+function isConnectionError(
+  error: unknown
+): error is DeviceTransportError | DeviceLockedError | AppNotOpenError {
+  return (
+    error instanceof DeviceTransportError ||
+    error instanceof DeviceLockedError ||
+    error instanceof AppNotOpenError
+  )
+}
+
+function stateOf(error: Error): ConnectionState {
+  if (error instanceof DeviceLockedError) return ConnectionState.DeviceLocked
+  if (error instanceof AppNotOpenError) return ConnectionState.AppNotOpen
+  return ConnectionState.Disconnected
+}
+
+/**
+ * Keeps an AlgorandApp ready across disconnections, a locked device and the
+ * app being closed. Transports come from `createTransport`, called again
+ * whenever the device was lost. Before a call, getVersion checks the device
+ * and, while it is locked or another app is open, is repeated until the user
+ * fixes it or `waitTimeout` runs out; onStateChange reports what the
+ * connection waits for.
+ *
+ * Calls made through run() are retried with backoff only when marked
+ * idempotent. Signing is never retried: the user may already have confirmed
+ * it, so its error is thrown and the next call reconnects.
+ */
+export class LedgerConnection {
+  private app?: AlgorandApp
+  private ready = false
+  private connecting?: Promise<AlgorandApp>
+  private closed = new AbortController()
+  private current = ConnectionState.Disconnected
+
+  constructor(
+    private readonly createTransport: () => Promise<Transport>,
+    private readonly options: LedgerConnectionOptions = {}
+  ) {}
+
+  get state(): ConnectionState {
+    return this.current
+  }
+
+  /**
+   * Returns the app once the device is connected, unlocked and in the
+   * Algorand app, waiting for the user as needed.
+   * @throws {DeviceTransportError | DeviceLockedError | AppNotOpenError} The
+   * last problem seen, when it lasts beyond `waitTimeout`.
+   * @throws {OperationCancelledError} If the signal is aborted.
+   */
+  async connect(options: ConnectionRunOptions = {}): Promise<AlgorandApp> {
+    if (this.app && this.ready) {
+      return this.app
+    }
+    if (!this.connecting) {
+      this.connecting = this.waitUntilReady(this.closed.signal).finally(() => {
+        this.connecting = undefined
+      })
+    }
+    return raceCancellation(this.connecting, options.signal)
+  }
+
+  /**
+   * Runs a call on the app, connecting first. When the device is lost, locked
+   * or leaves the app during the call, an idempotent call is retried after
+   * reconnecting, up to `retries` times; any other call throws, and the next
+   * one reconnects.
+   */
+  async run<T>(
+    call: (app: AlgorandApp) => Promise<T>,
+    options: ConnectionRunOptions = {}
+  ): Promise<T> {
+    const { idempotent = false, signal } = options
+    const { retries = DEFAULT_RETRIES, retryDelay = DEFAULT_RETRY_DELAY } =
+      this.options
+
+    for (let attempt = 0; ; attempt += 1) {
+      const app = await this.connect({ signal })
+      try {
+        return await call(app)
+      } catch (e) {
+        if (!isConnectionError(e)) {
+          throw e
+        }
+        await this.lost(app, e)
+        if (!idempotent || attempt >= retries) {
+          throw e
+        }
+      }
+      await delay(retryDelay * 2 ** attempt, signal)
+    }
+  }
+
+  /**
+   * AlgorandApp.getVersion, retried after reconnecting.
+   */
+  getVersion(options: ConnectionRunOptions = {}): Promise<ResponseVersion> {
+    return this.run(app => app.getVersion({ signal: options.signal }), {
+      idempotent: true,
+      ...options,
+    })
+  }
+
+  /**
+   * AlgorandApp.getAddressAndPubKey, retried after reconnecting unless the
+   * address is shown on the device for the user to confirm.
+   */
+  getAddressAndPubKey(
+    path: DerivationPath = 0,
+    showAddrInDevice = false,
+    options: ConnectionRunOptions = {}
+  ): Promise<ResponseAddress> {
+    return this.run(
+      app =>
+        app.getAddressAndPubKey(path, showAddrInDevice, {
+          signal: options.signal,
+        }),
+      { idempotent: !showAddrInDevice, ...options }
+    )
+  }
+
+  /**
+   * Closes the transport and stops waiting for the device. The connection
+   * can be used again afterwards.
+   */
+  async disconnect(): Promise<void> {
+    this.closed.abort(new OperationCancelledError('aborted', 'disconnected'))
+    this.closed = new AbortController()
+    await this.drop()
+    this.setState(ConnectionState.Disconnected)
+  }
+
+  private async waitUntilReady(signal: AbortSignal): Promise<AlgorandApp> {
+    const {
+      waitTimeout = DEFAULT_WAIT_TIMEOUT,
+      pollInterval = DEFAULT_POLL_INTERVAL,
+    } = this.options
+    const start = Date.now()
+
+    for (;;) {
+      let error: Error
+      try {
+        const app = await this.open()
+        const version = await app.getVersion({ signal })
+        if (!version.deviceLocked) {
+          this.ready = true
+          this.setState(ConnectionState.Ready)
+          return app
+        }
+        error = new DeviceLockedError(LOCKED_DEVICE)
+      } catch (e) {
+        if (!isConnectionError(e)) {
+          throw e
+        }
+        error = e
+      }
+
+      if (error instanceof DeviceTransportError) {
+        await this.drop()
+      }
+      this.setState(stateOf(error), error)
+      if (Date.now() - start + pollInterval > waitTimeout) {
+        throw error
+      }
+      await delay(pollInterval, signal)
+    }
+  }
+
+  private async open(): Promise<AlgorandApp> {
+    if (!this.app) {
+      this.setState(ConnectionState.Connecting)
+      try {
+        this.app = new AlgorandApp(await this.createTransport(), this.options)
+      } catch (e) {
+        throw toDeviceError(e)
+      }
+    }
+    return this.app
+  }
+
+  // Called when a call failed for lack of a usable device
+  private async lost(app: AlgorandApp, error: Error) {
+    if (app !== this.app) {
+      return
+    }
+    this.ready = false
+    if (error instanceof DeviceTransportError) {
+      await this.drop()
+    }
+    this.setState(stateOf(error), error)
+  }
+
+  private async drop() {
+    const app = this.app
+    this.app = undefined
+    this.ready = false
+    try {
+      await app?.transport.close()
+    } catch {
+      // The device is already gone
+    }
+  }
+
+  private setState(state: ConnectionState, error?: Error) {
+    if (state !== this.current) {
+      this.current = state
+      this.options.onStateChange?.(state, error)
+    }
+  }
+}
@@ -1 +1,46 @@
+import { AppCapability, AppVersion, ExperimentalCapability } from './types'
+
 export const PUBKEYLEN = 32
+
+// The released Algorand app (2.x) has no program signing instruction. This is
+// the first version expected to expose SIGN_PROGRAM; until the app's APDU
+// spec defines it, program signing is experimental and fails on real devices
+// with UnsupportedVersionError.
+export const PROGRAM_SIGNING_MIN_VERSION: AppVersion = {
+  major: 3,
+  minor: 0,
+  patch: 0,
+}
+
+// SIGN_ARBITRARY (ARC-60 signData) is missing from the 1.x apps, which
+// predate ARC-60. The 2.x release that added it is not pinned down, so 2.x
+// apps are sent the instruction, and an InstructionNotSupported answer is
+// thrown as UnsupportedVersionError.
+export const ARBITRARY_SIGN_MIN_VERSION: AppVersion = {
+  major: 2,
+  minor: 0,
+  patch: 0,
+}
+
+// Signing and address derivation by full BIP32 path. Released versions (2.x)
+// only take an account ID for these; as for SIGN_PROGRAM, this is the first
+// version expected to accept a path, and the path payloads are experimental
+// until the app's APDU spec defines them.
+export const MULTI_PATH_SIGNING_MIN_VERSION: AppVersion = {
+  major: 3,
+  minor: 0,
+  patch: 0,
+}
+
+// Oldest app version offering each capability, see getAppCapabilities
+export const CAPABILITY_MIN_VERSIONS: Record<AppCapability, AppVersion> = {
+  signArbitrary: ARBITRARY_SIGN_MIN_VERSION,
+  multiPathSigning: MULTI_PATH_SIGNING_MIN_VERSION,
+  programSigning: PROGRAM_SIGNING_MIN_VERSION,
+}
+
+// Off unless enabled with AlgorandAppOptions.experimental
+export const EXPERIMENTAL_CAPABILITIES: ExperimentalCapability[] = [
+  'multiPathSigning',
+  'programSigning',
+]
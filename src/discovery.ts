@@ -0,0 +1,131 @@
+import type { AlgorandApp } from './app'
+import { raceCancellation, startOperation, throwIfCancelled } from './operation'
+import { formatDerivationPath } from './path'
+import {
+  DiscoveredAccount,
+  DiscoveryOptions,
+  DiscoveryResult,
+  DiscoveryState,
+} from './types'
+
+const DEFAULT_GAP_LIMIT = 5
+
+function requireLimit(name: string, value: number) {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`Invalid ${name}: ${value}`)
+  }
+}
+
+function initialState(): DiscoveryState {
+  return {
+    account: 0,
+    index: 0,
+    accountGap: 0,
+    addressGap: 0,
+    accounts: [],
+    done: false,
+  }
+}
+
+function copyState(state: DiscoveryState): DiscoveryState {
+  return {
+    ...state,
+    accounts: state.accounts.map(account => ({
+      ...account,
+      addresses: account.addresses.map(address => ({ ...address })),
+    })),
+  }
+}
+
+function accountOf(state: DiscoveryState): DiscoveredAccount | undefined {
+  return state.accounts.find(({ account }) => account === state.account)
+}
+
+// Records the answer for the current address and moves to the next one
+function advance(
+  state: DiscoveryState,
+  used: boolean,
+  path: string,
+  address: string,
+  gapLimit: number,
+  addressGapLimit?: number
+) {
+  if (used) {
+    let account = accountOf(state)
+    if (!account) {
+      account = { account: state.account, addresses: [] }
+      state.accounts.push(account)
+    }
+    account.addresses.push({ path, index: state.index, address })
+    state.addressGap = 0
+  } else {
+    state.addressGap += 1
+  }
+
+  if (addressGapLimit !== undefined && state.addressGap < addressGapLimit) {
+    state.index += 1
+    return
+  }
+  state.accountGap = accountOf(state) ? 0 : state.accountGap + 1
+  state.account += 1
+  state.index = 0
+  state.addressGap = 0
+  state.done = state.accountGap >= gapLimit
+}
+
+/**
+ * Finds the accounts of a device that have been used, as when restoring a
+ * wallet. Accounts m/44'/283'/<account>'/0/<index> are walked in order and
+ * each address is checked with `isUsed`; the scan stops after `gapLimit`
+ * consecutive unused accounts. With `addressGapLimit`, indexes of each
+ * account are walked the same way, which needs the experimental
+ * multiPathSigning capability for indexes above 0.
+ *
+ * The device is only held while an address is fetched, not while `isUsed`
+ * runs. Save the state given to `onCheckpoint` and pass it as `resume` to
+ * continue a scan that was interrupted.
+ * @throws {Error} If a limit is invalid.
+ * @throws {OperationCancelledError} If the scan is aborted or times out.
+ */
+export async function discoverAccounts(
+  app: AlgorandApp,
+  options: DiscoveryOptions
+): Promise<DiscoveryResult> {
+  const {
+    isUsed,
+    gapLimit = DEFAULT_GAP_LIMIT,
+    addressGapLimit,
+    onCheckpoint,
+  } = options
+  requireLimit('gap limit', gapLimit)
+  if (addressGapLimit !== undefined) {
+    requireLimit('address gap limit', addressGapLimit)
+  }
+
+  const state = options.resume ? copyState(options.resume) : initialState()
+  const operation = startOperation(options)
+  const { signal } = operation
+  try {
+    while (!state.done) {
+      const path = formatDerivationPath({
+        account: state.account,
+        index: state.index,
+      })
+      const { address } = await app.getAddressAndPubKey(path, false, {
+        signal,
+        priority: options.priority,
+      })
+      throwIfCancelled(signal)
+      const used = await raceCancellation(
+        Promise.resolve(isUsed(address.toString(), path)),
+        signal
+      )
+      advance(state, used, path, address.toString(), gapLimit, addressGapLimit)
+      await onCheckpoint?.(copyState(state))
+    }
+  } finally {
+    operation.done()
+  }
+
+  return { accounts: copyState(state).accounts, state }
+}
@@ -0,0 +1,416 @@
+import { mnemonicToSeedSync, validateMnemonic } from 'bip39'
+import Transport from '@ledgerhq/hw-transport'
+import { sha256 } from '@noble/hashes/sha2'
+import { encodeAddress } from './address'
+import { LedgerError } from './common'
+import {
+  MULTI_PATH_SIGNING_MIN_VERSION,
+  PROGRAM_SIGNING_MIN_VERSION,
+} from './consts'
+import { deriveKey, ExtendedKey, publicKeyOf, signWithKey } from './hdkey'
+import { decodeTransaction } from './transaction'
+import { AppVersion, ArbitrarySignError } from './types'
+import { compareVersions } from './version'
+
+const CLA = 0x80
+const CLA_DASHBOARD = 0xb0
+const INS_APP_INFO = 0x01
+const APP_NAME = 'Algorand'
+// Onboarded and PIN validated
+const APP_FLAGS = 0x84
+const HARDENED = 0x80000000
+const COIN_TYPE = 283
+const PATH_LEN = 5
+const LOCKED_DEVICE = 0x5515
+const DEFAULT_VERSION = { major: 2, minor: 1, patch: 0 }
+const PROGRAM_TAG = Buffer.from('Program')
+const MSIG_PROGRAM_TAG = Buffer.from('MsigProgram')
+
+const INS = {
+  GET_VERSION: 0x00,
+  GET_PUBLIC_KEY: 0x03,
+  GET_ADDRESS: 0x04,
+  SIGN_MSGPACK: 0x08,
+  SIGN_ARBITRARY: 0x10,
+  // Experimental, see AlgorandApp._INS
+  SIGN_PROGRAM: 0x11,
+}
+
+const P1_SIGN_MSGPACK = {
+  FIRST: 0x00,
+  FIRST_ACCOUNT_ID: 0x01,
+  FIRST_PATH: 0x02,
+  MORE: 0x80,
+}
+const P2_SIGN_MSGPACK = { MORE_CHUNKS: 0x80, LAST_CHUNK: 0x00 }
+const P1_SIGN_ARBITRARY = { INIT: 0x00, ADD: 0x01, LAST: 0x02 }
+
+export interface EmulatorApprovalRequest {
+  ins: number
+  path: number[]
+  // Transaction blob, signData or program payload, or the address shown
+  data: Buffer
+}
+
+export interface EmulatorOptions {
+  mnemonic: string
+  passphrase?: string
+  version?: AppVersion
+  testMode?: boolean
+  deviceLocked?: boolean
+  targetId?: number
+  // Decides what the user does on the device; approves everything by default
+  approve?: (request: EmulatorApprovalRequest) => boolean | Promise<boolean>
+}
+
+class ApduError extends Error {
+  constructor(readonly statusCode: number) {
+    super(`0x${statusCode.toString(16)}`)
+  }
+}
+
+function accountPath(accountId: number): number[] {
+  return [44 + HARDENED, COIN_TYPE + HARDENED, accountId + HARDENED, 0, 0]
+}
+
+function parsePath(
+  data: Buffer,
+  errorCode: number = ArbitrarySignError.ErrorFailedHdPath
+): number[] {
+  if (data.length !== PATH_LEN * 4) {
+    throw new ApduError(errorCode)
+  }
+  const path = []
+  for (let i = 0; i < data.length; i += 4) {
+    path.push(data.readUInt32LE(i))
+  }
+  if (path[0] !== 44 + HARDENED || path[1] !== COIN_TYPE + HARDENED) {
+    throw new ApduError(errorCode)
+  }
+  return path
+}
+
+function ok(data: Uint8Array = Buffer.alloc(0)) {
+  return Buffer.concat([data, Buffer.from([0x90, 0x00])])
+}
+
+function status(code: number) {
+  const buf = Buffer.alloc(2)
+  buf.writeUInt16BE(code)
+  return buf
+}
+
+/**
+ * In-process emulation of the Algorand Ledger app. Keys are derived from a
+ * BIP39 mnemonic with BIP32-Ed25519 and signatures are real, so AlgorandApp
+ * can be exercised end to end without a device.
+ *
+ * Supports GET_VERSION, the dashboard GET_APP_AND_VERSION, GET_PUBLIC_KEY,
+ * GET_ADDRESS, multi-chunk SIGN_MSGPACK
+ * and the INIT/ADD/LAST flow of SIGN_ARBITRARY with its error codes.
+ * SIGN_PROGRAM is answered only when `version` is at least
+ * PROGRAM_SIGNING_MIN_VERSION, and keys are addressed by full path only from
+ * MULTI_PATH_SIGNING_MIN_VERSION. Those follow this library's experimental
+ * APDUs, not a released app, so they say nothing about real devices.
+ */
+export class EmulatorTransport extends Transport {
+  private readonly seed: Buffer
+  private readonly options: EmulatorOptions
+  private chunked?: { ins: number; path: number[]; data: Buffer }
+  private arbitrary?: { path: number[]; data: Buffer }
+
+  constructor(options: EmulatorOptions) {
+    super()
+    if (!validateMnemonic(options.mnemonic)) {
+      throw new Error('Invalid mnemonic')
+    }
+    this.options = options
+    this.seed = mnemonicToSeedSync(options.mnemonic, options.passphrase)
+  }
+
+  /**
+   * Returns the public key the emulated device holds for a path.
+   */
+  getPublicKey(path: number[]): Buffer {
+    return publicKeyOf(this.key(path))
+  }
+
+  async exchange(apdu: Buffer): Promise<Buffer> {
+    const [cla, ins, p1, p2, lc] = apdu
+    const data = apdu.subarray(5, 5 + (lc ?? 0))
+
+    try {
+      if (cla === CLA_DASHBOARD && ins === INS_APP_INFO) {
+        return this.getAppInfo()
+      }
+      if (cla !== CLA) {
+        throw new ApduError(LedgerError.AppDoesNotSeemToBeOpen)
+      }
+      if (this.options.deviceLocked && ins !== INS.GET_VERSION) {
+        throw new ApduError(LOCKED_DEVICE)
+      }
+
+      switch (ins) {
+        case INS.GET_VERSION:
+          return this.getVersion()
+        case INS.GET_PUBLIC_KEY:
+          return ok(this.getPublicKey(this.keyPath(data)))
+        case INS.GET_ADDRESS:
+          return await this.getAddress(p1, data)
+        case INS.SIGN_MSGPACK:
+          return await this.signMsgpack(p1, p2, data)
+        case INS.SIGN_PROGRAM:
+          if (!this.supportsProgramSigning()) {
+            throw new ApduError(LedgerError.InstructionNotSupported)
+          }
+          return await this.signProgram(p1, p2, data)
+        case INS.SIGN_ARBITRARY:
+          return await this.signArbitrary(p1, data)
+        default:
+          throw new ApduError(LedgerError.InstructionNotSupported)
+      }
+    } catch (e) {
+      if (e instanceof ApduError) return status(e.statusCode)
+      throw e
+    }
+  }
+
+  private key(path: number[]): ExtendedKey {
+    return deriveKey(this.seed, path)
+  }
+
+  // Reads the account ID or, from MULTI_PATH_SIGNING_MIN_VERSION, the full
+  // path of GET_PUBLIC_KEY and GET_ADDRESS
+  private keyPath(data: Buffer): number[] {
+    if (data.length === PATH_LEN * 4 && this.supportsMultiPathSigning()) {
+      return parsePath(data, LedgerError.DataIsInvalid)
+    }
+    if (data.length !== 4) {
+      throw new ApduError(LedgerError.WrongLength)
+    }
+    return accountPath(data.readUInt32BE(0))
+  }
+
+  private async confirm(ins: number, path: number[], data: Buffer) {
+    const approve = this.options.approve ?? (() => true)
+    if (!(await approve({ ins, path, data }))) {
+      throw new ApduError(LedgerError.TransactionRejected)
+    }
+  }
+
+  private getVersion() {
+    const { major, minor, patch } = this.options.version ?? DEFAULT_VERSION
+    const response = Buffer.alloc(9)
+    response[0] = this.options.testMode ? 1 : 0
+    response[1] = major
+    response[2] = minor
+    response[3] = patch
+    response[4] = this.options.deviceLocked ? 1 : 0
+    response.writeUInt32BE(this.options.targetId ?? 0x33000004, 5)
+    return ok(response)
+  }
+
+  private getAppInfo() {
+    if (this.options.deviceLocked) {
+      throw new ApduError(LOCKED_DEVICE)
+    }
+    const { major, minor, patch } = this.options.version ?? DEFAULT_VERSION
+    const name = Buffer.from(APP_NAME, 'ascii')
+    const version = Buffer.from(`${major}.${minor}.${patch}`, 'ascii')
+    return ok(
+      Buffer.concat([
+        Buffer.from([0x01, name.length]),
+        name,
+        Buffer.from([version.length]),
+        version,
+        Buffer.from([0x01, APP_FLAGS]),
+      ])
+    )
+  }
+
+  private async getAddress(p1: number, data: Buffer) {
+    const path = this.keyPath(data)
+    const publicKey = this.getPublicKey(path)
+    const address = Buffer.from(encodeAddress(publicKey))
+    if (p1 === 0x01) {
+      await this.confirm(INS.GET_ADDRESS, path, address)
+    }
+    return ok(Buffer.concat([publicKey, address]))
+  }
+
+  private supportsMultiPathSigning() {
+    const version = this.options.version ?? DEFAULT_VERSION
+    return compareVersions(version, MULTI_PATH_SIGNING_MIN_VERSION) >= 0
+  }
+
+  private supportsProgramSigning() {
+    const version = this.options.version ?? DEFAULT_VERSION
+    return compareVersions(version, PROGRAM_SIGNING_MIN_VERSION) >= 0
+  }
+
+  // Assembles SIGN_MSGPACK-style chunks; returns the full message once the
+  // last chunk has been received
+  private collect(ins: number, p1: number, p2: number, data: Buffer) {
+    switch (p1) {
+      case P1_SIGN_MSGPACK.FIRST:
+        this.chunked = { ins, path: accountPath(0), data }
+        break
+      case P1_SIGN_MSGPACK.FIRST_ACCOUNT_ID:
+        if (data.length < 4) throw new ApduError(LedgerError.WrongLength)
+        this.chunked = {
+          ins,
+          path: accountPath(data.readUInt32BE(0)),
+          data: data.subarray(4),
+        }
+        break
+      case P1_SIGN_MSGPACK.FIRST_PATH:
+        if (!this.supportsMultiPathSigning()) {
+          throw new ApduError(LedgerError.InvalidP1P2)
+        }
+        this.chunked = {
+          ins,
+          path: parsePath(
+            data.subarray(0, PATH_LEN * 4),
+            LedgerError.DataIsInvalid
+          ),
+          data: data.subarray(PATH_LEN * 4),
+        }
+        break
+      case P1_SIGN_MSGPACK.MORE:
+        if (this.chunked?.ins !== ins) {
+          throw new ApduError(LedgerError.DataIsInvalid)
+        }
+        this.chunked.data = Buffer.concat([this.chunked.data, data])
+        break
+      default:
+        throw new ApduError(LedgerError.InvalidP1P2)
+    }
+
+    if (p2 === P2_SIGN_MSGPACK.MORE_CHUNKS) return undefined
+    if (p2 !== P2_SIGN_MSGPACK.LAST_CHUNK) {
+      throw new ApduError(LedgerError.InvalidP1P2)
+    }
+    const { path, data: message } = this.chunked
+    this.chunked = undefined
+    return { path, message }
+  }
+
+  private async signMsgpack(p1: number, p2: number, data: Buffer) {
+    const request = this.collect(INS.SIGN_MSGPACK, p1, p2, data)
+    if (!request) return ok()
+    const { path, message: blob } = request
+
+    try {
+      decodeTransaction(blob)
+    } catch {
+      throw new ApduError(LedgerError.DataIsInvalid)
+    }
+    await this.confirm(INS.SIGN_MSGPACK, path, blob)
+    return ok(
+      signWithKey(this.key(path), Buffer.concat([Buffer.from('TX'), blob]))
+    )
+  }
+
+  private async signProgram(p1: number, p2: number, data: Buffer) {
+    const request = this.collect(INS.SIGN_PROGRAM, p1, p2, data)
+    if (!request) return ok()
+    const { path, message } = request
+
+    const single =
+      message.length > PROGRAM_TAG.length &&
+      message.subarray(0, PROGRAM_TAG.length).equals(PROGRAM_TAG)
+    const multisig =
+      message.length > MSIG_PROGRAM_TAG.length + 32 &&
+      message.subarray(0, MSIG_PROGRAM_TAG.length).equals(MSIG_PROGRAM_TAG)
+    if (!single && !multisig) {
+      throw new ApduError(LedgerError.DataIsInvalid)
+    }
+    await this.confirm(INS.SIGN_PROGRAM, path, message)
+    return ok(signWithKey(this.key(path), message))
+  }
+
+  private async signArbitrary(p1: number, data: Buffer) {
+    switch (p1) {
+      case P1_SIGN_ARBITRARY.INIT:
+        this.arbitrary = { path: parsePath(data), data: Buffer.alloc(0) }
+        return ok()
+      case P1_SIGN_ARBITRARY.ADD:
+      case P1_SIGN_ARBITRARY.LAST:
+        if (!this.arbitrary) throw new ApduError(LedgerError.DataIsInvalid)
+        this.arbitrary.data = Buffer.concat([this.arbitrary.data, data])
+        break
+      default:
+        throw new ApduError(LedgerError.InvalidP1P2)
+    }
+
+    if (p1 === P1_SIGN_ARBITRARY.ADD) return ok()
+
+    const { path, data: payload } = this.arbitrary
+    this.arbitrary = undefined
+
+    const request = parseArbitraryPayload(payload)
+    if (request.scope !== 0x01) {
+      throw new ApduError(ArbitrarySignError.ErrorInvalidScope)
+    }
+    if (request.encoding !== 0x01) {
+      throw new ApduError(ArbitrarySignError.ErrorFailedDecoding)
+    }
+    if (!request.signer.equals(this.getPublicKey(path))) {
+      throw new ApduError(ArbitrarySignError.ErrorInvalidSigner)
+    }
+    try {
+      JSON.parse(request.data.toString('utf8'))
+    } catch {
+      throw new ApduError(ArbitrarySignError.ErrorBadJson)
+    }
+    if (request.domain.length === 0) {
+      throw new ApduError(ArbitrarySignError.ErrorMissingDomain)
+    }
+    if (request.authData.length === 0) {
+      throw new ApduError(ArbitrarySignError.ErrorMissingAuthenticatedData)
+    }
+    if (
+      request.authData.length < 32 ||
+      !Buffer.from(sha256(request.domain)).equals(
+        request.authData.subarray(0, 32)
+      )
+    ) {
+      throw new ApduError(ArbitrarySignError.ErrorFailedDomainAuth)
+    }
+
+    await this.confirm(INS.SIGN_ARBITRARY, path, payload)
+    return ok(
+      signWithKey(
+        this.key(path),
+        Buffer.concat([sha256(request.data), sha256(request.authData)])
+      )
+    )
+  }
+}
+
+function parseArbitraryPayload(payload: Buffer) {
+  let offset = 0
+  const take = (length: number) => {
+    if (offset + length > payload.length) {
+      throw new ApduError(ArbitrarySignError.ErrorFailedDecoding)
+    }
+    const out = payload.subarray(offset, offset + length)
+    offset += length
+    return out
+  }
+  const takeVariable = () => take(take(2).readUInt16BE(0))
+
+  const request = {
+    signer: take(32),
+    scope: take(1)[0],
+    encoding: take(1)[0],
+    data: takeVariable(),
+    domain: takeVariable(),
+    requestId: takeVariable(),
+    authData: takeVariable(),
+  }
+  if (offset !== payload.length) {
+    throw new ApduError(ArbitrarySignError.ErrorFailedDecoding)
+  }
+  return request
+}
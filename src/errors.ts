@@ -0,0 +1,453 @@
+import { ResponseError } from '@zondax/ledger-js'
+import { ERROR_DESCRIPTION, LedgerError } from './common'
+import {
+  ApduTraceEntry,
+  ArbitrarySignError,
+  DeviceErrorContext,
+  ExperimentalCapability,
+  SignDataIssue,
+  SignTxnsErrorCode,
+} from './types'
+
+/**
+ * Thrown when the address reported by the device does not match the address
+ * derived from the public key it reported alongside it.
+ */
+export class AddressMismatchError extends Error {
+  readonly address: string
+  readonly expectedAddress: string
+
+  constructor(address: string, expectedAddress: string) {
+    super(
+      `Device address ${address} does not match its public key (expected ${expectedAddress})`
+    )
+    this.name = 'AddressMismatchError'
+    this.address = address
+    this.expectedAddress = expectedAddress
+  }
+}
+
+/**
+ * Thrown when a feature needs a newer version of the Algorand app than the
+ * one installed on the device. `requiredVersion` is unknown when the app
+ * itself answered that it does not support the instruction.
+ */
+export class UnsupportedVersionError extends Error {
+  readonly feature: string
+  readonly version: string
+  readonly requiredVersion?: string
+
+  constructor(feature: string, version: string, requiredVersion?: string) {
+    super(
+      requiredVersion === undefined
+        ? `${feature} is not supported by Algorand app ${version}`
+        : `${feature} requires Algorand app ${requiredVersion} or later (installed: ${version})`
+    )
+    this.name = 'UnsupportedVersionError'
+    this.feature = feature
+    this.version = version
+    this.requiredVersion = requiredVersion
+  }
+}
+
+/**
+ * Thrown when a feature relies on APDUs that the Algorand app spec does not
+ * define yet and was not enabled with AlgorandAppOptions.experimental.
+ */
+export class ExperimentalFeatureError extends Error {
+  readonly feature: string
+  readonly capability: ExperimentalCapability
+
+  constructor(feature: string, capability: ExperimentalCapability) {
+    super(
+      `${feature} is experimental: enable it with experimental.${capability} to use it with app versions that may support it`
+    )
+    this.name = 'ExperimentalFeatureError'
+    this.feature = feature
+    this.capability = capability
+  }
+}
+
+/**
+ * Thrown by signData with `preflight` when the request would be refused by
+ * the device. `returnCode` is the status word of the first issue, as the
+ * device would have reported it.
+ */
+export class SignDataValidationError extends Error {
+  readonly issues: SignDataIssue[]
+  readonly returnCode: ArbitrarySignError
+
+  constructor(issues: SignDataIssue[]) {
+    super(
+      `Invalid signData request: ${issues.map(issue => `${issue.field}: ${issue.message}`).join('; ')}`
+    )
+    this.name = 'SignDataValidationError'
+    this.issues = issues
+    this.returnCode = issues[0].code
+  }
+}
+
+/**
+ * Thrown by ReplayTransport when an APDU differs from the transcript, or
+ * when the transcript was not played to the end. `expected` is the
+ * transcript entry at `index`, if any.
+ */
+export class ReplayMismatchError extends Error {
+  readonly index: number
+  readonly expected?: ApduTraceEntry
+
+  constructor(index: number, detail: string, expected?: ApduTraceEntry) {
+    super(`Replay failed at APDU #${index}: ${detail}`)
+    this.name = 'ReplayMismatchError'
+    this.index = index
+    this.expected = expected
+  }
+}
+
+const LOCKED_DEVICE_CODES = [0x5515, 0x6b0c]
+// CLA not supported (dashboard or another app), app not open
+const APP_NOT_OPEN_CODES = [LedgerError.AppDoesNotSeemToBeOpen, 0x6e01, 0x6511]
+const TRANSPORT_ERROR = 0xffff
+
+const ARBITRARY_SIGN_ERROR_DESCRIPTIONS: Record<number, string> = {
+  [ArbitrarySignError.ErrorInvalidScope]: 'Invalid Scope',
+  [ArbitrarySignError.ErrorFailedDecoding]: 'Failed decoding',
+  [ArbitrarySignError.ErrorInvalidSigner]: 'Invalid Signer',
+  [ArbitrarySignError.ErrorMissingDomain]: 'Missing Domain',
+  [ArbitrarySignError.ErrorMissingAuthenticatedData]:
+    'Missing Authentication Data',
+  [ArbitrarySignError.ErrorBadJson]: 'Bad JSON',
+  [ArbitrarySignError.ErrorFailedDomainAuth]: 'Failed Domain Auth',
+  [ArbitrarySignError.ErrorFailedHdPath]: 'Failed HD Path',
+}
+
+function describeStatus(statusCode: number): string {
+  return (
+    (ERROR_DESCRIPTION as Record<number, string>)[statusCode] ??
+    ARBITRARY_SIGN_ERROR_DESCRIPTIONS[statusCode] ??
+    `Unknown Status Code: 0x${statusCode.toString(16)}`
+  )
+}
+
+function describeContext({ ins, chunkIndex }: DeviceErrorContext) {
+  const parts = [
+    ...(ins === undefined
+      ? []
+      : [`INS 0x${ins.toString(16).padStart(2, '0')}`]),
+    ...(chunkIndex === undefined ? [] : [`chunk ${chunkIndex}`]),
+  ]
+  return parts.length > 0 ? ` (${parts.join(', ')})` : ''
+}
+
+/**
+ * Base class of the errors reported by the device or the transport. It
+ * extends ResponseError, so `returnCode` and `errorMessage` keep their
+ * meaning; `statusCode` is the same status word.
+ */
+export class LedgerDeviceError extends ResponseError {
+  readonly statusCode: number
+  readonly ins?: number
+  readonly chunkIndex?: number
+  // What the user or the caller can do about it
+  readonly hint: string
+
+  constructor(
+    statusCode: number,
+    context: DeviceErrorContext = {},
+    hint = 'Check the device and try again.',
+    description = describeStatus(statusCode)
+  ) {
+    super(statusCode, description)
+    this.message = `${description}${describeContext(context)}`
+    this.name = 'LedgerDeviceError'
+    this.statusCode = statusCode
+    this.ins = context.ins
+    this.chunkIndex = context.chunkIndex
+    this.hint = hint
+  }
+}
+
+export class UserRejectedError extends LedgerDeviceError {
+  constructor(statusCode: number, context?: DeviceErrorContext) {
+    super(
+      statusCode,
+      context,
+      'The request was rejected on the device; ask the user to approve it.'
+    )
+    this.name = 'UserRejectedError'
+  }
+}
+
+export class AppNotOpenError extends LedgerDeviceError {
+  constructor(statusCode: number, context?: DeviceErrorContext) {
+    super(statusCode, context, 'Open the Algorand app on the device.')
+    this.name = 'AppNotOpenError'
+  }
+}
+
+export class DeviceLockedError extends LedgerDeviceError {
+  constructor(statusCode: number, context?: DeviceErrorContext) {
+    super(statusCode, context, 'Unlock the device with its PIN.')
+    this.name = 'DeviceLockedError'
+  }
+}
+
+export class WrongLengthError extends LedgerDeviceError {
+  constructor(statusCode: number, context?: DeviceErrorContext) {
+    super(
+      statusCode,
+      context,
+      'The APDU length is not what the app expects; update the Algorand app.'
+    )
+    this.name = 'WrongLengthError'
+  }
+}
+
+export class InvalidDataError extends LedgerDeviceError {
+  constructor(statusCode: number, context?: DeviceErrorContext) {
+    super(
+      statusCode,
+      context,
+      'The app could not parse the payload; check that it is canonical msgpack.'
+    )
+    this.name = 'InvalidDataError'
+  }
+}
+
+/**
+ * Thrown when the transport fails before the device answers, e.g. when it
+ * is disconnected or busy. `cause` is the original error.
+ */
+export class DeviceTransportError extends LedgerDeviceError {
+  readonly cause: unknown
+
+  constructor(cause: unknown, context?: DeviceErrorContext) {
+    super(
+      TRANSPORT_ERROR,
+      context,
+      'Reconnect the device and make sure no other application uses it.',
+      cause instanceof Error ? cause.message : String(cause)
+    )
+    this.name = 'DeviceTransportError'
+    this.cause = cause
+  }
+}
+
+/**
+ * Base class of the signData failures (status words 0x6988 to 0x698f).
+ * validateSignData catches the same problems without asking the user.
+ */
+export class SignDataError extends LedgerDeviceError {
+  constructor(
+    statusCode: ArbitrarySignError,
+    context?: DeviceErrorContext,
+    hint = 'Fix the signData request, see validateSignData.'
+  ) {
+    super(statusCode, context, hint)
+    this.name = 'SignDataError'
+  }
+}
+
+export class InvalidScopeError extends SignDataError {
+  constructor(context?: DeviceErrorContext) {
+    super(
+      ArbitrarySignError.ErrorInvalidScope,
+      context,
+      'Use ScopeType.AUTH, the only scope the app supports.'
+    )
+    this.name = 'InvalidScopeError'
+  }
+}
+
+export class FailedDecodingError extends SignDataError {
+  constructor(context?: DeviceErrorContext) {
+    super(
+      ArbitrarySignError.ErrorFailedDecoding,
+      context,
+      'Encode the data as base64 and set the encoding to "base64".'
+    )
+    this.name = 'FailedDecodingError'
+  }
+}
+
+export class InvalidSignerError extends SignDataError {
+  constructor(context?: DeviceErrorContext) {
+    super(
+      ArbitrarySignError.ErrorInvalidSigner,
+      context,
+      'Set the signer to the public key of the account at hdPath.'
+    )
+    this.name = 'InvalidSignerError'
+  }
+}
+
+export class MissingDomainError extends SignDataError {
+  constructor(context?: DeviceErrorContext) {
+    super(
+      ArbitrarySignError.ErrorMissingDomain,
+      context,
+      'Set the domain of the requesting party.'
+    )
+    this.name = 'MissingDomainError'
+  }
+}
+
+export class MissingAuthenticatedDataError extends SignDataError {
+  constructor(context?: DeviceErrorContext) {
+    super(
+      ArbitrarySignError.ErrorMissingAuthenticatedData,
+      context,
+      'Set authenticationData, see createAuthenticationData.'
+    )
+    this.name = 'MissingAuthenticatedDataError'
+  }
+}
+
+export class BadJsonError extends SignDataError {
+  constructor(context?: DeviceErrorContext) {
+    super(
+      ArbitrarySignError.ErrorBadJson,
+      context,
+      'Send canonical JSON, see canonicalizeJson.'
+    )
+    this.name = 'BadJsonError'
+  }
+}
+
+export class FailedDomainAuthError extends SignDataError {
+  constructor(context?: DeviceErrorContext) {
+    super(
+      ArbitrarySignError.ErrorFailedDomainAuth,
+      context,
+      'authenticationData must start with sha256(domain).'
+    )
+    this.name = 'FailedDomainAuthError'
+  }
+}
+
+export class FailedHdPathError extends SignDataError {
+  constructor(context?: DeviceErrorContext) {
+    super(
+      ArbitrarySignError.ErrorFailedHdPath,
+      context,
+      "Use a path of the form m/44'/283'/<account>'/<change>/<index>."
+    )
+    this.name = 'FailedHdPathError'
+  }
+}
+
+const SIGN_DATA_ERRORS: Record<
+  number,
+  new (context?: DeviceErrorContext) => SignDataError
+> = {
+  [ArbitrarySignError.ErrorInvalidScope]: InvalidScopeError,
+  [ArbitrarySignError.ErrorFailedDecoding]: FailedDecodingError,
+  [ArbitrarySignError.ErrorInvalidSigner]: InvalidSignerError,
+  [ArbitrarySignError.ErrorMissingDomain]: MissingDomainError,
+  [ArbitrarySignError.ErrorMissingAuthenticatedData]:
+    MissingAuthenticatedDataError,
+  [ArbitrarySignError.ErrorBadJson]: BadJsonError,
+  [ArbitrarySignError.ErrorFailedDomainAuth]: FailedDomainAuthError,
+  [ArbitrarySignError.ErrorFailedHdPath]: FailedHdPathError,
+}
+
+/**
+ * Returns the LedgerDeviceError subclass matching a status word.
+ */
+export function createDeviceError(
+  statusCode: number,
+  context?: DeviceErrorContext
+): LedgerDeviceError {
+  if (statusCode in SIGN_DATA_ERRORS) {
+    return new SIGN_DATA_ERRORS[statusCode](context)
+  }
+  if (statusCode === LedgerError.TransactionRejected) {
+    return new UserRejectedError(statusCode, context)
+  }
+  if (APP_NOT_OPEN_CODES.includes(statusCode)) {
+    return new AppNotOpenError(statusCode, context)
+  }
+  if (LOCKED_DEVICE_CODES.includes(statusCode)) {
+    return new DeviceLockedError(statusCode, context)
+  }
+  if (statusCode === LedgerError.WrongLength) {
+    return new WrongLengthError(statusCode, context)
+  }
+  if (statusCode === LedgerError.DataIsInvalid) {
+    return new InvalidDataError(statusCode, context)
+  }
+  return new LedgerDeviceError(statusCode, context)
+}
+
+/**
+ * Converts whatever a transport or ResponseError threw into a
+ * LedgerDeviceError. Errors that already are one are returned as is, so the
+ * innermost context (e.g. the chunk index) is kept, and so are cancellations.
+ */
+export function toDeviceError(
+  error: unknown,
+  context?: DeviceErrorContext
+): LedgerDeviceError | OperationCancelledError {
+  if (
+    error instanceof LedgerDeviceError ||
+    error instanceof OperationCancelledError
+  ) {
+    return error
+  }
+  const { statusCode, returnCode } = (error ?? {}) as {
+    statusCode?: unknown
+    returnCode?: unknown
+  }
+  const code = typeof statusCode === 'number' ? statusCode : returnCode
+  if (typeof code === 'number' && code !== TRANSPORT_ERROR) {
+    return createDeviceError(code, context)
+  }
+  return new DeviceTransportError(error, context)
+}
+
+/**
+ * Thrown when a call is aborted through its AbortSignal or runs out of time.
+ * No further APDU is sent once it is thrown; an APDU already waiting for the
+ * user is left to the device.
+ */
+export class OperationCancelledError extends Error {
+  readonly reason: 'aborted' | 'timeout'
+  // Reason given to AbortController.abort, if any
+  readonly cause?: unknown
+
+  constructor(reason: 'aborted' | 'timeout', detail?: unknown) {
+    super(
+      reason === 'timeout'
+        ? `Operation timed out after ${detail} ms`
+        : 'Operation aborted'
+    )
+    this.name = 'OperationCancelledError'
+    this.reason = reason
+    if (reason === 'aborted') {
+      this.cause = detail
+    }
+  }
+}
+
+/**
+ * Thrown by the ARC-1 `signTxns` of LedgerWallet, with the ARC-1 error code.
+ * `data` is the index of the offending transaction, when there is one.
+ */
+export class SignTxnsError extends Error {
+  readonly code: SignTxnsErrorCode
+  readonly data?: number
+  readonly cause?: unknown
+
+  constructor(
+    code: SignTxnsErrorCode,
+    message: string,
+    data?: number,
+    cause?: unknown
+  ) {
+    super(message)
+    this.name = 'SignTxnsError'
+    this.code = code
+    this.data = data
+    this.cause = cause
+  }
+}
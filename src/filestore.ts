@@ -0,0 +1,38 @@
+import { readFile, rename, writeFile } from 'fs/promises'
+import { AddressCacheSnapshot, AddressStore } from './types'
+
+/**
+ * Keeps the cache in a JSON file, so that it survives between sessions. A
+ * missing or unreadable file is an empty cache; writes replace the file
+ * atomically.
+ */
+export class JsonFileAddressStore implements AddressStore {
+  constructor(readonly path: string) {}
+
+  async read(): Promise<AddressCacheSnapshot | undefined> {
+    let content: string
+    try {
+      content = await readFile(this.path, 'utf8')
+    } catch {
+      return undefined
+    }
+    try {
+      const snapshot = JSON.parse(content)
+      const entries = snapshot?.entries
+      return typeof snapshot?.fingerprint === 'string' &&
+        typeof entries === 'object' &&
+        entries !== null &&
+        !Array.isArray(entries)
+        ? snapshot
+        : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  async write(snapshot: AddressCacheSnapshot): Promise<void> {
+    const temporary = `${this.path}.${process.pid}.tmp`
+    await writeFile(temporary, `${JSON.stringify(snapshot, null, 2)}\n`)
+    await rename(temporary, this.path)
+  }
+}
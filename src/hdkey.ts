@@ -0,0 +1,123 @@
+/**
+ * BIP32-Ed25519 (Khovratovich & Law) key derivation and signing with
+ * extended keys, as done by the Ledger OS for the Algorand app. Used by the
+ * emulator transport; it is not needed to talk to a real device.
+ */
+import { ed25519 } from '@noble/curves/ed25519'
+import { hmac } from '@noble/hashes/hmac'
+import { sha256, sha512 } from '@noble/hashes/sha2'
+
+const HARDENED = 0x80000000
+const SEED_KEY = Buffer.from('ed25519 seed')
+const CURVE_ORDER = ed25519.CURVE.n
+const TWO_256 = BigInt(1) << BigInt(256)
+
+export interface ExtendedKey {
+  // Scalar half (kL) and nonce half (kR) of the extended private key
+  kL: Buffer
+  kR: Buffer
+  chainCode: Buffer
+}
+
+function toBigIntLE(bytes: Uint8Array): bigint {
+  return BigInt(`0x${Buffer.from(bytes).reverse().toString('hex') || '0'}`)
+}
+
+function toBytesLE(value: bigint, length: number): Buffer {
+  const hex = value.toString(16).padStart(length * 2, '0')
+  return Buffer.from(hex, 'hex').reverse()
+}
+
+function indexLE(index: number) {
+  const buf = Buffer.alloc(4)
+  buf.writeUInt32LE(index >>> 0)
+  return buf
+}
+
+function mulBase(scalar: bigint): Buffer {
+  const reduced = scalar % CURVE_ORDER
+  return Buffer.from(ed25519.Point.BASE.multiply(reduced).toRawBytes())
+}
+
+/**
+ * Expands a BIP39 seed into the root extended key.
+ */
+export function rootKeyFromSeed(seed: Uint8Array): ExtendedKey {
+  let key = hmac(sha512, SEED_KEY, seed)
+  // Retry until the third highest bit of kL is clear
+  while ((key[31] & 0x20) !== 0) {
+    key = hmac(sha512, SEED_KEY, key)
+  }
+  const kL = Buffer.from(key.slice(0, 32))
+  kL[0] &= 0xf8
+  kL[31] = (kL[31] & 0x7f) | 0x40
+
+  return {
+    kL,
+    kR: Buffer.from(key.slice(32, 64)),
+    chainCode: Buffer.from(
+      hmac(sha256, SEED_KEY, Buffer.concat([Buffer.from([0x01]), seed]))
+    ),
+  }
+}
+
+/**
+ * Returns the Ed25519 public key (kL * B) of an extended key.
+ */
+export function publicKeyOf(key: ExtendedKey): Buffer {
+  return mulBase(toBigIntLE(key.kL))
+}
+
+/**
+ * Derives a child extended key. Hardened indexes are >= 0x80000000.
+ */
+export function deriveChild(parent: ExtendedKey, index: number): ExtendedKey {
+  const hardened = index >= HARDENED
+  const data = hardened
+    ? Buffer.concat([parent.kL, parent.kR])
+    : publicKeyOf(parent)
+  const tags = hardened ? [0x00, 0x01] : [0x02, 0x03]
+
+  const z = hmac(
+    sha512,
+    parent.chainCode,
+    Buffer.concat([Buffer.from([tags[0]]), data, indexLE(index)])
+  )
+  const c = hmac(
+    sha512,
+    parent.chainCode,
+    Buffer.concat([Buffer.from([tags[1]]), data, indexLE(index)])
+  )
+
+  const zL = toBigIntLE(z.slice(0, 28))
+  const zR = toBigIntLE(z.slice(32, 64))
+  const kL = zL * BigInt(8) + toBigIntLE(parent.kL)
+  const kR = (zR + toBigIntLE(parent.kR)) % TWO_256
+
+  return {
+    kL: toBytesLE(kL, 32),
+    kR: toBytesLE(kR, 32),
+    chainCode: Buffer.from(c.slice(32, 64)),
+  }
+}
+
+/**
+ * Derives the extended key at a numeric path from a BIP39 seed.
+ */
+export function deriveKey(seed: Uint8Array, path: number[]): ExtendedKey {
+  return path.reduce(deriveChild, rootKeyFromSeed(seed))
+}
+
+/**
+ * Signs a message with an extended key. The result is a standard Ed25519
+ * signature that verifies against `publicKeyOf(key)`.
+ */
+export function signWithKey(key: ExtendedKey, message: Uint8Array): Buffer {
+  const publicKey = publicKeyOf(key)
+  const r = toBigIntLE(sha512(Buffer.concat([key.kR, message]))) % CURVE_ORDER
+  const R = mulBase(r)
+  const h =
+    toBigIntLE(sha512(Buffer.concat([R, publicKey, message]))) % CURVE_ORDER
+  const s = (r + h * toBigIntLE(key.kL)) % CURVE_ORDER
+  return Buffer.concat([R, toBytesLE(s, 32)])
+}
@@ -1,3 +1,22 @@
 export * from './app'
 export * from './types'
 export * from './consts'
+export * from './transaction'
+export type { MsgpackMap, MsgpackValue } from './msgpack'
+export * from './preview'
+export * from './address'
+export * from './path'
+export * from './errors'
+export * from './verify'
+export * from './multisig'
+export * from './logicsig'
+export * from './version'
+export * from './arc60'
+export * from './cache'
+export * from './discovery'
+export * from './wallet'
+export * from './txnfile'
+export * from './queue'
+export * from './tracing'
+export * from './replay'
+export * from './connection'
@@ -0,0 +1,222 @@
+import { sha512_256 } from '@noble/hashes/sha2'
+import { encodeAddress } from './address'
+import {
+  addMultisigSubsignature,
+  createMultisigSignature,
+  mergeMultisigSignatures,
+  multisigMetadataOf,
+  multisigPublicKey,
+  sameBytes,
+} from './multisig'
+import {
+  decodeTransaction,
+  encodeSignedTransaction,
+  encodeTransaction,
+  getTransactionId,
+} from './transaction'
+import {
+  AlgorandTransaction,
+  LogicSig,
+  MultisigMetadata,
+  SignedTransaction,
+  SignedTransactionResult,
+} from './types'
+import { getProgramSigningPayload, verifyProgramSignature } from './verify'
+
+function sameArgs(a: Uint8Array[] = [], b: Uint8Array[] = []) {
+  return a.length === b.length && a.every((arg, i) => sameBytes(arg, b[i]))
+}
+
+/**
+ * Returns the 32-byte key of the escrow account of a program, the
+ * SHA-512/256 of "Program" || program.
+ */
+export function logicSigPublicKey(program: Uint8Array): Buffer {
+  return Buffer.from(sha512_256(getProgramSigningPayload(program)))
+}
+
+/**
+ * Returns the escrow address of a program.
+ */
+export function logicSigAddress(program: Uint8Array): string {
+  return encodeAddress(logicSigPublicKey(program))
+}
+
+/**
+ * Creates an unsigned LogicSig, usable as is for escrow accounts.
+ * @throws {Error} If the program is empty.
+ */
+export function createLogicSig(
+  program: Uint8Array,
+  args?: Uint8Array[]
+): LogicSig {
+  if (program.length === 0) {
+    throw new Error('Invalid logic sig: empty program')
+  }
+  return {
+    program: Buffer.from(program),
+    ...(args && args.length > 0
+      ? { args: args.map(arg => Buffer.from(arg)) }
+      : {}),
+  }
+}
+
+/**
+ * Returns a copy of a LogicSig delegated by a single account. The signature
+ * is checked against "Program" || program.
+ * @throws {Error} If the signature is invalid.
+ */
+export function appendLogicSigSignature(
+  lsig: LogicSig,
+  publicKey: Uint8Array,
+  signature: Uint8Array
+): LogicSig {
+  if (!verifyProgramSignature(lsig.program, signature, publicKey)) {
+    throw new Error(
+      `Invalid program signature from ${encodeAddress(publicKey)}`
+    )
+  }
+  return {
+    program: lsig.program,
+    ...(lsig.args ? { args: lsig.args } : {}),
+    signature: Buffer.from(signature),
+  }
+}
+
+/**
+ * Returns a copy of a LogicSig delegated by a multisig account with the
+ * subsignature of `publicKey` filled in. The signature is checked against
+ * "MsigProgram" || multisig key || program.
+ * @throws {Error} If the key is not part of the multisig, the LogicSig is
+ * already delegated by another account or the signature is invalid.
+ */
+export function appendLogicSigMultisigSignature(
+  lsig: LogicSig,
+  multisig: MultisigMetadata,
+  publicKey: Uint8Array,
+  signature: Uint8Array
+): LogicSig {
+  const multisigKey = multisigPublicKey(multisig)
+  if (
+    lsig.signature ||
+    (lsig.multisig &&
+      !multisigPublicKey(multisigMetadataOf(lsig.multisig)).equals(multisigKey))
+  ) {
+    throw new Error('Logic sig is already delegated by another account')
+  }
+  const msig = addMultisigSubsignature(
+    lsig.multisig ?? createMultisigSignature(multisig),
+    publicKey,
+    signature
+  )
+  if (
+    !verifyProgramSignature(lsig.program, signature, publicKey, multisigKey)
+  ) {
+    throw new Error(
+      `Invalid program signature from ${encodeAddress(publicKey)}`
+    )
+  }
+  return { ...lsig, multisig: msig }
+}
+
+/**
+ * Merges copies of a multisig-delegated LogicSig signed by different
+ * subkeys, e.g. on several devices.
+ * @throws {Error} If the programs, arguments or multisig parameters differ,
+ * or two copies carry different signatures for the same key.
+ */
+export function mergeLogicSigs(parts: LogicSig[]): LogicSig {
+  if (parts.length === 0) {
+    throw new Error('Nothing to merge')
+  }
+  const [first] = parts
+  const multisigs = parts.map((lsig, i) => {
+    if (!sameBytes(first.program, lsig.program)) {
+      throw new Error(`Cannot merge: program of ${i} differs`)
+    }
+    if (!sameArgs(first.args, lsig.args)) {
+      throw new Error(`Cannot merge: arguments of ${i} differ`)
+    }
+    if (!lsig.multisig) {
+      throw new Error(`Cannot merge: ${i} is not delegated by a multisig`)
+    }
+    return lsig.multisig
+  })
+  return { ...first, multisig: mergeMultisigSignatures(multisigs) }
+}
+
+/**
+ * Returns the account that authorizes transactions with a LogicSig: the
+ * delegating account, the delegating multisig or the program's escrow
+ * account.
+ * @param signer - Delegating account of a single-account LogicSig.
+ * @throws {Error} If a signature is invalid or a multisig threshold is not
+ * met.
+ */
+export function logicSigAuthorizer(lsig: LogicSig, signer: Uint8Array): Buffer {
+  if (lsig.signature) {
+    if (!verifyProgramSignature(lsig.program, lsig.signature, signer)) {
+      throw new Error('Invalid logic sig: signature does not match the signer')
+    }
+    return Buffer.from(signer)
+  }
+
+  if (!lsig.multisig) {
+    return logicSigPublicKey(lsig.program)
+  }
+  const multisigKey = multisigPublicKey(multisigMetadataOf(lsig.multisig))
+  const { threshold, subsignatures } = lsig.multisig
+  const signed = subsignatures.filter(s => s.signature)
+  const valid = signed.filter(({ publicKey, signature }) =>
+    verifyProgramSignature(
+      lsig.program,
+      signature as Uint8Array,
+      publicKey,
+      multisigKey
+    )
+  )
+  if (valid.length !== signed.length) {
+    throw new Error(
+      `Invalid logic sig: ${signed.length - valid.length} bad signature(s)`
+    )
+  }
+  if (valid.length < threshold) {
+    throw new Error(
+      `Multisig threshold not met: ${valid.length} of ${threshold} signatures`
+    )
+  }
+  return multisigKey
+}
+
+/**
+ * Wraps a transaction and a LogicSig into a broadcast-ready SignedTxn.
+ * The authorizing account is the program's escrow account, the delegating
+ * account or the delegating multisig; `sgnr` is set when it is not the
+ * sender.
+ * @param signer - Delegating account of a single-account LogicSig, defaults
+ * to the sender.
+ * @throws {Error} If a signature is invalid or a multisig threshold is not
+ * met.
+ */
+export function createLogicSigTransaction(
+  transaction: AlgorandTransaction | Uint8Array,
+  lsig: LogicSig,
+  signer?: Uint8Array
+): SignedTransactionResult {
+  const txn =
+    transaction instanceof Uint8Array
+      ? decodeTransaction(transaction)
+      : transaction
+  const authorizer = logicSigAuthorizer(lsig, signer ?? txn.sender)
+
+  const signedTransaction: SignedTransaction = {
+    transaction: txn,
+    logicSig: lsig,
+    ...(authorizer.equals(txn.sender) ? {} : { authAddress: authorizer }),
+  }
+  return {
+    signedTransaction,
+    blob: encodeSignedTransaction(signedTransaction),
+    txId: getTransactionId(encodeTransaction(txn)),
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * Minimal msgpack codec covering the subset used by Algorand's canonical
+ * encoding: unsigned/negative integers, strings, byte arrays, booleans,
+ * nil, arrays and string-keyed maps. Maps are always written with their keys
+ * sorted, which is what the Ledger app and algod expect.
+ */
+
+export type MsgpackValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | Uint8Array
+  | MsgpackValue[]
+  | MsgpackMap
+
+export interface MsgpackMap {
+  [key: string]: MsgpackValue
+}
+
+const MAX_UINT64 = BigInt('0xffffffffffffffff')
+
+class Writer {
+  private parts: Buffer[] = []
+
+  byte(value: number) {
+    this.parts.push(Buffer.from([value]))
+  }
+
+  header(prefix: number, size: number, value: number | bigint) {
+    const buf = Buffer.alloc(size + 1)
+    buf[0] = prefix
+    switch (size) {
+      case 1:
+        buf.writeUInt8(Number(value), 1)
+        break
+      case 2:
+        buf.writeUInt16BE(Number(value), 1)
+        break
+      case 4:
+        buf.writeUInt32BE(Number(value), 1)
+        break
+      case 8:
+        buf.writeBigUInt64BE(BigInt(value), 1)
+        break
+    }
+    this.parts.push(buf)
+  }
+
+  raw(bytes: Uint8Array) {
+    this.parts.push(Buffer.from(bytes))
+  }
+
+  toBuffer() {
+    return Buffer.concat(this.parts)
+  }
+}
+
+function writeInteger(w: Writer, value: bigint) {
+  if (value >= BigInt(0)) {
+    if (value > MAX_UINT64) {
+      throw new Error(`Integer ${value} does not fit in uint64`)
+    }
+    if (value < BigInt(0x80)) w.byte(Number(value))
+    else if (value <= BigInt(0xff)) w.header(0xcc, 1, value)
+    else if (value <= BigInt(0xffff)) w.header(0xcd, 2, value)
+    else if (value <= BigInt(0xffffffff)) w.header(0xce, 4, value)
+    else w.header(0xcf, 8, value)
+    return
+  }
+
+  if (value >= BigInt(-32)) {
+    w.byte(Number(value) & 0xff)
+  } else if (value >= BigInt(-0x80)) {
+    w.header(0xd0, 1, Number(value) & 0xff)
+  } else if (value >= BigInt(-0x8000)) {
+    w.header(0xd1, 2, Number(value) & 0xffff)
+  } else if (value >= BigInt(-0x80000000)) {
+    w.header(0xd2, 4, Number(value) >>> 0)
+  } else {
+    w.header(0xd3, 8, BigInt.asUintN(64, value))
+  }
+}
+
+function writeLength(
+  w: Writer,
+  length: number,
+  fix: [number, number] | null,
+  prefixes: [number, number, number]
+) {
+  if (fix && length <= fix[1]) {
+    w.byte(fix[0] | length)
+  } else if (prefixes[0] !== 0 && length <= 0xff) {
+    w.header(prefixes[0], 1, length)
+  } else if (length <= 0xffff) {
+    w.header(prefixes[1], 2, length)
+  } else {
+    w.header(prefixes[2], 4, length)
+  }
+}
+
+function writeValue(w: Writer, value: MsgpackValue) {
+  if (value === null) {
+    w.byte(0xc0)
+  } else if (typeof value === 'boolean') {
+    w.byte(value ? 0xc3 : 0xc2)
+  } else if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`Cannot encode non-integer number ${value}`)
+    }
+    writeInteger(w, BigInt(value))
+  } else if (typeof value === 'bigint') {
+    writeInteger(w, value)
+  } else if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8')
+    writeLength(w, bytes.length, [0xa0, 31], [0xd9, 0xda, 0xdb])
+    w.raw(bytes)
+  } else if (value instanceof Uint8Array) {
+    writeLength(w, value.length, null, [0xc4, 0xc5, 0xc6])
+    w.raw(value)
+  } else if (Array.isArray(value)) {
+    writeLength(w, value.length, [0x90, 15], [0, 0xdc, 0xdd])
+    value.forEach(item => writeValue(w, item))
+  } else if (typeof value === 'object') {
+    const keys = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+    writeLength(w, keys.length, [0x80, 15], [0, 0xde, 0xdf])
+    keys.forEach(key => {
+      writeValue(w, key)
+      writeValue(w, value[key])
+    })
+  } else {
+    throw new Error(`Cannot encode value of type ${typeof value}`)
+  }
+}
+
+/**
+ * Encodes a value as canonical msgpack (sorted map keys, smallest integer
+ * representation). Map entries whose value is `undefined` are skipped.
+ */
+export function encode(value: MsgpackValue): Buffer {
+  const w = new Writer()
+  writeValue(w, value)
+  return w.toBuffer()
+}
+
+class Reader {
+  offset = 0
+
+  constructor(private readonly buf: Buffer) {}
+
+  get remaining() {
+    return this.buf.length - this.offset
+  }
+
+  take(length: number): Buffer {
+    if (length > this.remaining) {
+      throw new Error('Unexpected end of msgpack data')
+    }
+    const out = this.buf.subarray(this.offset, this.offset + length)
+    this.offset += length
+    return out
+  }
+
+  uint(size: number): number {
+    const bytes = this.take(size)
+    switch (size) {
+      case 1:
+        return bytes.readUInt8(0)
+      case 2:
+        return bytes.readUInt16BE(0)
+      default:
+        return bytes.readUInt32BE(0)
+    }
+  }
+}
+
+function toSafeNumber(value: bigint): number | bigint {
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) &&
+    value >= BigInt(Number.MIN_SAFE_INTEGER)
+    ? Number(value)
+    : value
+}
+
+function readMap(r: Reader, size: number): MsgpackMap {
+  // No prototype, so that keys such as __proto__ stay plain entries
+  const out: MsgpackMap = Object.create(null)
+  for (let i = 0; i < size; i += 1) {
+    const key = readValue(r)
+    if (typeof key !== 'string') {
+      throw new Error('Only string map keys are supported')
+    }
+    out[key] = readValue(r)
+  }
+  return out
+}
+
+function readArray(r: Reader, size: number): MsgpackValue[] {
+  const out: MsgpackValue[] = []
+  for (let i = 0; i < size; i += 1) {
+    out.push(readValue(r))
+  }
+  return out
+}
+
+function readValue(r: Reader): MsgpackValue {
+  const prefix = r.uint(1)
+
+  if (prefix <= 0x7f) return prefix
+  if (prefix >= 0xe0) return prefix - 0x100
+  if ((prefix & 0xf0) === 0x80) return readMap(r, prefix & 0x0f)
+  if ((prefix & 0xf0) === 0x90) return readArray(r, prefix & 0x0f)
+  if ((prefix & 0xe0) === 0xa0) return r.take(prefix & 0x1f).toString('utf8')
+
+  switch (prefix) {
+    case 0xc0:
+      return null
+    case 0xc2:
+      return false
+    case 0xc3:
+      return true
+    case 0xc4:
+    case 0xc5:
+    case 0xc6:
+      return Buffer.from(r.take(r.uint(1 << (prefix - 0xc4))))
+    case 0xcc:
+    case 0xcd:
+    case 0xce:
+      return r.uint(1 << (prefix - 0xcc))
+    case 0xcf:
+      return toSafeNumber(r.take(8).readBigUInt64BE(0))
+    case 0xd0:
+      return r.take(1).readInt8(0)
+    case 0xd1:
+      return r.take(2).readInt16BE(0)
+    case 0xd2:
+      return r.take(4).readInt32BE(0)
+    case 0xd3:
+      return toSafeNumber(r.take(8).readBigInt64BE(0))
+    case 0xd9:
+    case 0xda:
+    case 0xdb:
+      return r.take(r.uint(1 << (prefix - 0xd9))).toString('utf8')
+    case 0xdc:
+    case 0xdd:
+      return readArray(r, r.uint(prefix === 0xdc ? 2 : 4))
+    case 0xde:
+    case 0xdf:
+      return readMap(r, r.uint(prefix === 0xde ? 2 : 4))
+    default:
+      throw new Error(`Unsupported msgpack type 0x${prefix.toString(16)}`)
+  }
+}
+
+/**
+ * Decodes a single msgpack value. Integers outside the safe JS range are
+ * returned as bigint and byte arrays as Buffers.
+ * @throws {Error} If the data is malformed or has trailing bytes.
+ */
+export function decode(data: Uint8Array): MsgpackValue {
+  const r = new Reader(Buffer.from(data))
+  const value = readValue(r)
+  if (r.remaining !== 0) {
+    throw new Error('Unexpected trailing bytes after msgpack value')
+  }
+  return value
+}
+
+/**
+ * Splits concatenated msgpack values, as found in goal transaction files,
+ * into the encoding of each value. The bytes are returned as they are.
+ * @throws {Error} If the data is malformed or ends within a value.
+ */
+export function splitMsgpack(data: Uint8Array): Buffer[] {
+  const buf = Buffer.from(data)
+  const r = new Reader(buf)
+  const values: Buffer[] = []
+  while (r.remaining > 0) {
+    const start = r.offset
+    readValue(r)
+    values.push(buf.subarray(start, r.offset))
+  }
+  return values
+}
+
+/**
+ * Returns true when the value is a string-keyed msgpack map.
+ */
+export function isMsgpackMap(
+  value: MsgpackValue | undefined
+): value is MsgpackMap {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Uint8Array)
+  )
+}
@@ -0,0 +1,314 @@
+import { sha512_256 } from '@noble/hashes/sha2'
+import { encodeAddress } from './address'
+import { PUBKEYLEN } from './consts'
+import {
+  decodeSignedTransaction,
+  encodeSignedTransaction,
+  encodeTransaction,
+} from './transaction'
+import {
+  AlgorandTransaction,
+  MultisigMetadata,
+  MultisigSignature,
+  SignedTransaction,
+} from './types'
+import { verifyTransactionSignature } from './verify'
+
+export const MULTISIG_VERSION = 1
+const MAX_SUBKEYS = 255
+const MULTISIG_TAG = Buffer.from('MultisigAddr')
+
+function validateMultisig({
+  version,
+  threshold,
+  publicKeys,
+}: MultisigMetadata) {
+  if (version !== MULTISIG_VERSION) {
+    throw new Error(`Unsupported multisig version: ${version}`)
+  }
+  if (publicKeys.length === 0 || publicKeys.length > MAX_SUBKEYS) {
+    throw new Error(
+      `Invalid multisig: expected 1 to ${MAX_SUBKEYS} public keys, got ${publicKeys.length}`
+    )
+  }
+  if (
+    !Number.isInteger(threshold) ||
+    threshold < 1 ||
+    threshold > publicKeys.length
+  ) {
+    throw new Error(
+      `Invalid multisig threshold: ${threshold} of ${publicKeys.length}`
+    )
+  }
+  publicKeys.forEach((publicKey, i) => {
+    if (publicKey.length !== PUBKEYLEN) {
+      throw new Error(
+        `Invalid multisig public key ${i}: expected ${PUBKEYLEN} bytes, got ${publicKey.length}`
+      )
+    }
+  })
+}
+
+/**
+ * Returns the version, threshold and subkeys of a multisig signature.
+ */
+export function multisigMetadataOf(msig: MultisigSignature): MultisigMetadata {
+  return {
+    version: msig.version,
+    threshold: msig.threshold,
+    publicKeys: msig.subsignatures.map(subsig => subsig.publicKey),
+  }
+}
+
+/**
+ * Compares two byte arrays, a missing one being equal to an empty one.
+ */
+export function sameBytes(a?: Uint8Array, b?: Uint8Array): boolean {
+  return Buffer.from(a ?? []).equals(Buffer.from(b ?? []))
+}
+
+function sameMultisig(a: MultisigSignature, b: MultisigSignature) {
+  return (
+    a.version === b.version &&
+    a.threshold === b.threshold &&
+    a.subsignatures.length === b.subsignatures.length &&
+    a.subsignatures.every((subsig, i) =>
+      sameBytes(subsig.publicKey, b.subsignatures[i].publicKey)
+    )
+  )
+}
+
+function requireMultisig(stxn: SignedTransaction): MultisigSignature {
+  if (!stxn.multisig) {
+    throw new Error('Not a multisig transaction: missing msig')
+  }
+  return stxn.multisig
+}
+
+/**
+ * Builds the bytes hashed into a multisig address:
+ * "MultisigAddr" || version || threshold || public keys.
+ * @throws {Error} If the version, threshold or public keys are invalid.
+ */
+export function multisigPreimage(params: MultisigMetadata): Buffer {
+  validateMultisig(params)
+  return Buffer.concat([
+    MULTISIG_TAG,
+    Buffer.from([params.version, params.threshold]),
+    ...params.publicKeys,
+  ])
+}
+
+/**
+ * Returns the 32-byte key of a multisig account, the SHA-512/256 of its
+ * preimage. It is used as the sender or `authAddress` of its transactions.
+ * @throws {Error} If the version, threshold or public keys are invalid.
+ */
+export function multisigPublicKey(params: MultisigMetadata): Buffer {
+  return Buffer.from(sha512_256(multisigPreimage(params)))
+}
+
+/**
+ * Returns the address of a multisig account.
+ * @throws {Error} If the version, threshold or public keys are invalid.
+ */
+export function multisigAddress(params: MultisigMetadata): string {
+  return encodeAddress(multisigPublicKey(params))
+}
+
+/**
+ * Returns an unsigned multisig signature with one empty subsignature per
+ * public key.
+ * @throws {Error} If the version, threshold or public keys are invalid.
+ */
+export function createMultisigSignature(
+  params: MultisigMetadata
+): MultisigSignature {
+  validateMultisig(params)
+  return {
+    version: params.version,
+    threshold: params.threshold,
+    subsignatures: params.publicKeys.map(publicKey => ({
+      publicKey: Buffer.from(publicKey),
+    })),
+  }
+}
+
+/**
+ * Returns a copy of a multisig signature with the subsignature of
+ * `publicKey` filled in. The signature itself is not checked, as what it
+ * signs depends on the caller.
+ * @throws {Error} If the key is not part of the multisig.
+ */
+export function addMultisigSubsignature(
+  msig: MultisigSignature,
+  publicKey: Uint8Array,
+  signature: Uint8Array
+): MultisigSignature {
+  if (!msig.subsignatures.some(s => sameBytes(s.publicKey, publicKey))) {
+    throw new Error(
+      `Public key ${encodeAddress(publicKey)} is not part of the multisig`
+    )
+  }
+  return {
+    ...msig,
+    subsignatures: msig.subsignatures.map(subsig =>
+      sameBytes(subsig.publicKey, publicKey)
+        ? { publicKey: subsig.publicKey, signature: Buffer.from(signature) }
+        : subsig
+    ),
+  }
+}
+
+/**
+ * Merges the subsignatures of several copies of the same multisig signature.
+ * @throws {Error} If the multisig parameters differ or two copies carry
+ * different signatures for the same key.
+ */
+export function mergeMultisigSignatures(
+  parts: MultisigSignature[]
+): MultisigSignature {
+  if (parts.length === 0) {
+    throw new Error('Nothing to merge')
+  }
+  const [first] = parts
+  const subsignatures = first.subsignatures.map(subsig => ({ ...subsig }))
+  parts.forEach((msig, i) => {
+    if (!sameMultisig(first, msig)) {
+      throw new Error(`Cannot merge: multisig parameters of ${i} differ`)
+    }
+    msig.subsignatures.forEach(({ signature }, j) => {
+      if (!signature) return
+      const current = subsignatures[j].signature
+      if (current && !sameBytes(current, signature)) {
+        throw new Error(
+          `Cannot merge: conflicting signatures for subkey ${j} in ${i}`
+        )
+      }
+      subsignatures[j].signature = Buffer.from(signature)
+    })
+  })
+  return { ...first, subsignatures }
+}
+
+/**
+ * Wraps a transaction in an unsigned multisig envelope with one empty
+ * subsignature per public key. `authAddress` is set when the multisig is
+ * not the sender, i.e. the sender has been rekeyed to it.
+ * @throws {Error} If the version, threshold or public keys are invalid.
+ */
+export function createMultisigTransaction(
+  transaction: AlgorandTransaction,
+  params: MultisigMetadata
+): SignedTransaction {
+  const multisigKey = multisigPublicKey(params)
+  return {
+    transaction,
+    multisig: createMultisigSignature(params),
+    ...(multisigKey.equals(transaction.sender)
+      ? {}
+      : { authAddress: multisigKey }),
+  }
+}
+
+/**
+ * Returns a copy of a multisig transaction with the subsignature of
+ * `publicKey` filled in. The signature is checked against the transaction.
+ * @throws {Error} If the key is not part of the multisig or the signature is
+ * invalid.
+ */
+export function appendMultisigSignature(
+  stxn: SignedTransaction,
+  publicKey: Uint8Array,
+  signature: Uint8Array
+): SignedTransaction {
+  const multisig = addMultisigSubsignature(
+    requireMultisig(stxn),
+    publicKey,
+    signature
+  )
+  const blob = encodeTransaction(stxn.transaction)
+  if (!verifyTransactionSignature(blob, signature, publicKey)) {
+    throw new Error(
+      `Invalid signature from ${encodeAddress(publicKey)} for this transaction`
+    )
+  }
+  return { ...stxn, multisig }
+}
+
+/**
+ * Merges partially signed copies of the same multisig transaction, e.g. from
+ * several devices or files, into one.
+ * @param parts - Signed transactions or their msgpack blobs.
+ * @throws {Error} If the parts differ in transaction, multisig parameters or
+ * authorizing address, or carry conflicting signatures for the same key.
+ */
+export function mergeMultisigTransactions(
+  parts: (SignedTransaction | Uint8Array)[]
+): SignedTransaction {
+  if (parts.length === 0) {
+    throw new Error('Nothing to merge')
+  }
+  const stxns = parts.map(part =>
+    part instanceof Uint8Array ? decodeSignedTransaction(part) : part
+  )
+  const [first] = stxns
+  const blob = encodeTransaction(first.transaction)
+  stxns.forEach((stxn, i) => {
+    if (!encodeTransaction(stxn.transaction).equals(blob)) {
+      throw new Error(`Cannot merge: transaction ${i} differs`)
+    }
+    if (!sameMultisig(requireMultisig(first), requireMultisig(stxn))) {
+      throw new Error(`Cannot merge: multisig parameters of ${i} differ`)
+    }
+    if (!sameBytes(first.authAddress, stxn.authAddress)) {
+      throw new Error(`Cannot merge: authorizing address of ${i} differs`)
+    }
+  })
+
+  return {
+    ...first,
+    multisig: mergeMultisigSignatures(stxns.map(requireMultisig)),
+  }
+}
+
+/**
+ * Counts the subsignatures that verify against the transaction.
+ */
+export function countMultisigSignatures(stxn: SignedTransaction): number {
+  const msig = requireMultisig(stxn)
+  const blob = encodeTransaction(stxn.transaction)
+  return msig.subsignatures.filter(
+    ({ publicKey, signature }) =>
+      signature !== undefined &&
+      verifyTransactionSignature(blob, signature, publicKey)
+  ).length
+}
+
+/**
+ * Checks that a multisig transaction is ready to submit and encodes it:
+ * the multisig must authorize the sender, every signature must be valid and
+ * at least `threshold` subkeys must have signed.
+ * @throws {Error} If any of those checks fails.
+ */
+export function finalizeMultisigTransaction(stxn: SignedTransaction): Buffer {
+  const msig = requireMultisig(stxn)
+  const multisigKey = multisigPublicKey(multisigMetadataOf(msig))
+  if (!multisigKey.equals(stxn.authAddress ?? stxn.transaction.sender)) {
+    throw new Error(
+      `Multisig ${encodeAddress(multisigKey)} does not authorize the sender`
+    )
+  }
+
+  const present = msig.subsignatures.filter(s => s.signature).length
+  const valid = countMultisigSignatures(stxn)
+  if (valid !== present) {
+    throw new Error(`Invalid multisig: ${present - valid} bad signature(s)`)
+  }
+  if (valid < msig.threshold) {
+    throw new Error(
+      `Multisig threshold not met: ${valid} of ${msig.threshold} signatures`
+    )
+  }
+  return encodeSignedTransaction(stxn)
+}
@@ -0,0 +1,2 @@
+export * from './filestore'
+export * from './signfile'
@@ -0,0 +1,118 @@
+import { OperationCancelledError } from './errors'
+import { OperationOptions } from './types'
+
+export interface Operation {
+  // Aborted on cancellation or timeout, with an OperationCancelledError
+  signal?: AbortSignal
+  // Clears the timer and listeners once the call settles
+  done: () => void
+}
+
+/**
+ * Returns the OperationCancelledError of an aborted signal.
+ */
+export function cancellationOf(signal: AbortSignal): OperationCancelledError {
+  return signal.reason instanceof OperationCancelledError
+    ? signal.reason
+    : new OperationCancelledError('aborted', signal.reason)
+}
+
+/**
+ * Combines the signal and timeout of a call into one signal. Nested calls
+ * are given `{ signal }` so the timeout covers the whole operation.
+ * @throws {Error} If the timeout is not a positive number.
+ */
+export function startOperation({
+  signal,
+  timeout,
+}: OperationOptions = {}): Operation {
+  if (timeout === undefined) {
+    return { signal, done: () => {} }
+  }
+  if (!(timeout > 0)) {
+    throw new Error(`Invalid timeout: ${timeout}`)
+  }
+
+  const controller = new AbortController()
+  const onAbort = () => controller.abort(cancellationOf(signal as AbortSignal))
+  const timer = setTimeout(
+    () => controller.abort(new OperationCancelledError('timeout', timeout)),
+    timeout
+  )
+  if (signal?.aborted) {
+    onAbort()
+  } else {
+    signal?.addEventListener('abort', onAbort)
+  }
+
+  return {
+    signal: controller.signal,
+    done: () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    },
+  }
+}
+
+/**
+ * @throws {OperationCancelledError} If the signal is aborted.
+ */
+export function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw cancellationOf(signal)
+  }
+}
+
+/**
+ * Settles with the promise, or rejects with an OperationCancelledError as
+ * soon as the signal is aborted. The outcome of an abandoned promise is
+ * dropped so it cannot surface as an unhandled rejection.
+ */
+export function raceCancellation<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!signal) {
+    return promise
+  }
+  throwIfCancelled(signal)
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      promise.catch(() => {})
+      reject(cancellationOf(signal))
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort)
+        resolve(value)
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort)
+        reject(error)
+      }
+    )
+  })
+}
+
+/**
+ * Resolves after `ms` milliseconds.
+ * @throws {OperationCancelledError} If the signal is aborted meanwhile.
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(cancellationOf(signal))
+  }
+  return raceCancellation(
+    new Promise<void>(resolve => {
+      const onAbort = () => clearTimeout(timer)
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, ms)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    }),
+    signal
+  )
+}
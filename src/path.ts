@@ -0,0 +1,157 @@
+import { Bip44Path, DerivationPath } from './types'
+
+export const HARDENED = 0x80000000
+const PURPOSE = 44
+const COIN_TYPE = 283
+const PATH_DEPTH = 5
+// Deepest path the Ledger OS derives
+const MAX_BIP32_DEPTH = 10
+const EXPECTED = "m/44'/283'/<account>'/<change>/<index>"
+
+function isIndex(value: unknown, max: number): value is number {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= 0 &&
+    (value as number) <= max
+  )
+}
+
+function isHardened(index: number) {
+  return index >= HARDENED
+}
+
+function parseComponent(component: string, path: string): number {
+  const match = /^(\d+)(['hH]?)$/.exec(component)
+  const value = match ? Number(match[1]) : NaN
+  if (!match || !isIndex(value, HARDENED - 1)) {
+    throw new Error(`Invalid path ${path}: bad component "${component}"`)
+  }
+  return match[2] ? value + HARDENED : value
+}
+
+/**
+ * Parses a BIP32 path string into its indexes, with the hardened bit set on
+ * components marked with ' or h. Any depth the Ledger OS derives (1 to 10) is
+ * accepted.
+ * @throws {Error} If the path is malformed.
+ */
+export function parseBip32Path(path: string): number[] {
+  const [root, ...components] = path.split('/')
+  if (root !== 'm' || components.length === 0) {
+    throw new Error(`Invalid path ${path}: expected m/<index>/...`)
+  }
+  if (components.length > MAX_BIP32_DEPTH) {
+    throw new Error(
+      `Invalid path ${path}: deeper than ${MAX_BIP32_DEPTH} levels`
+    )
+  }
+  return components.map(component => parseComponent(component, path))
+}
+
+/**
+ * Formats BIP32 indexes as a path string, e.g. "m/44'/283'/0'/0/0".
+ */
+export function formatBip32Path(path: number[]): string {
+  return ['m', ...path.map(i => (isHardened(i) ? `${i - HARDENED}'` : i))].join(
+    '/'
+  )
+}
+
+/**
+ * Serializes BIP32 indexes as 4-byte little-endian words, the encoding of
+ * paths in APDUs.
+ * @throws {Error} If the depth or an index is out of range.
+ */
+export function serializeBip32Path(path: number[]): Buffer {
+  if (path.length === 0 || path.length > MAX_BIP32_DEPTH) {
+    throw new Error(
+      `Invalid path: expected 1 to ${MAX_BIP32_DEPTH} levels, got ${path.length}`
+    )
+  }
+  const buf = Buffer.alloc(4 * path.length)
+  path.forEach((index, i) => {
+    if (!isIndex(index, 0xffffffff)) {
+      throw new Error(`Invalid path: bad index ${index} at level ${i}`)
+    }
+    buf.writeUInt32LE(index, 4 * i)
+  })
+  return buf
+}
+
+function fromBip44(path: Bip44Path): number[] {
+  const { account, change = 0, index = 0 } = path
+  ;[account, change, index].forEach(value => {
+    if (!isIndex(value, HARDENED - 1)) {
+      throw new Error(
+        `Invalid path: ${value} is not an index between 0 and ${HARDENED - 1}`
+      )
+    }
+  })
+  return [
+    PURPOSE + HARDENED,
+    COIN_TYPE + HARDENED,
+    account + HARDENED,
+    change,
+    index,
+  ]
+}
+
+function toIndexes(path: DerivationPath): number[] {
+  if (typeof path === 'number') {
+    return fromBip44({ account: path })
+  }
+  if (typeof path === 'string') {
+    return parseBip32Path(path)
+  }
+  if (Array.isArray(path)) {
+    path.forEach((index, i) => {
+      if (!isIndex(index, 0xffffffff)) {
+        throw new Error(`Invalid path: bad index ${index} at level ${i}`)
+      }
+    })
+    return [...path]
+  }
+  if (typeof path === 'object' && path !== null && 'account' in path) {
+    return fromBip44(path)
+  }
+  throw new Error(`Invalid path: unsupported type ${typeof path}`)
+}
+
+/**
+ * Resolves any form of DerivationPath into the five indexes of an Algorand
+ * path, m/44'/283'/<account>'/<change>/<index>. Change and index may be
+ * hardened, as some wallets derive them that way.
+ * @throws {Error} If the path is malformed or not an Algorand path.
+ */
+export function toAlgorandPath(path: DerivationPath): number[] {
+  const indexes = toIndexes(path)
+  if (
+    indexes.length !== PATH_DEPTH ||
+    indexes[0] !== PURPOSE + HARDENED ||
+    indexes[1] !== COIN_TYPE + HARDENED ||
+    !isHardened(indexes[2])
+  ) {
+    throw new Error(
+      `Invalid path ${formatBip32Path(indexes)}: expected ${EXPECTED}`
+    )
+  }
+  return indexes
+}
+
+/**
+ * Returns the path string of any form of DerivationPath.
+ * @throws {Error} If the path is malformed or not an Algorand path.
+ */
+export function formatDerivationPath(path: DerivationPath): string {
+  return formatBip32Path(toAlgorandPath(path))
+}
+
+/**
+ * Returns the account of a path m/44'/283'/<account>'/0/0, the keys the app
+ * addresses by account ID, or undefined for any other path.
+ * @throws {Error} If the path is malformed or not an Algorand path.
+ */
+export function getPathAccountId(path: DerivationPath): number | undefined {
+  const [, , account, change, index] = toAlgorandPath(path)
+  return change === 0 && index === 0 ? account - HARDENED : undefined
+}
@@ -0,0 +1,245 @@
+import { encodeAddress } from './address'
+import { decodeTransaction } from './transaction'
+import {
+  AlgorandTransaction,
+  OnApplicationComplete,
+  PreviewOptions,
+  TransactionPreview,
+  TransactionScreen,
+  TransactionType,
+  Uint64,
+} from './types'
+
+const ALGO_DECIMALS = 6
+const MAINNET_GENESIS_ID = 'mainnet-v1.0'
+const MAINNET_GENESIS_HASH = 'wGHE2Pwdvd7S12BL5FaOP20EGYesN73ktiC1qzkkit8='
+
+const TYPE_NAMES: Record<TransactionType, string> = {
+  [TransactionType.pay]: 'Payment',
+  [TransactionType.keyreg]: 'Key reg',
+  [TransactionType.acfg]: 'Asset Config',
+  [TransactionType.axfer]: 'Asset xfer',
+  [TransactionType.afrz]: 'Asset Freeze',
+  [TransactionType.appl]: 'Application',
+  [TransactionType.stpf]: 'State Proof',
+}
+
+const ON_COMPLETE_NAMES: Record<OnApplicationComplete, string> = {
+  [OnApplicationComplete.NoOp]: 'NoOp',
+  [OnApplicationComplete.OptIn]: 'OptIn',
+  [OnApplicationComplete.CloseOut]: 'CloseOut',
+  [OnApplicationComplete.ClearState]: 'ClearState',
+  [OnApplicationComplete.UpdateApplication]: 'UpdateApp',
+  [OnApplicationComplete.DeleteApplication]: 'DeleteApp',
+}
+
+/**
+ * Formats an integer amount of base units with the given number of decimals,
+ * dropping trailing zeros (e.g. 1500000 with 6 decimals is "1.5").
+ */
+export function formatAmount(amount: Uint64, decimals: number): string {
+  const digits = BigInt(amount)
+    .toString()
+    .padStart(decimals + 1, '0')
+  const whole = digits.slice(0, digits.length - decimals)
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '')
+  return fraction ? `${whole}.${fraction}` : whole
+}
+
+function formatAlgos(amount: Uint64 = 0) {
+  return `${formatAmount(amount, ALGO_DECIMALS)} ALGO`
+}
+
+function formatAssetAmount(
+  assetId: Uint64 = 0,
+  amount: Uint64 = 0,
+  options: PreviewOptions
+) {
+  const asset = options.assets?.[assetId.toString()]
+  if (!asset) return amount.toString()
+  const value = formatAmount(amount, asset.decimals)
+  return asset.unitName ? `${value} ${asset.unitName}` : value
+}
+
+function formatBytes(bytes: Uint8Array) {
+  const printable = bytes.every(b => b >= 0x20 && b < 0x7f)
+  return printable && bytes.length > 0
+    ? Buffer.from(bytes).toString('ascii')
+    : Buffer.from(bytes).toString('base64')
+}
+
+function isZero(value?: Uint8Array) {
+  return !value || value.every(b => b === 0)
+}
+
+class ScreenList {
+  readonly screens: TransactionScreen[] = []
+
+  add(title: string, value: string) {
+    this.screens.push({ title, value })
+  }
+
+  address(title: string, value?: Uint8Array) {
+    if (!isZero(value)) this.add(title, encodeAddress(value as Uint8Array))
+  }
+
+  bytes(title: string, value?: Uint8Array) {
+    if (!isZero(value)) {
+      this.add(title, Buffer.from(value as Uint8Array).toString('base64'))
+    }
+  }
+
+  optional(title: string, value: string | number | bigint | undefined) {
+    if (value !== undefined && value !== '') this.add(title, value.toString())
+  }
+}
+
+function addCommonScreens(s: ScreenList, txn: AlgorandTransaction) {
+  s.add('Txn type', TYPE_NAMES[txn.type])
+  s.address('Sender', txn.sender)
+  s.address('Rekey to', txn.rekeyTo)
+  s.add('Fee', formatAlgos(txn.fee))
+
+  const genesisHash = Buffer.from(txn.genesisHash).toString('base64')
+  if (txn.genesisId && txn.genesisId !== MAINNET_GENESIS_ID) {
+    s.add('Genesis ID', txn.genesisId)
+  }
+  if (genesisHash !== MAINNET_GENESIS_HASH) {
+    s.add('Genesis hash', genesisHash)
+  }
+  s.bytes('Group ID', txn.group)
+  if (txn.note && txn.note.length > 0) {
+    s.add('Note', `${txn.note.length} bytes`)
+  }
+}
+
+function addTypeScreens(
+  s: ScreenList,
+  txn: AlgorandTransaction,
+  options: PreviewOptions
+) {
+  switch (txn.type) {
+    case TransactionType.pay:
+      s.address('Receiver', txn.receiver)
+      s.add('Amount', formatAlgos(txn.amount))
+      s.address('Close to', txn.closeRemainderTo)
+      break
+    case TransactionType.keyreg:
+      if (txn.nonParticipation) {
+        s.add('Participating', 'No')
+        break
+      }
+      s.bytes('Vote PK', txn.voteKey)
+      s.bytes('VRF PK', txn.selectionKey)
+      s.bytes('SPRF PK', txn.stateProofKey)
+      s.optional('Vote first', txn.voteFirst)
+      s.optional('Vote last', txn.voteLast)
+      s.optional('Key dilution', txn.voteKeyDilution)
+      s.add('Participating', 'Yes')
+      break
+    case TransactionType.acfg: {
+      s.add('Asset ID', txn.assetIndex ? txn.assetIndex.toString() : 'Create')
+      const params = txn.params
+      if (!params) {
+        if (txn.assetIndex) s.add('Asset', 'Destroy')
+        break
+      }
+      s.optional('Total units', params.total)
+      s.optional('Decimals', params.decimals)
+      s.add('Default frozen', params.defaultFrozen ? 'Frozen' : 'Unfrozen')
+      s.optional('Unit name', params.unitName)
+      s.optional('Asset name', params.assetName)
+      s.optional('URL', params.url)
+      s.bytes('Metadata hash', params.metadataHash)
+      s.address('Manager', params.manager)
+      s.address('Reserve', params.reserve)
+      s.address('Freezer', params.freeze)
+      s.address('Clawback', params.clawback)
+      break
+    }
+    case TransactionType.axfer:
+      s.add('Asset ID', (txn.assetIndex ?? 0).toString())
+      s.add('Amount', formatAssetAmount(txn.assetIndex, txn.amount, options))
+      s.address('Source', txn.assetSender)
+      s.address('Destination', txn.receiver)
+      s.address('Close to', txn.closeRemainderTo)
+      break
+    case TransactionType.afrz:
+      s.add('Asset ID', (txn.assetIndex ?? 0).toString())
+      s.address('Freeze account', txn.freezeAccount)
+      s.add('Freeze flag', txn.frozen ? 'Frozen' : 'Unfrozen')
+      break
+    case TransactionType.appl:
+      s.add('App ID', (txn.appIndex ?? 0).toString())
+      s.add(
+        'On completion',
+        ON_COMPLETE_NAMES[txn.onComplete ?? OnApplicationComplete.NoOp]
+      )
+      txn.boxes?.forEach((box, i) =>
+        s.add(`Box ${i}`, `${box.appIndex}:${formatBytes(box.name)}`)
+      )
+      txn.foreignApps?.forEach((id, i) =>
+        s.add(`Foreign app ${i}`, id.toString())
+      )
+      txn.foreignAssets?.forEach((id, i) =>
+        s.add(`Foreign asset ${i}`, id.toString())
+      )
+      txn.accounts?.forEach((account, i) => s.address(`Account ${i}`, account))
+      txn.appArgs?.forEach((arg, i) => s.add(`App arg ${i}`, formatBytes(arg)))
+      if (txn.globalSchema) {
+        s.add(
+          'Global schema',
+          `uints: ${txn.globalSchema.numUints ?? 0}, byteslices: ${txn.globalSchema.numByteSlices ?? 0}`
+        )
+      }
+      if (txn.localSchema) {
+        s.add(
+          'Local schema',
+          `uints: ${txn.localSchema.numUints ?? 0}, byteslices: ${txn.localSchema.numByteSlices ?? 0}`
+        )
+      }
+      s.optional('Extra pages', txn.extraPages)
+      if (txn.approvalProgram && txn.approvalProgram.length > 0) {
+        s.add('Approve', `${txn.approvalProgram.length} bytes`)
+      }
+      if (txn.clearProgram && txn.clearProgram.length > 0) {
+        s.add('Clear', `${txn.clearProgram.length} bytes`)
+      }
+      break
+    case TransactionType.stpf:
+      s.add('State proof type', (txn.stateProofType ?? 0).toString())
+      break
+  }
+}
+
+/**
+ * Lists the screens the Algorand Ledger app shows for a transaction, in the
+ * order it shows them: transaction type, common fields, then the fields of
+ * the specific transaction type. Mainnet genesis fields are omitted like on
+ * the device.
+ */
+export function getTransactionScreens(
+  txn: AlgorandTransaction,
+  options: PreviewOptions = {}
+): TransactionScreen[] {
+  const s = new ScreenList()
+  addCommonScreens(s, txn)
+  addTypeScreens(s, txn, options)
+  return s.screens
+}
+
+/**
+ * Decodes a msgpack transaction blob, as passed to `AlgorandApp.sign`, and
+ * lists the screens the device will show for it.
+ * @throws {Error} If the blob is not a well-formed transaction.
+ */
+export function previewTransaction(
+  blob: Uint8Array,
+  options: PreviewOptions = {}
+): TransactionPreview {
+  const transaction = decodeTransaction(blob)
+  return {
+    transaction,
+    screens: getTransactionScreens(transaction, options),
+  }
+}
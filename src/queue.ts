@@ -0,0 +1,156 @@
+import { cancellationOf, throwIfCancelled } from './operation'
+
+export interface QueuedOperation {
+  id: number
+  // Name of the AlgorandApp method, e.g. "sign"
+  label: string
+  priority: number
+  // Date.now() when the operation was queued
+  enqueuedAt: number
+}
+
+export interface QueueRunOptions {
+  label?: string
+  // Higher runs first; equal priorities run in call order
+  priority?: number
+  // Aborting it removes the operation while it waits
+  signal?: AbortSignal
+}
+
+interface Waiting {
+  operation: QueuedOperation
+  start: () => void
+}
+
+/**
+ * Runs operations one at a time, so that the APDUs of a multi-chunk command
+ * are never interleaved with those of another call on the same transport.
+ * Waiting operations are ordered by priority, then by arrival. An operation
+ * keeps its slot until its held exchanges settle, even once it has settled.
+ */
+export class ExchangeQueue {
+  private current?: QueuedOperation
+  // Held exchanges of the current operation still waiting for the device
+  private exchanges = 0
+  private finished = false
+  private waiting: Waiting[] = []
+  private listeners = new Set<(queue: ExchangeQueue) => void>()
+  private nextId = 1
+
+  /**
+   * The operation holding the transport, if any. A cancelled operation
+   * holds it until the device answers its last exchange.
+   */
+  get active(): QueuedOperation | undefined {
+    return this.current
+  }
+
+  /**
+   * The waiting operations, in the order they will run.
+   */
+  get pending(): QueuedOperation[] {
+    return this.waiting.map(({ operation }) => operation)
+  }
+
+  get size(): number {
+    return this.waiting.length
+  }
+
+  /**
+   * Calls `listener` whenever an operation is queued, starts, finishes or
+   * is cancelled while waiting. Returns a function that unsubscribes it.
+   */
+  onChange(listener: (queue: ExchangeQueue) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Runs `task` once every operation queued before it, or with a higher
+   * priority, has settled.
+   * @throws {OperationCancelledError} If the signal is aborted while the
+   * operation waits.
+   */
+  run<T>(task: () => Promise<T>, options: QueueRunOptions = {}): Promise<T> {
+    const { label = 'operation', priority = 0, signal } = options
+    throwIfCancelled(signal)
+    const operation: QueuedOperation = {
+      id: this.nextId++,
+      label,
+      priority,
+      enqueuedAt: Date.now(),
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(
+          entry => entry.operation !== operation
+        )
+        this.notify()
+        reject(cancellationOf(signal as AbortSignal))
+      }
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort)
+        this.current = operation
+        this.notify()
+        new Promise<T>(settle => settle(task()))
+          .then(resolve, reject)
+          .finally(() => {
+            this.finished = true
+            this.release()
+          })
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true })
+      const index = this.waiting.findIndex(
+        entry => entry.operation.priority < priority
+      )
+      this.waiting.splice(index === -1 ? this.waiting.length : index, 0, {
+        operation,
+        start,
+      })
+      this.notify()
+      this.next()
+    })
+  }
+
+  /**
+   * Keeps the slot of the running operation until `exchange` settles. The
+   * caller of an operation abandoned on cancellation is answered at once,
+   * but transports refuse a new APDU while the device has not answered the
+   * previous one, so the next operation waits for it.
+   */
+  hold(exchange: Promise<unknown>): void {
+    if (!this.current) {
+      return
+    }
+    this.exchanges += 1
+    const settle = () => {
+      this.exchanges -= 1
+      this.release()
+    }
+    exchange.then(settle, settle)
+  }
+
+  private release() {
+    if (!this.finished || this.exchanges > 0) {
+      return
+    }
+    this.finished = false
+    this.current = undefined
+    this.notify()
+    this.next()
+  }
+
+  private next() {
+    if (!this.current) {
+      this.waiting.shift()?.start()
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener(this))
+  }
+}
@@ -0,0 +1,116 @@
+import Transport from '@ledgerhq/hw-transport'
+import { ReplayMismatchError } from './errors'
+import { ApduHeader, ApduTraceEntry, ApduTranscript } from './types'
+
+function describeApdu(header: ApduHeader, dataLength: number): string {
+  const { cla, ins, p1, p2 } = header
+  const bytes = [cla, ins, p1, p2].map(b => b.toString(16).padStart(2, '0'))
+  return `${bytes.join(' ')} (${dataLength} bytes)`
+}
+
+// Returns why the APDU does not match the entry, if it does not
+function compareApdu(entry: ApduTraceEntry, apdu: Buffer): string | undefined {
+  const [cla, ins, p1, p2] = apdu
+  const data = apdu.subarray(5)
+  const expected = describeApdu(entry, entry.dataLength)
+  const actual = describeApdu({ cla, ins, p1, p2 }, data.length)
+  if (expected !== actual) {
+    return `expected ${expected}, got ${actual}`
+  }
+  if (entry.data === undefined) {
+    // Redacted: the header and length are all there is to compare
+    return undefined
+  }
+  const expectedData = Buffer.from(entry.data, 'hex')
+  const offset = expectedData.findIndex((byte, i) => byte !== data[i])
+  if (offset !== -1) {
+    return `${actual} differs from the transcript at data byte ${offset}`
+  }
+  return undefined
+}
+
+/**
+ * A transport that plays back a transcript recorded by TracingTransport.
+ * Each APDU must match the next entry, header and data, or the exchange
+ * throws ReplayMismatchError (wrapped in a DeviceTransportError by
+ * AlgorandApp) and so do all later ones. Responses and status words are
+ * those of the transcript; entries recorded with a transport error throw
+ * that error again. Redacted entries are matched on their header and
+ * length and can only be replayed when their response was empty.
+ */
+export class ReplayTransport extends Transport {
+  private readonly expected: ApduTraceEntry[]
+  private position = 0
+  private failure?: ReplayMismatchError
+
+  /**
+   * @throws {Error} If the transcript has an unsupported version or an
+   * entry whose response was not recorded.
+   */
+  constructor(transcript: ApduTranscript | ApduTraceEntry[]) {
+    super()
+    if (!Array.isArray(transcript) && transcript.version !== 1) {
+      throw new Error(`Unsupported transcript version: ${transcript.version}`)
+    }
+    const entries = Array.isArray(transcript) ? transcript : transcript.entries
+    entries.forEach((entry, i) => {
+      const replayable =
+        entry.error !== undefined ||
+        (entry.statusWord !== undefined &&
+          (entry.response !== undefined || !entry.responseLength))
+      if (!replayable) {
+        throw new Error(`Transcript entry ${i} has no response to replay`)
+      }
+    })
+    this.expected = entries
+  }
+
+  /**
+   * Number of transcript entries not played yet.
+   */
+  get remaining(): number {
+    return this.expected.length - this.position
+  }
+
+  async exchange(apdu: Buffer): Promise<Buffer> {
+    if (this.failure) {
+      throw this.failure
+    }
+    const index = this.position
+    const entry = this.expected[index]
+    const mismatch = entry
+      ? compareApdu(entry, apdu)
+      : `unexpected ${describeApdu({ cla: apdu[0], ins: apdu[1], p1: apdu[2], p2: apdu[3] }, apdu.length - 5)} after the end of the transcript`
+    if (mismatch) {
+      this.failure = new ReplayMismatchError(index, mismatch, entry)
+      throw this.failure
+    }
+
+    this.position += 1
+    if (entry.error !== undefined) {
+      throw new Error(entry.error)
+    }
+    const status = Buffer.alloc(2)
+    status.writeUInt16BE(entry.statusWord as number)
+    return Buffer.concat([Buffer.from(entry.response ?? '', 'hex'), status])
+  }
+
+  /**
+   * Checks that every APDU matched and the whole transcript was played,
+   * e.g. at the end of a test.
+   * @throws {ReplayMismatchError} Otherwise.
+   */
+  assertComplete(): void {
+    if (this.failure) {
+      throw this.failure
+    }
+    const entry = this.expected[this.position]
+    if (entry) {
+      throw new ReplayMismatchError(
+        this.position,
+        `expected ${describeApdu(entry, entry.dataLength)}, but no more APDUs were sent`,
+        entry
+      )
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { readFile, writeFile } from 'fs/promises'
+import { basename, dirname, extname, join } from 'path'
+import type { AlgorandApp } from './app'
+import {
+  detectTransactionFileFormat,
+  readTransactionFileRecords,
+  serializeTransactionFile,
+  signTransactionRecords,
+} from './txnfile'
+import { SignTransactionFileOptions, SignTransactionFileResult } from './types'
+
+/**
+ * Returns where signTransactionFile writes by default: x.txn becomes
+ * x.stxn, other names get .stxn appended.
+ */
+export function getSignedFileName(input: string): string {
+  const name =
+    extname(input) === '.txn' ? basename(input, '.txn') : basename(input)
+  return join(dirname(input), `${name}.stxn`)
+}
+
+/**
+ * Signs a transaction file for an air-gapped workflow: the records are read
+ * in any format, signed with signTransactionRecords and written to
+ * `options.output`. Records left unsigned are copied byte for byte when the
+ * output is in msgpack or base64.
+ * @throws {Error} If the file is invalid.
+ */
+export async function signTransactionFile(
+  app: AlgorandApp,
+  input: string,
+  options: SignTransactionFileOptions = {}
+): Promise<SignTransactionFileResult> {
+  const { output = getSignedFileName(input), format, ...signOptions } = options
+  const content = await readFile(input)
+  const inputFormat = detectTransactionFileFormat(content)
+  let records: Buffer[]
+  try {
+    records = readTransactionFileRecords(content, inputFormat)
+  } catch (e) {
+    throw new Error(`${input}: ${(e as Error).message}`)
+  }
+
+  const result = await signTransactionRecords(app, records, signOptions)
+  const outputFormat = format ?? inputFormat
+  await writeFile(
+    output,
+    serializeTransactionFile(result.records, outputFormat)
+  )
+  return { ...result, output, format: outputFormat }
+}
@@ -0,0 +1,156 @@
+import Transport from '@ledgerhq/hw-transport'
+import {
+  ApduHeader,
+  ApduTraceEntry,
+  ApduTranscript,
+  TracingOptions,
+} from './types'
+
+const DEFAULT_MAX_ENTRIES = 1000
+
+function hex(value: number): string {
+  return value.toString(16).padStart(2, '0')
+}
+
+/**
+ * Formats an entry as the line passed to TracingOptions.logger, e.g.
+ * `#3 => 80 08 00 80 (255 bytes) <= 9000 (0 bytes) 12 ms`.
+ */
+export function formatTraceEntry(entry: ApduTraceEntry): string {
+  const { index, cla, ins, p1, p2, dataLength, latency } = entry
+  const command = `#${index} => ${[cla, ins, p1, p2].map(hex).join(' ')} (${dataLength} bytes)`
+  const outcome =
+    entry.statusWord === undefined
+      ? `failed: ${entry.error}`
+      : `${entry.statusWord.toString(16).padStart(4, '0')} (${entry.responseLength} bytes)`
+  return `${command} <= ${outcome} ${latency} ms`
+}
+
+/**
+ * A transport that records every APDU exchanged through another one: the
+ * header, data length, status word and latency, and unless redacted the
+ * command and response bytes. Pass it to AlgorandApp in place of the
+ * wrapped transport; getTranscript() returns the session as JSON, e.g. to
+ * attach to a support ticket.
+ */
+export class TracingTransport extends Transport {
+  private readonly options: TracingOptions
+  private readonly startedAt = new Date().toISOString()
+  private recorded: ApduTraceEntry[] = []
+  private dropped = 0
+  private nextIndex = 0
+
+  constructor(
+    readonly transport: Transport,
+    options: TracingOptions = {}
+  ) {
+    super()
+    this.options = options
+    this.deviceModel = transport.deviceModel
+  }
+
+  /**
+   * The recorded exchanges, oldest first.
+   */
+  get entries(): ApduTraceEntry[] {
+    return [...this.recorded]
+  }
+
+  async exchange(
+    apdu: Buffer,
+    options?: { abortTimeoutMs?: number }
+  ): Promise<Buffer> {
+    const [cla, ins, p1, p2] = apdu
+    const header: ApduHeader = { cla, ins, p1, p2 }
+    const data = apdu.subarray(5)
+    const { redact = false } = this.options
+    const redacted = typeof redact === 'function' ? redact(header) : redact
+
+    const entry: ApduTraceEntry = {
+      index: this.nextIndex,
+      timestamp: new Date().toISOString(),
+      ...header,
+      dataLength: data.length,
+      latency: 0,
+    }
+    this.nextIndex += 1
+    if (redacted) {
+      entry.redacted = true
+    } else {
+      entry.data = data.toString('hex')
+    }
+
+    const start = Date.now()
+    try {
+      const response = await this.transport.exchange(apdu, options)
+      entry.latency = Date.now() - start
+      const body = response.subarray(0, -2)
+      entry.statusWord =
+        response.length >= 2
+          ? response.readUInt16BE(response.length - 2)
+          : undefined
+      entry.responseLength = body.length
+      if (!redacted) {
+        entry.response = body.toString('hex')
+      }
+      return response
+    } catch (e) {
+      entry.latency = Date.now() - start
+      entry.error = e instanceof Error ? e.message : String(e)
+      throw e
+    } finally {
+      this.record(entry)
+    }
+  }
+
+  /**
+   * Returns the session so far, ready for JSON.stringify.
+   */
+  getTranscript(): ApduTranscript {
+    return {
+      version: 1,
+      startedAt: this.startedAt,
+      dropped: this.dropped,
+      entries: this.entries,
+    }
+  }
+
+  /**
+   * Forgets the recorded exchanges; indexes keep counting.
+   */
+  clear(): void {
+    this.recorded = []
+    this.dropped = 0
+  }
+
+  setScrambleKey(key: string): void {
+    this.transport.setScrambleKey(key)
+  }
+
+  setExchangeTimeout(exchangeTimeout: number): void {
+    super.setExchangeTimeout(exchangeTimeout)
+    this.transport.setExchangeTimeout(exchangeTimeout)
+  }
+
+  on(...args: Parameters<Transport['on']>): void {
+    this.transport.on(...args)
+  }
+
+  off(...args: Parameters<Transport['off']>): void {
+    this.transport.off(...args)
+  }
+
+  close(): Promise<void> {
+    return this.transport.close()
+  }
+
+  private record(entry: ApduTraceEntry) {
+    const { logger, maxEntries = DEFAULT_MAX_ENTRIES } = this.options
+    this.recorded.push(entry)
+    if (this.recorded.length > maxEntries) {
+      this.dropped += this.recorded.length - maxEntries
+      this.recorded.splice(0, this.recorded.length - maxEntries)
+    }
+    logger?.(formatTraceEntry(entry), entry)
+  }
+}
@@ -0,0 +1,729 @@
+import { sha512_256 } from '@noble/hashes/sha2'
+import { base32Encode } from './base32'
+import {
+  decode,
+  encode,
+  isMsgpackMap,
+  MsgpackMap,
+  MsgpackValue,
+} from './msgpack'
+import {
+  AlgorandTransaction,
+  AssetParams,
+  BoxReference,
+  LogicSig,
+  MultisigSignature,
+  SignedTransaction,
+  SignedTransactionResult,
+  StateSchema,
+  TransactionType,
+  Uint64,
+} from './types'
+import { verifyTransactionSignature } from './verify'
+
+const ADDRESS_LENGTH = 32
+const HASH_LENGTH = 32
+const STATE_PROOF_KEY_LENGTH = 64
+
+function isZeroBytes(bytes: Uint8Array) {
+  return bytes.every(b => b === 0)
+}
+
+function checkLength(field: string, bytes: Uint8Array, length: number) {
+  if (bytes.length !== length) {
+    throw new Error(
+      `Invalid ${field}: expected ${length} bytes, got ${bytes.length}`
+    )
+  }
+}
+
+function uint(field: string, value?: Uint64): Uint64 | undefined {
+  if (value === undefined) return undefined
+  const big = BigInt(value)
+  if (big < BigInt(0) || big > BigInt('0xffffffffffffffff')) {
+    throw new Error(`Invalid ${field}: ${value} is not a uint64`)
+  }
+  return big === BigInt(0) ? undefined : value
+}
+
+// Fixed-size byte fields are omitted when they are all zeros
+function fixed(
+  field: string,
+  value: Uint8Array | undefined,
+  length: number
+): Uint8Array | undefined {
+  if (value === undefined) return undefined
+  checkLength(field, value, length)
+  return isZeroBytes(value) ? undefined : Buffer.from(value)
+}
+
+function address(field: string, value?: Uint8Array) {
+  return fixed(field, value, ADDRESS_LENGTH)
+}
+
+// Variable-size byte fields are omitted only when empty
+function bytes(value?: Uint8Array): Uint8Array | undefined {
+  return value && value.length > 0 ? Buffer.from(value) : undefined
+}
+
+function str(value?: string): string | undefined {
+  return value ? value : undefined
+}
+
+function bool(value?: boolean): boolean | undefined {
+  return value ? true : undefined
+}
+
+function list<T>(
+  values: T[] | undefined,
+  map: (value: T, i: number) => MsgpackValue
+): MsgpackValue[] | undefined {
+  return values && values.length > 0 ? values.map(map) : undefined
+}
+
+function compact(map: Record<string, MsgpackValue | undefined>) {
+  const out: MsgpackMap = {}
+  Object.keys(map).forEach(key => {
+    const value = map[key]
+    if (value !== undefined) out[key] = value
+  })
+  return Object.keys(out).length > 0 ? out : undefined
+}
+
+function assetParamsToMap(params?: AssetParams) {
+  if (!params) return undefined
+  return compact({
+    t: uint('total', params.total),
+    dc: uint('decimals', params.decimals),
+    df: bool(params.defaultFrozen),
+    un: str(params.unitName),
+    an: str(params.assetName),
+    au: str(params.url),
+    am: fixed('metadataHash', params.metadataHash, HASH_LENGTH),
+    m: address('manager', params.manager),
+    r: address('reserve', params.reserve),
+    f: address('freeze', params.freeze),
+    c: address('clawback', params.clawback),
+  })
+}
+
+function schemaToMap(schema?: StateSchema) {
+  if (!schema) return undefined
+  return compact({
+    nui: uint('numUints', schema.numUints),
+    nbs: uint('numByteSlices', schema.numByteSlices),
+  })
+}
+
+function boxToMap(box: BoxReference): MsgpackValue {
+  return (
+    compact({
+      i: uint('box appIndex', box.appIndex),
+      n: bytes(box.name),
+    }) ?? {}
+  )
+}
+
+function typeFieldsToMap(txn: AlgorandTransaction) {
+  switch (txn.type) {
+    case TransactionType.pay:
+      return {
+        rcv: address('receiver', txn.receiver),
+        amt: uint('amount', txn.amount),
+        close: address('closeRemainderTo', txn.closeRemainderTo),
+      }
+    case TransactionType.keyreg:
+      return {
+        votekey: fixed('voteKey', txn.voteKey, ADDRESS_LENGTH),
+        selkey: fixed('selectionKey', txn.selectionKey, ADDRESS_LENGTH),
+        sprfkey: fixed(
+          'stateProofKey',
+          txn.stateProofKey,
+          STATE_PROOF_KEY_LENGTH
+        ),
+        votefst: uint('voteFirst', txn.voteFirst),
+        votelst: uint('voteLast', txn.voteLast),
+        votekd: uint('voteKeyDilution', txn.voteKeyDilution),
+        nonpart: bool(txn.nonParticipation),
+      }
+    case TransactionType.acfg:
+      return {
+        caid: uint('assetIndex', txn.assetIndex),
+        apar: assetParamsToMap(txn.params),
+      }
+    case TransactionType.axfer:
+      return {
+        xaid: uint('assetIndex', txn.assetIndex),
+        aamt: uint('amount', txn.amount),
+        asnd: address('assetSender', txn.assetSender),
+        arcv: address('receiver', txn.receiver),
+        aclose: address('closeRemainderTo', txn.closeRemainderTo),
+      }
+    case TransactionType.afrz:
+      return {
+        faid: uint('assetIndex', txn.assetIndex),
+        fadd: address('freezeAccount', txn.freezeAccount),
+        afrz: bool(txn.frozen),
+      }
+    case TransactionType.appl:
+      return {
+        apid: uint('appIndex', txn.appIndex),
+        apan: uint('onComplete', txn.onComplete),
+        apaa: list(txn.appArgs, arg => Buffer.from(arg)),
+        apat: list(txn.accounts, (account, i) => {
+          checkLength(`accounts[${i}]`, account, ADDRESS_LENGTH)
+          return Buffer.from(account)
+        }),
+        apfa: list(txn.foreignApps, id => uint('foreignApps', id) ?? 0),
+        apas: list(txn.foreignAssets, id => uint('foreignAssets', id) ?? 0),
+        apbx: list(txn.boxes, boxToMap),
+        apap: bytes(txn.approvalProgram),
+        apsu: bytes(txn.clearProgram),
+        apgs: schemaToMap(txn.globalSchema),
+        apls: schemaToMap(txn.localSchema),
+        apep: uint('extraPages', txn.extraPages),
+      }
+    case TransactionType.stpf:
+      return {
+        sptype: uint('stateProofType', txn.stateProofType),
+        sprf: txn.stateProof,
+        spmsg: txn.message,
+      }
+    default:
+      throw new Error(
+        `Unsupported transaction type: ${(txn as { type: string }).type}`
+      )
+  }
+}
+
+/**
+ * Builds the canonical msgpack map of a transaction: wire field names,
+ * zero-valued fields omitted.
+ * @throws {Error} If a field has an invalid length or value.
+ */
+export function transactionToMsgpackMap(txn: AlgorandTransaction): MsgpackMap {
+  const genesisHash = fixed('genesisHash', txn.genesisHash, HASH_LENGTH)
+  if (!genesisHash) {
+    throw new Error('Invalid genesisHash: it is required')
+  }
+
+  return (
+    compact({
+      snd: address('sender', txn.sender),
+      fee: uint('fee', txn.fee),
+      fv: uint('firstValid', txn.firstValid),
+      lv: uint('lastValid', txn.lastValid),
+      note: bytes(txn.note),
+      gen: str(txn.genesisId),
+      gh: genesisHash,
+      lx: fixed('lease', txn.lease, HASH_LENGTH),
+      grp: fixed('group', txn.group, HASH_LENGTH),
+      rekey: address('rekeyTo', txn.rekeyTo),
+      type: txn.type,
+      ...typeFieldsToMap(txn),
+    }) ?? {}
+  )
+}
+
+/**
+ * Encodes a transaction as canonical msgpack, without the "TX" domain
+ * separator. The result can be passed directly to `AlgorandApp.sign`.
+ * @throws {Error} If a field has an invalid length or value.
+ */
+export function encodeTransaction(txn: AlgorandTransaction): Buffer {
+  return encode(transactionToMsgpackMap(txn))
+}
+
+const HEADER_FIELDS = [
+  'snd',
+  'fee',
+  'fv',
+  'lv',
+  'note',
+  'gen',
+  'gh',
+  'lx',
+  'grp',
+  'rekey',
+  'type',
+]
+
+const TYPE_FIELDS: Record<TransactionType, string[]> = {
+  [TransactionType.pay]: ['rcv', 'amt', 'close'],
+  [TransactionType.keyreg]: [
+    'votekey',
+    'selkey',
+    'sprfkey',
+    'votefst',
+    'votelst',
+    'votekd',
+    'nonpart',
+  ],
+  [TransactionType.acfg]: ['caid', 'apar'],
+  [TransactionType.axfer]: ['xaid', 'aamt', 'asnd', 'arcv', 'aclose'],
+  [TransactionType.afrz]: ['faid', 'fadd', 'afrz'],
+  [TransactionType.appl]: [
+    'apid',
+    'apan',
+    'apaa',
+    'apat',
+    'apfa',
+    'apas',
+    'apbx',
+    'apap',
+    'apsu',
+    'apgs',
+    'apls',
+    'apep',
+  ],
+  [TransactionType.stpf]: ['sptype', 'sprf', 'spmsg'],
+}
+
+function invalid(path: string, expected: string): never {
+  throw new Error(`Invalid ${path}: expected ${expected}`)
+}
+
+function asUint(value: MsgpackValue, path: string): Uint64 {
+  if ((typeof value === 'bigint' || typeof value === 'number') && value >= 0) {
+    return value
+  }
+  return invalid(path, 'an unsigned integer')
+}
+
+function asBytes(value: MsgpackValue, path: string, length?: number) {
+  if (!(value instanceof Uint8Array)) return invalid(path, 'bytes')
+  if (length !== undefined && value.length !== length) {
+    invalid(path, `${length} bytes`)
+  }
+  return Buffer.from(value)
+}
+
+class FieldReader {
+  constructor(
+    private readonly map: MsgpackMap,
+    private readonly path: string
+  ) {}
+
+  private get(key: string) {
+    return this.map[key]
+  }
+
+  uint(key: string): Uint64 | undefined {
+    const value = this.get(key)
+    return value === undefined ? undefined : asUint(value, this.path + key)
+  }
+
+  num(key: string): number | undefined {
+    const value = this.uint(key)
+    return typeof value === 'bigint'
+      ? invalid(this.path + key, 'a small integer')
+      : value
+  }
+
+  bytes(key: string, length?: number): Buffer | undefined {
+    const value = this.get(key)
+    return value === undefined
+      ? undefined
+      : asBytes(value, this.path + key, length)
+  }
+
+  str(key: string): string | undefined {
+    const value = this.get(key)
+    if (value === undefined || typeof value === 'string') return value
+    return invalid(this.path + key, 'a string')
+  }
+
+  bool(key: string): boolean | undefined {
+    const value = this.get(key)
+    if (value === undefined || typeof value === 'boolean') return value
+    return invalid(this.path + key, 'a boolean')
+  }
+
+  map_(key: string): MsgpackMap | undefined {
+    const value = this.get(key)
+    if (value === undefined || isMsgpackMap(value)) return value
+    return invalid(this.path + key, 'a map')
+  }
+
+  nested(key: string): FieldReader | undefined {
+    const value = this.map_(key)
+    return value ? new FieldReader(value, `${this.path}${key}.`) : undefined
+  }
+
+  list<T>(key: string, item: (value: MsgpackValue, path: string) => T) {
+    const value = this.get(key)
+    if (value === undefined) return undefined
+    if (!Array.isArray(value)) return invalid(this.path + key, 'an array')
+    return value.map((v, i) => item(v, `${this.path}${key}[${i}]`))
+  }
+}
+
+// Drops undefined entries so decoded objects only carry the fields present
+function defined<T extends object>(value: T): T {
+  Object.keys(value).forEach(key => {
+    if (value[key as keyof T] === undefined) delete value[key as keyof T]
+  })
+  return value
+}
+
+function decodeAssetParams(r?: FieldReader): AssetParams | undefined {
+  if (!r) return undefined
+  return defined({
+    total: r.uint('t'),
+    decimals: r.num('dc'),
+    defaultFrozen: r.bool('df'),
+    unitName: r.str('un'),
+    assetName: r.str('an'),
+    url: r.str('au'),
+    metadataHash: r.bytes('am', HASH_LENGTH),
+    manager: r.bytes('m', ADDRESS_LENGTH),
+    reserve: r.bytes('r', ADDRESS_LENGTH),
+    freeze: r.bytes('f', ADDRESS_LENGTH),
+    clawback: r.bytes('c', ADDRESS_LENGTH),
+  })
+}
+
+function decodeSchema(r?: FieldReader): StateSchema | undefined {
+  if (!r) return undefined
+  return defined({ numUints: r.uint('nui'), numByteSlices: r.uint('nbs') })
+}
+
+function decodeTypeFields(type: TransactionType, r: FieldReader) {
+  switch (type) {
+    case TransactionType.pay:
+      return {
+        receiver: r.bytes('rcv', ADDRESS_LENGTH),
+        amount: r.uint('amt'),
+        closeRemainderTo: r.bytes('close', ADDRESS_LENGTH),
+      }
+    case TransactionType.keyreg:
+      return {
+        voteKey: r.bytes('votekey', ADDRESS_LENGTH),
+        selectionKey: r.bytes('selkey', ADDRESS_LENGTH),
+        stateProofKey: r.bytes('sprfkey', STATE_PROOF_KEY_LENGTH),
+        voteFirst: r.uint('votefst'),
+        voteLast: r.uint('votelst'),
+        voteKeyDilution: r.uint('votekd'),
+        nonParticipation: r.bool('nonpart'),
+      }
+    case TransactionType.acfg:
+      return {
+        assetIndex: r.uint('caid'),
+        params: decodeAssetParams(r.nested('apar')),
+      }
+    case TransactionType.axfer:
+      return {
+        assetIndex: r.uint('xaid'),
+        amount: r.uint('aamt'),
+        assetSender: r.bytes('asnd', ADDRESS_LENGTH),
+        receiver: r.bytes('arcv', ADDRESS_LENGTH),
+        closeRemainderTo: r.bytes('aclose', ADDRESS_LENGTH),
+      }
+    case TransactionType.afrz:
+      return {
+        assetIndex: r.uint('faid'),
+        freezeAccount: r.bytes('fadd', ADDRESS_LENGTH),
+        frozen: r.bool('afrz'),
+      }
+    case TransactionType.appl:
+      return {
+        appIndex: r.uint('apid'),
+        onComplete: r.num('apan'),
+        appArgs: r.list('apaa', (value, path) => asBytes(value, path)),
+        accounts: r.list('apat', (value, path) =>
+          asBytes(value, path, ADDRESS_LENGTH)
+        ),
+        foreignApps: r.list('apfa', asUint),
+        foreignAssets: r.list('apas', asUint),
+        boxes: r.list('apbx', (value, path) => {
+          if (!isMsgpackMap(value)) return invalid(path, 'a map')
+          const box = new FieldReader(value, `${path}.`)
+          return {
+            appIndex: box.num('i') ?? 0,
+            name: box.bytes('n') ?? Buffer.alloc(0),
+          }
+        }),
+        approvalProgram: r.bytes('apap'),
+        clearProgram: r.bytes('apsu'),
+        globalSchema: decodeSchema(r.nested('apgs')),
+        localSchema: decodeSchema(r.nested('apls')),
+        extraPages: r.num('apep'),
+      }
+    case TransactionType.stpf:
+      return {
+        stateProofType: r.num('sptype'),
+        stateProof: r.map_('sprf'),
+        message: r.map_('spmsg'),
+      }
+  }
+}
+
+function checkFields(map: MsgpackMap, known: string[], what: string) {
+  const unknown = Object.keys(map).filter(key => !known.includes(key))
+  if (unknown.length > 0) {
+    throw new Error(
+      `Invalid ${what}: unexpected field(s) ${unknown.join(', ')}`
+    )
+  }
+}
+
+function readTransaction(map: MsgpackMap, path: string): AlgorandTransaction {
+  const r = new FieldReader(map, path)
+  const type = r.str('type') as TransactionType
+  if (!Object.values(TransactionType).includes(type)) {
+    throw new Error(`Unsupported transaction type: ${type}`)
+  }
+  checkFields(map, [...HEADER_FIELDS, ...TYPE_FIELDS[type]], 'transaction')
+
+  const genesisHash = r.bytes('gh', HASH_LENGTH)
+  if (!genesisHash) {
+    throw new Error('Invalid transaction: missing genesis hash')
+  }
+
+  return defined({
+    type,
+    sender: r.bytes('snd', ADDRESS_LENGTH) ?? Buffer.alloc(ADDRESS_LENGTH),
+    fee: r.uint('fee'),
+    firstValid: r.uint('fv') ?? 0,
+    lastValid: r.uint('lv') ?? 0,
+    note: r.bytes('note'),
+    genesisId: r.str('gen'),
+    genesisHash,
+    lease: r.bytes('lx', HASH_LENGTH),
+    group: r.bytes('grp', HASH_LENGTH),
+    rekeyTo: r.bytes('rekey', ADDRESS_LENGTH),
+    ...decodeTypeFields(type, r),
+  }) as AlgorandTransaction
+}
+
+/**
+ * Decodes a msgpack transaction, as passed to `AlgorandApp.sign`, into a
+ * typed transaction object. This is the inverse of `encodeTransaction`.
+ * State proof transactions carrying a proof cannot be decoded: the reveals
+ * of `sprf` are keyed by integers, and only string map keys are supported.
+ * @throws {Error} If the blob is not a well-formed transaction.
+ */
+export function decodeTransaction(blob: Uint8Array): AlgorandTransaction {
+  const map = decode(blob)
+  if (!isMsgpackMap(map)) {
+    throw new Error('Invalid transaction: expected a msgpack map')
+  }
+  return readTransaction(map, '')
+}
+
+export const MAX_GROUP_SIZE = 16
+
+const TX_TAG = Buffer.from('TX')
+const TG_TAG = Buffer.from('TG')
+
+/**
+ * Computes the 32-byte transaction ID: SHA-512/256 over the "TX"-prefixed
+ * msgpack transaction.
+ */
+export function getTransactionRawId(blob: Uint8Array): Buffer {
+  return Buffer.from(sha512_256(Buffer.concat([TX_TAG, blob])))
+}
+
+/**
+ * Computes the group ID of a list of transactions: SHA-512/256 over the
+ * "TG"-prefixed msgpack `{txlist}` of their IDs. Any group already set on the
+ * transactions is ignored.
+ * @throws {Error} If the group is empty or larger than MAX_GROUP_SIZE.
+ */
+export function computeGroupId(transactions: AlgorandTransaction[]): Buffer {
+  if (transactions.length === 0 || transactions.length > MAX_GROUP_SIZE) {
+    throw new Error(
+      `Invalid group: expected 1 to ${MAX_GROUP_SIZE} transactions, got ${transactions.length}`
+    )
+  }
+
+  const txlist = transactions.map(txn =>
+    getTransactionRawId(encodeTransaction({ ...txn, group: undefined }))
+  )
+  return Buffer.from(sha512_256(Buffer.concat([TG_TAG, encode({ txlist })])))
+}
+
+/**
+ * Returns copies of the transactions with their group ID set.
+ * @throws {Error} If the group is empty or larger than MAX_GROUP_SIZE.
+ */
+export function assignGroupId(
+  transactions: AlgorandTransaction[]
+): AlgorandTransaction[] {
+  const group = computeGroupId(transactions)
+  return transactions.map(txn => ({ ...txn, group }))
+}
+
+const SIGNATURE_LENGTH = 64
+const SIGNED_TRANSACTION_FIELDS = ['lsig', 'msig', 'sgnr', 'sig', 'txn']
+const LOGIC_SIG_FIELDS = ['arg', 'l', 'lmsig', 'sig']
+const MULTISIG_FIELDS = ['subsig', 'thr', 'v']
+const SUBSIGNATURE_FIELDS = ['pk', 's']
+
+function multisigToMap(msig: MultisigSignature): MsgpackValue {
+  return (
+    compact({
+      subsig: msig.subsignatures.map(subsig => {
+        checkLength('subsignature publicKey', subsig.publicKey, ADDRESS_LENGTH)
+        return (
+          compact({
+            pk: Buffer.from(subsig.publicKey),
+            s: fixed('subsignature', subsig.signature, SIGNATURE_LENGTH),
+          }) ?? {}
+        )
+      }),
+      thr: uint('threshold', msig.threshold),
+      v: uint('version', msig.version),
+    }) ?? {}
+  )
+}
+
+function logicSigToMap(lsig: LogicSig): MsgpackValue {
+  if (lsig.program.length === 0) {
+    throw new Error('Invalid logic sig: empty program')
+  }
+  return (
+    compact({
+      arg: list(lsig.args, arg => Buffer.from(arg)),
+      l: Buffer.from(lsig.program),
+      lmsig: lsig.multisig && multisigToMap(lsig.multisig),
+      sig: fixed('logic sig signature', lsig.signature, SIGNATURE_LENGTH),
+    }) ?? {}
+  )
+}
+
+/**
+ * Encodes a signed transaction (`{txn, sig | msig | lsig, sgnr}`) as canonical
+ * msgpack, ready to be submitted to the network.
+ * @throws {Error} If a field is out of range or has the wrong length.
+ */
+export function encodeSignedTransaction(stxn: SignedTransaction): Buffer {
+  return encode(
+    compact({
+      lsig: stxn.logicSig && logicSigToMap(stxn.logicSig),
+      msig: stxn.multisig && multisigToMap(stxn.multisig),
+      sgnr: address('authAddress', stxn.authAddress),
+      sig: fixed('signature', stxn.signature, SIGNATURE_LENGTH),
+      txn: transactionToMsgpackMap(stxn.transaction),
+    }) ?? {}
+  )
+}
+
+function readSubsignature(value: MsgpackValue, path: string) {
+  if (!isMsgpackMap(value)) return invalid(path, 'a map')
+  checkFields(value, SUBSIGNATURE_FIELDS, path)
+  const r = new FieldReader(value, `${path}.`)
+  return defined({
+    publicKey:
+      r.bytes('pk', ADDRESS_LENGTH) ?? invalid(`${path}.pk`, 'a public key'),
+    signature: r.bytes('s', SIGNATURE_LENGTH),
+  })
+}
+
+function readMultisig(
+  r: FieldReader,
+  key: string
+): MultisigSignature | undefined {
+  const map = r.map_(key)
+  if (!map) return undefined
+  checkFields(map, MULTISIG_FIELDS, key)
+  const msig = r.nested(key) as FieldReader
+  return {
+    version: msig.num('v') ?? 0,
+    threshold: msig.num('thr') ?? 0,
+    subsignatures: msig.list('subsig', readSubsignature) ?? [],
+  }
+}
+
+function readLogicSig(r: FieldReader): LogicSig | undefined {
+  const map = r.map_('lsig')
+  if (!map) return undefined
+  checkFields(map, LOGIC_SIG_FIELDS, 'lsig')
+  const lsig = r.nested('lsig') as FieldReader
+  const program = lsig.bytes('l')
+  if (!program || program.length === 0) {
+    throw new Error('Invalid lsig: missing program')
+  }
+  return defined({
+    program,
+    args: lsig.list('arg', asBytes),
+    signature: lsig.bytes('sig', SIGNATURE_LENGTH),
+    multisig: readMultisig(lsig, 'lmsig'),
+  })
+}
+
+/**
+ * Decodes a msgpack signed transaction, as produced by
+ * `encodeSignedTransaction` or other Algorand tooling. Logic signatures
+ * delegated by a multisig must use the current `lmsig` form.
+ * @throws {Error} If the blob is not a well-formed signed transaction.
+ */
+export function decodeSignedTransaction(blob: Uint8Array): SignedTransaction {
+  const map = decode(blob)
+  if (!isMsgpackMap(map)) {
+    throw new Error('Invalid signed transaction: expected a msgpack map')
+  }
+  checkFields(map, SIGNED_TRANSACTION_FIELDS, 'signed transaction')
+
+  const r = new FieldReader(map, '')
+  const txn = r.map_('txn')
+  if (!txn) {
+    throw new Error('Invalid signed transaction: missing txn')
+  }
+  return defined({
+    transaction: readTransaction(txn, 'txn.'),
+    signature: r.bytes('sig', SIGNATURE_LENGTH),
+    multisig: readMultisig(r, 'msig'),
+    logicSig: readLogicSig(r),
+    authAddress: r.bytes('sgnr', ADDRESS_LENGTH),
+  })
+}
+
+/**
+ * Computes the base32 transaction ID shown by explorers and returned by
+ * algod, from a typed transaction or its msgpack encoding.
+ */
+export function getTransactionId(
+  transaction: AlgorandTransaction | Uint8Array
+): string {
+  const blob =
+    transaction instanceof Uint8Array
+      ? transaction
+      : encodeTransaction(transaction)
+  return base32Encode(getTransactionRawId(blob))
+}
+
+/**
+ * Wraps a transaction and the signature returned by `AlgorandApp.sign` into
+ * a broadcast-ready SignedTxn. `sgnr` is set when the signing key is not the
+ * sender, as for rekeyed accounts.
+ * @param signer - Public key that produced the signature, defaults to the
+ * sender.
+ * @throws {Error} If the signature does not verify against the signer.
+ */
+export function createSignedTransaction(
+  transaction: AlgorandTransaction | Uint8Array,
+  signature: Uint8Array,
+  signer?: Uint8Array
+): SignedTransactionResult {
+  const txn =
+    transaction instanceof Uint8Array
+      ? decodeTransaction(transaction)
+      : transaction
+  const blob = encodeTransaction(txn)
+  const publicKey = Buffer.from(signer ?? txn.sender)
+  if (!verifyTransactionSignature(blob, signature, publicKey)) {
+    throw new Error('Invalid signature: does not match the transaction signer')
+  }
+
+  const signedTransaction: SignedTransaction = {
+    transaction: txn,
+    signature: Buffer.from(signature),
+    ...(publicKey.equals(txn.sender) ? {} : { authAddress: publicKey }),
+  }
+  return {
+    signedTransaction,
+    blob: encodeSignedTransaction(signedTransaction),
+    txId: getTransactionId(blob),
+  }
+}
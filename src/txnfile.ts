@@ -0,0 +1,395 @@
+import { decodeAddress, encodeAddress } from './address'
+import type { AlgorandApp } from './app'
+import {
+  decode,
+  encode,
+  isMsgpackMap,
+  MsgpackValue,
+  splitMsgpack,
+} from './msgpack'
+import {
+  createSignedTransaction,
+  decodeSignedTransaction,
+  decodeTransaction,
+  encodeSignedTransaction,
+  encodeTransaction,
+} from './transaction'
+import {
+  JsonValue,
+  SignedTransaction,
+  SignTransactionRecordsResult,
+  SignTransactionsOptions,
+  SignTransactionsResult,
+  TransactionFileFormat,
+} from './types'
+
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/
+
+// How the JSON format renders the string and byte fields of a record, after
+// goal clerk inspect: addresses in base32, other bytes in base64
+const ADDRESS_FIELDS = [
+  'aclose',
+  'apat',
+  'arcv',
+  'asnd',
+  'close',
+  'fadd',
+  'rcv',
+  'rekey',
+  'sgnr',
+  'snd',
+]
+const ASSET_ADDRESS_FIELDS = ['c', 'f', 'm', 'r']
+const STRING_FIELDS = ['an', 'au', 'gen', 'type', 'un']
+// Written as strings when above Number.MAX_SAFE_INTEGER
+const UINT_FIELDS = [
+  'aamt',
+  'amt',
+  'apas',
+  'apfa',
+  'apid',
+  'caid',
+  'faid',
+  'fee',
+  'fv',
+  'lv',
+  't',
+  'xaid',
+]
+
+type FieldKind = 'address' | 'string' | 'uint' | 'bytes'
+
+function fieldKind(parent: string, key: string): FieldKind {
+  if (
+    ADDRESS_FIELDS.includes(key) ||
+    (parent === 'apar' && ASSET_ADDRESS_FIELDS.includes(key))
+  ) {
+    return 'address'
+  }
+  if (STRING_FIELDS.includes(key)) return 'string'
+  if (UINT_FIELDS.includes(key)) return 'uint'
+  return 'bytes'
+}
+
+function toJson(value: MsgpackValue, parent: string, key: string): JsonValue {
+  if (value instanceof Uint8Array) {
+    return fieldKind(parent, key) === 'address'
+      ? encodeAddress(value)
+      : Buffer.from(value).toString('base64')
+  }
+  if (typeof value === 'bigint') {
+    return value.toString()
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => toJson(item, parent, key))
+  }
+  if (typeof value === 'object' && value !== null) {
+    const out: Record<string, JsonValue> = Object.create(null)
+    Object.keys(value).forEach(k => {
+      out[k] = toJson(value[k], key, k)
+    })
+    return out
+  }
+  return value
+}
+
+function fromJson(
+  value: JsonValue,
+  parent: string,
+  key: string,
+  path: string
+): MsgpackValue {
+  if (typeof value === 'string') {
+    switch (fieldKind(parent, key)) {
+      case 'address':
+        try {
+          return decodeAddress(value)
+        } catch {
+          throw new Error(`Invalid ${path}: expected an address`)
+        }
+      case 'string':
+        return value
+      case 'uint':
+        if (!/^\d+$/.test(value)) {
+          throw new Error(`Invalid ${path}: expected an unsigned integer`)
+        }
+        return Number.isSafeInteger(Number(value))
+          ? Number(value)
+          : BigInt(value)
+      default:
+        if (!BASE64.test(value)) {
+          throw new Error(`Invalid ${path}: expected base64`)
+        }
+        return Buffer.from(value, 'base64')
+    }
+  }
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new Error(`Invalid ${path}: ${value} is not a safe integer`)
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => fromJson(item, parent, key, `${path}[${i}]`))
+  }
+  if (typeof value === 'object' && value !== null) {
+    const out: Record<string, MsgpackValue> = Object.create(null)
+    Object.entries(value).forEach(([k, item]) => {
+      if (item !== undefined) {
+        out[k] = fromJson(item, key, k, path ? `${path}.${k}` : k)
+      }
+    })
+    return out
+  }
+  return value
+}
+
+// Records are SignedTxns; a bare transaction is read as an unsigned record
+function readRecord(blob: Uint8Array, index: number): SignedTransaction {
+  try {
+    return decodeSignedTransaction(blob)
+  } catch (e) {
+    try {
+      return { transaction: decodeTransaction(blob) }
+    } catch {
+      throw new Error(`Invalid record ${index}: ${(e as Error).message}`)
+    }
+  }
+}
+
+// The key that signs an unsigned record, `sgnr` or else the sender; undefined
+// once the record has a signature. Only these fields are decoded, so that
+// fields unknown to this library do not stop the file from being signed.
+function readAuthorizer(
+  blob: Uint8Array,
+  index: number
+): Uint8Array | undefined {
+  const record = decode(blob)
+  if (!isMsgpackMap(record)) {
+    throw new Error(`Invalid record ${index}: expected a msgpack map`)
+  }
+  if (record.sig || record.msig || record.lsig) {
+    return undefined
+  }
+  // Records are SignedTxns, or bare transactions
+  const authorizer = isMsgpackMap(record.txn)
+    ? (record.sgnr ?? record.txn.snd)
+    : record.snd
+  if (!(authorizer instanceof Uint8Array) || authorizer.length !== 32) {
+    throw new Error(`Invalid record ${index}: expected a sender`)
+  }
+  return authorizer
+}
+
+function readBase64(text: string): Buffer[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim())
+  lines.forEach((line, i) => {
+    if (!BASE64.test(line)) {
+      throw new Error(`Invalid base64 on line ${i + 1}`)
+    }
+  })
+  // One record per line, or concatenated records wrapped over several lines
+  try {
+    return lines.flatMap(line => splitMsgpack(Buffer.from(line, 'base64')))
+  } catch {
+    return splitMsgpack(Buffer.from(lines.join(''), 'base64'))
+  }
+}
+
+function readJson(text: string): Buffer[] {
+  let parsed: JsonValue
+  try {
+    parsed = JSON.parse(text)
+  } catch (e) {
+    throw new Error(`Invalid JSON: ${(e as Error).message}`)
+  }
+  const records = Array.isArray(parsed) ? parsed : [parsed]
+  return records.map((record, i) => {
+    if (typeof record !== 'object' || record === null) {
+      throw new Error(`Invalid record ${i}: expected an object`)
+    }
+    return encode(fromJson(record, '', '', `record ${i}`))
+  })
+}
+
+/**
+ * Guesses the format of a transaction file from its first byte: JSON starts
+ * with `[` or `{`, msgpack records with a map header, anything else is read
+ * as base64.
+ * @throws {Error} If the file is empty.
+ */
+export function detectTransactionFileFormat(
+  content: Uint8Array | string
+): TransactionFileFormat {
+  const text = Buffer.from(content).toString('latin1').trimStart()
+  if (text.length === 0) {
+    throw new Error('Empty transaction file')
+  }
+  const first = text.charCodeAt(0)
+  if (text[0] === '[' || text[0] === '{') return 'json'
+  if ((first & 0xf0) === 0x80 || first === 0xde || first === 0xdf) {
+    return 'msgpack'
+  }
+  return 'base64'
+}
+
+/**
+ * Splits a transaction file into its records, in msgpack, without decoding
+ * them. JSON records are encoded canonically; msgpack and base64 records are
+ * returned byte for byte.
+ * @param format - Detected from the content when omitted.
+ * @throws {Error} If the file is empty or not in the format.
+ */
+export function readTransactionFileRecords(
+  content: Uint8Array | string,
+  format: TransactionFileFormat = detectTransactionFileFormat(content)
+): Buffer[] {
+  const text = () => Buffer.from(content).toString('utf8')
+  const records =
+    format === 'json'
+      ? readJson(text())
+      : format === 'base64'
+        ? readBase64(text())
+        : splitMsgpack(Buffer.from(content))
+  if (records.length === 0) {
+    throw new Error('Empty transaction file')
+  }
+  return records
+}
+
+/**
+ * Reads the records of a goal/algokit transaction file: `{txn}` records of
+ * unsigned transactions and `{sig, txn}` (or msig, lsig) records of signed
+ * ones. In JSON, addresses are base32 and other bytes base64, as printed by
+ * `goal clerk inspect`; integers beyond 2^53 are strings.
+ * @param format - Detected from the content when omitted.
+ * @throws {Error} If the file or one of its records is invalid.
+ */
+export function parseTransactionFile(
+  content: Uint8Array | string,
+  format: TransactionFileFormat = detectTransactionFileFormat(content)
+): SignedTransaction[] {
+  return readTransactionFileRecords(content, format).map(readRecord)
+}
+
+/**
+ * Writes records in one of the transaction file formats, see
+ * parseTransactionFile. Records given in msgpack are written as they are.
+ * @throws {Error} If a record cannot be encoded.
+ */
+export function serializeTransactionFile(
+  transactions: (SignedTransaction | Uint8Array)[],
+  format: TransactionFileFormat = 'msgpack'
+): Buffer {
+  const blobs = transactions.map(record =>
+    record instanceof Uint8Array
+      ? Buffer.from(record)
+      : encodeSignedTransaction(record)
+  )
+  switch (format) {
+    case 'msgpack':
+      return Buffer.concat(blobs)
+    case 'base64':
+      return Buffer.from(
+        blobs.map(blob => `${blob.toString('base64')}\n`).join('')
+      )
+    case 'json':
+      return Buffer.from(
+        `${JSON.stringify(
+          blobs.map(blob => toJson(decode(blob), '', '')),
+          null,
+          2
+        )}\n`
+      )
+    default:
+      throw new Error(`Unsupported transaction file format: ${format}`)
+  }
+}
+
+// The device keys among `options.paths`, by address
+async function getDeviceKeys(
+  app: AlgorandApp,
+  options: SignTransactionsOptions
+) {
+  const { paths = [0], store, ...operation } = options
+  const { addresses } = await app.getAddresses(paths, { ...operation, store })
+  return {
+    keys: new Map(addresses.map(entry => [entry.address, entry])),
+    operation,
+  }
+}
+
+/**
+ * Signs with the device every unsigned record whose authorizing address
+ * (`sgnr`, else the sender) is one of the keys in `options.paths`. Other
+ * records, including signed and partially signed ones, are kept as they
+ * are. Each record is sent to AlgorandApp.sign in turn.
+ */
+export async function signTransactions(
+  app: AlgorandApp,
+  transactions: SignedTransaction[],
+  options: SignTransactionsOptions = {}
+): Promise<SignTransactionsResult> {
+  const { keys, operation } = await getDeviceKeys(app, options)
+  const signed: number[] = []
+  const result = [...transactions]
+  for (let i = 0; i < transactions.length; i += 1) {
+    const { transaction, signature, multisig, logicSig, authAddress } =
+      transactions[i]
+    const key =
+      !signature &&
+      !multisig &&
+      !logicSig &&
+      keys.get(encodeAddress(authAddress ?? transaction.sender))
+    if (!key) {
+      continue
+    }
+    const response = await app.sign(
+      key.path,
+      encodeTransaction(transaction),
+      operation
+    )
+    result[i] = createSignedTransaction(
+      transaction,
+      response.signature,
+      key.publicKey
+    ).signedTransaction
+    signed.push(i)
+  }
+  return { transactions: result, signed }
+}
+
+/**
+ * Signs the records of readTransactionFileRecords like signTransactions.
+ * Only the authorizing address of each record is decoded: the records that
+ * are not signed, including those with fields this library does not know,
+ * are returned byte for byte.
+ * @throws {Error} If a record is not a transaction.
+ */
+export async function signTransactionRecords(
+  app: AlgorandApp,
+  records: Uint8Array[],
+  options: SignTransactionsOptions = {}
+): Promise<SignTransactionRecordsResult> {
+  const authorizers = records.map(readAuthorizer)
+  const { keys, operation } = await getDeviceKeys(app, options)
+  const signed: number[] = []
+  const result: Buffer[] = records.map(record => Buffer.from(record))
+  for (let i = 0; i < records.length; i += 1) {
+    const authorizer = authorizers[i]
+    const key = authorizer && keys.get(encodeAddress(authorizer))
+    if (!key) {
+      continue
+    }
+    const { transaction } = readRecord(records[i], i)
+    const response = await app.sign(
+      key.path,
+      encodeTransaction(transaction),
+      operation
+    )
+    result[i] = createSignedTransaction(
+      transaction,
+      response.signature,
+      key.publicKey
+    ).blob
+    signed.push(i)
+  }
+  return { records: result, signed }
+}
@@ -1,4 +1,5 @@
 import { LedgerError } from './common'
+import { MsgpackMap } from './msgpack'
 
 export interface ResponseBase {
   // @deprecated: Please use errorMessage instead
@@ -20,6 +21,34 @@ export interface ResponseAddress extends ResponseBase {
   address: Buffer
 }
 
+export interface AppVersion {
+  major: number
+  minor: number
+  patch: number
+}
+
+// What the installed app version supports, from getVersion
+export interface AppCapabilities {
+  // SIGN_ARBITRARY, used by signData; not known to be missing from 2.x apps
+  signArbitrary: boolean
+  // Signing and address derivation by full BIP32 path
+  multiPathSigning: boolean
+  // SIGN_PROGRAM, used by signProgram and signLogicSig
+  programSigning: boolean
+}
+
+export type AppCapability = keyof AppCapabilities
+
+// Capabilities whose APDUs are this library's assumption until the app's
+// APDU spec defines them. AlgorandApp only uses them when enabled in
+// AlgorandAppOptions.experimental.
+export type ExperimentalCapability = 'multiPathSigning' | 'programSigning'
+
+export interface AlgorandAppOptions {
+  // Experimental capabilities to use when the app version has them
+  experimental?: Partial<Record<ExperimentalCapability, boolean>>
+}
+
 export interface ResponseVersion extends ResponseBase {
   // @deprecated: Please use testMode instead
   test_mode: LedgerError
@@ -73,7 +102,632 @@ export enum ScopeType {
   AUTH = 1,
 }
 
+export enum ArbitrarySignError {
+  ErrorInvalidScope = 0x6988,
+  ErrorFailedDecoding = 0x6989,
+  ErrorInvalidSigner = 0x698a,
+  ErrorMissingDomain = 0x698b,
+  ErrorMissingAuthenticatedData = 0x698c,
+  ErrorBadJson = 0x698d,
+  ErrorFailedDomainAuth = 0x698e,
+  ErrorFailedHdPath = 0x698f,
+}
+
+export enum SigningStage {
+  // The device acknowledged a chunk; more are coming
+  ChunkSent = 'chunk-sent',
+  // The last chunk is being sent and the device asks the user
+  AwaitingConfirmation = 'awaiting-confirmation',
+  // The device answered the last chunk
+  Done = 'done',
+}
+
+export interface SigningProgress {
+  stage: SigningStage
+  ins: number
+  // 0-based index of the chunk, out of chunkCount APDUs
+  chunkIndex: number
+  chunkCount: number
+  // Position of the item being signed in batch calls such as signGroup
+  itemIndex?: number
+  itemCount?: number
+}
+
+// Cancellation, time limit, progress and priority of an AlgorandApp call
+export interface OperationOptions {
+  // Aborting it stops the call before the next APDU is sent
+  signal?: AbortSignal
+  // Milliseconds for the whole call, user confirmation included
+  timeout?: number
+  // Called as the chunks of signing commands are sent
+  onProgress?: (progress: SigningProgress) => void
+  // Queue priority while other calls hold the device; higher runs first
+  priority?: number
+}
+
+// Where a device error happened, carried by LedgerDeviceError
+export interface DeviceErrorContext {
+  // Instruction (INS) of the failing APDU
+  ins?: number
+  // Index of the failing chunk for multi-APDU commands
+  chunkIndex?: number
+}
+
 export interface StdSignMetadata {
   scope: ScopeType
   encoding: string
 }
+
+export type JsonValue =
+  | null
+  | boolean
+  | number
+  | string
+  | JsonValue[]
+  | { [key: string]: JsonValue | undefined }
+
+// WebAuthn authenticator data flags, for AuthenticationDataOptions.flags
+export enum AuthenticatorFlags {
+  USER_PRESENT = 0x01,
+  USER_VERIFIED = 0x04,
+  ATTESTED_CREDENTIAL_DATA = 0x40,
+  EXTENSION_DATA = 0x80,
+}
+
+export interface AuthenticationDataOptions {
+  // Authenticator flags byte, see AuthenticatorFlags
+  flags?: number
+  // Signature counter, written as 4 bytes big-endian after the flags
+  signCount?: number
+}
+
+// Structured form of m/44'/283'/<account>'/<change>/<index>; change and
+// index default to 0
+export interface Bip44Path {
+  account: number
+  change?: number
+  index?: number
+}
+
+/**
+ * A key on the device: an account ID (m/44'/283'/<id>'/0/0), a path string
+ * such as "m/44'/283'/0'/0/1", BIP32 indexes with the hardened bit set, or a
+ * Bip44Path.
+ */
+export type DerivationPath = number | string | number[] | Bip44Path
+
+export interface SignDataRequestOptions extends AuthenticationDataOptions {
+  // JSON payload; it is canonicalized (RFC 8785) before signing
+  data: JsonValue
+  // Requesting party, e.g. "example.com"
+  domain: string
+  signer: Uint8Array
+  // true generates a random request ID; strings must be hex
+  requestId?: true | string | Uint8Array
+  // Defaults to m/44'/283'/<accountId>'/0/0
+  hdPath?: DerivationPath
+  accountId?: number
+}
+
+export interface SignDataRequest {
+  signingData: StdSigData
+  metadata: StdSignMetadata
+}
+
+export type SignDataField = keyof StdSigData | keyof StdSignMetadata
+
+// A problem found in a signData request before it reaches the device
+export interface SignDataIssue {
+  field: SignDataField
+  // Status word the device would answer with
+  code: ArbitrarySignError
+  message: string
+}
+
+export interface SignDataOptions extends OperationOptions {
+  // Validate the request (see validateSignData) before sending it
+  preflight?: boolean
+}
+
+export type Uint64 = number | bigint
+
+export enum TransactionType {
+  pay = 'pay',
+  keyreg = 'keyreg',
+  acfg = 'acfg',
+  axfer = 'axfer',
+  afrz = 'afrz',
+  appl = 'appl',
+  stpf = 'stpf',
+}
+
+export enum OnApplicationComplete {
+  NoOp = 0,
+  OptIn = 1,
+  CloseOut = 2,
+  ClearState = 3,
+  UpdateApplication = 4,
+  DeleteApplication = 5,
+}
+
+// Addresses, hashes and keys are raw bytes (a 32-byte public key for addresses)
+export interface TransactionHeader {
+  sender: Uint8Array
+  fee?: Uint64
+  firstValid: Uint64
+  lastValid: Uint64
+  genesisId?: string
+  genesisHash: Uint8Array
+  note?: Uint8Array
+  lease?: Uint8Array
+  rekeyTo?: Uint8Array
+  group?: Uint8Array
+}
+
+export interface PaymentTransaction extends TransactionHeader {
+  type: TransactionType.pay
+  receiver?: Uint8Array
+  amount?: Uint64
+  closeRemainderTo?: Uint8Array
+}
+
+export interface KeyRegistrationTransaction extends TransactionHeader {
+  type: TransactionType.keyreg
+  voteKey?: Uint8Array
+  selectionKey?: Uint8Array
+  stateProofKey?: Uint8Array
+  voteFirst?: Uint64
+  voteLast?: Uint64
+  voteKeyDilution?: Uint64
+  nonParticipation?: boolean
+}
+
+export interface AssetParams {
+  total?: Uint64
+  decimals?: number
+  defaultFrozen?: boolean
+  unitName?: string
+  assetName?: string
+  url?: string
+  metadataHash?: Uint8Array
+  manager?: Uint8Array
+  reserve?: Uint8Array
+  freeze?: Uint8Array
+  clawback?: Uint8Array
+}
+
+export interface AssetConfigTransaction extends TransactionHeader {
+  type: TransactionType.acfg
+  // Omit to create a new asset
+  assetIndex?: Uint64
+  // Omit to destroy the asset
+  params?: AssetParams
+}
+
+export interface AssetTransferTransaction extends TransactionHeader {
+  type: TransactionType.axfer
+  assetIndex?: Uint64
+  amount?: Uint64
+  receiver?: Uint8Array
+  // Only set for clawback transactions
+  assetSender?: Uint8Array
+  closeRemainderTo?: Uint8Array
+}
+
+export interface AssetFreezeTransaction extends TransactionHeader {
+  type: TransactionType.afrz
+  assetIndex?: Uint64
+  freezeAccount?: Uint8Array
+  frozen?: boolean
+}
+
+export interface StateSchema {
+  numUints?: Uint64
+  numByteSlices?: Uint64
+}
+
+export interface BoxReference {
+  // Index into foreignApps (1-based), 0 refers to the called application
+  appIndex: number
+  name: Uint8Array
+}
+
+export interface ApplicationCallTransaction extends TransactionHeader {
+  type: TransactionType.appl
+  // Omit to create a new application
+  appIndex?: Uint64
+  onComplete?: OnApplicationComplete
+  appArgs?: Uint8Array[]
+  accounts?: Uint8Array[]
+  foreignApps?: Uint64[]
+  foreignAssets?: Uint64[]
+  boxes?: BoxReference[]
+  approvalProgram?: Uint8Array
+  clearProgram?: Uint8Array
+  globalSchema?: StateSchema
+  localSchema?: StateSchema
+  extraPages?: number
+}
+
+export interface StateProofTransaction extends TransactionHeader {
+  type: TransactionType.stpf
+  stateProofType?: number
+  // Already-structured msgpack maps, passed through as-is. A real proof has
+  // integer-keyed reveals, which MsgpackMap cannot hold, so in practice only
+  // `message` is usable
+  stateProof?: MsgpackMap
+  message?: MsgpackMap
+}
+
+export type AlgorandTransaction =
+  | PaymentTransaction
+  | KeyRegistrationTransaction
+  | AssetConfigTransaction
+  | AssetTransferTransaction
+  | AssetFreezeTransaction
+  | ApplicationCallTransaction
+  | StateProofTransaction
+
+export interface TransactionScreen {
+  title: string
+  value: string
+}
+
+export interface TransactionPreview {
+  transaction: AlgorandTransaction
+  screens: TransactionScreen[]
+}
+
+export interface AssetDisplayInfo {
+  decimals: number
+  unitName?: string
+}
+
+export interface PreviewOptions {
+  // Known assets, keyed by asset ID, used to scale asset amounts
+  assets?: Record<string, AssetDisplayInfo>
+}
+
+export interface MultisigMetadata {
+  version: number
+  threshold: number
+  // Subkeys in order; the order is part of the multisig address
+  publicKeys: Uint8Array[]
+}
+
+export interface MultisigSubsignature {
+  publicKey: Uint8Array
+  signature?: Uint8Array
+}
+
+export interface MultisigSignature {
+  version: number
+  threshold: number
+  subsignatures: MultisigSubsignature[]
+}
+
+export interface LogicSig {
+  // Compiled TEAL bytecode
+  program: Uint8Array
+  args?: Uint8Array[]
+  // Delegation by a single account
+  signature?: Uint8Array
+  // Delegation by a multisig account, encoded as `lmsig`
+  multisig?: MultisigSignature
+}
+
+export interface LogicSigOptions extends OperationOptions {
+  // Key that signs, defaults to account 0
+  path?: DerivationPath
+  /** @deprecated Use path instead */
+  accountId?: number
+  args?: Uint8Array[]
+  // Delegate from this multisig account instead of the device account
+  multisig?: MultisigMetadata
+}
+
+export interface SignedTransaction {
+  transaction: AlgorandTransaction
+  signature?: Uint8Array
+  multisig?: MultisigSignature
+  logicSig?: LogicSig
+  // Authorizing address, set when it differs from the sender (rekeyed account)
+  authAddress?: Uint8Array
+}
+
+export interface SignedTransactionResult {
+  signedTransaction: SignedTransaction
+  // SignedTxn msgpack, ready to broadcast
+  blob: Buffer
+  // Base32 transaction ID
+  txId: string
+}
+
+export interface ResponseSignTransaction
+  extends ResponseSign,
+    SignedTransactionResult {
+  publicKey: Buffer
+}
+
+export interface ResponseSignLogicSig extends ResponseSign {
+  publicKey: Buffer
+  // Delegated LogicSig holding the device's signature
+  logicSig: LogicSig
+}
+
+export interface ResponseSignMultisig extends ResponseSign {
+  publicKey: Buffer
+  // Partially signed transaction holding the device's subsignature
+  signedTransaction: SignedTransaction
+}
+
+// Accounts start..start+count-1, i.e. m/44'/283'/<account>'/0/0
+export interface AccountRange {
+  start?: number
+  count: number
+}
+
+export interface AddressEntry {
+  // Path string, e.g. "m/44'/283'/0'/0/0"
+  path: string
+  publicKey: Buffer
+  address: string
+  // Whether it came from the store rather than the device
+  cached: boolean
+}
+
+export interface ResponseAddresses extends ResponseBase {
+  // Device fingerprint, when a store is used; see getDeviceFingerprint
+  fingerprint?: string
+  addresses: AddressEntry[]
+}
+
+// Cached keys of one device, in a JSON-friendly form
+export interface AddressCacheSnapshot {
+  fingerprint: string
+  // Keyed by path string
+  entries: Record<string, { publicKey: string; address: string }>
+}
+
+/**
+ * Persists the addresses cached by getAddresses. A store holds the keys of
+ * one device; they are replaced when another device is seen.
+ */
+export interface AddressStore {
+  read(): Promise<AddressCacheSnapshot | undefined>
+  write(snapshot: AddressCacheSnapshot): Promise<void>
+}
+
+export interface AddressExportOptions extends OperationOptions {
+  store?: AddressStore
+}
+
+export interface DiscoveredAddress {
+  path: string
+  index: number
+  address: string
+}
+
+export interface DiscoveredAccount {
+  account: number
+  // Used addresses of the account, by index
+  addresses: DiscoveredAddress[]
+}
+
+/**
+ * Progress of an account discovery scan. It is plain JSON, so it can be
+ * saved and passed back as `resume` to continue an interrupted scan.
+ */
+export interface DiscoveryState {
+  // Account being scanned and next address index to check in it
+  account: number
+  index: number
+  // Consecutive unused accounts before `account`
+  accountGap: number
+  // Consecutive unused indexes in `account`
+  addressGap: number
+  accounts: DiscoveredAccount[]
+  done: boolean
+}
+
+export interface DiscoveryOptions extends Omit<OperationOptions, 'onProgress'> {
+  // Whether an address has activity, e.g. from an indexer
+  isUsed: (address: string, path: string) => boolean | Promise<boolean>
+  // Consecutive unused accounts after which the scan stops, default 5
+  gapLimit?: number
+  // Consecutive unused indexes after which an account's scan stops; when
+  // omitted only index 0 of each account is checked
+  addressGapLimit?: number
+  resume?: DiscoveryState
+  // Called with the state after each checked address
+  onCheckpoint?: (state: DiscoveryState) => void | Promise<void>
+}
+
+export interface DiscoveryResult {
+  accounts: DiscoveredAccount[]
+  state: DiscoveryState
+}
+
+// ARC-1 multisig metadata, with subkeys as addresses
+export interface WalletMultisigMetadata {
+  version: number
+  threshold: number
+  addrs: string[]
+}
+
+/**
+ * A transaction passed to ARC-1 `signTxns`. Binary fields are base64.
+ */
+export interface WalletTransaction {
+  // Unsigned msgpack transaction
+  txn: string
+  // Account the sender was rekeyed to
+  authAddr?: string
+  msig?: WalletMultisigMetadata
+  // Addresses that should sign; [] when the wallet must not sign it
+  signers?: string[]
+  // Signed transaction provided by the dApp, with signers: []
+  stxn?: string
+  message?: string
+  groupMessage?: string
+}
+
+// Codes of ARC-1 errors
+export enum SignTxnsErrorCode {
+  UserRejected = 4001,
+  Unauthorized = 4100,
+  UnsupportedOperation = 4200,
+  TooManyTransactions = 4201,
+  InvalidInput = 4300,
+}
+
+// A transaction given to a TransactionSigner: typed, msgpack, or an object
+// with toByte() such as an algosdk Transaction
+export type SignerTransaction =
+  | AlgorandTransaction
+  | Uint8Array
+  | { toByte(): Uint8Array }
+
+/**
+ * Signs the transactions at `indexesToSign` and returns their encoded
+ * SignedTxns in that order, as algosdk's TransactionSigner.
+ */
+export type TransactionSigner = (
+  txnGroup: SignerTransaction[],
+  indexesToSign: number[]
+) => Promise<Uint8Array[]>
+
+export interface LedgerWalletOptions {
+  // Device keys the wallet may sign with, defaults to [0]
+  paths?: DerivationPath[]
+  // Cache for the addresses of those keys, see getAddresses
+  store?: AddressStore
+}
+
+// Encodings of goal/algokit transaction files: concatenated msgpack
+// SignedTxn records, one base64 record per line, or a JSON array of records
+export type TransactionFileFormat = 'msgpack' | 'base64' | 'json'
+
+export interface SignTransactionsOptions extends OperationOptions {
+  // Device keys that may sign, defaults to [0]
+  paths?: DerivationPath[]
+  // Cache for the addresses of those keys, see getAddresses
+  store?: AddressStore
+}
+
+export interface SignTransactionFileOptions extends SignTransactionsOptions {
+  // Defaults to the input with its .txn extension replaced by .stxn
+  output?: string
+  // Format of the output, defaults to the format of the input
+  format?: TransactionFileFormat
+}
+
+export interface SignTransactionsResult {
+  // Every record, signed or kept as it was
+  transactions: SignedTransaction[]
+  // Indexes of the records the device signed
+  signed: number[]
+}
+
+export interface SignTransactionRecordsResult {
+  // Every record in msgpack: the signed ones, and the others as they were
+  records: Buffer[]
+  // Indexes of the records the device signed
+  signed: number[]
+}
+
+export interface SignTransactionFileResult
+  extends SignTransactionRecordsResult {
+  output: string
+  format: TransactionFileFormat
+}
+
+// Header of an APDU command
+export interface ApduHeader {
+  cla: number
+  ins: number
+  p1: number
+  p2: number
+}
+
+// One command/response exchange recorded by TracingTransport
+export interface ApduTraceEntry extends ApduHeader {
+  // Position in the session, from 0
+  index: number
+  // ISO-8601 time the command was sent
+  timestamp: string
+  dataLength: number
+  // Command data in hex, unless redacted
+  data?: string
+  // Absent when the transport failed
+  statusWord?: number
+  // Response data in hex without the status word, unless redacted
+  response?: string
+  responseLength?: number
+  // Milliseconds until the response or the failure
+  latency: number
+  // Message of the transport error, when the exchange failed
+  error?: string
+  redacted?: true
+}
+
+// A tracing session, ready to be saved as JSON
+export interface ApduTranscript {
+  version: 1
+  startedAt: string
+  // Entries dropped beyond TracingOptions.maxEntries
+  dropped: number
+  entries: ApduTraceEntry[]
+}
+
+export interface TracingOptions {
+  // Leaves the command and response bytes out of the trace, for every
+  // command or those the function selects; lengths, status words and
+  // latencies are kept
+  redact?: boolean | ((header: ApduHeader) => boolean)
+  // Receives a one-line summary of each exchange
+  logger?: (line: string, entry: ApduTraceEntry) => void
+  // Oldest entries are dropped beyond it, defaults to 1000
+  maxEntries?: number
+}
+
+export enum ConnectionState {
+  Disconnected = 'disconnected',
+  Connecting = 'connecting',
+  // Waiting for the user to unlock the device
+  DeviceLocked = 'device-locked',
+  // Waiting for the user to open the Algorand app
+  AppNotOpen = 'app-not-open',
+  Ready = 'ready',
+}
+
+export interface LedgerConnectionOptions extends AlgorandAppOptions {
+  // Milliseconds to wait for the device to be connected, unlocked and the
+  // app opened before giving up, defaults to 60000
+  waitTimeout?: number
+  // Milliseconds between checks while waiting, defaults to 1000
+  pollInterval?: number
+  // Retries of an idempotent call that lost the device, defaults to 3
+  retries?: number
+  // Milliseconds before the first retry, doubled for each next one;
+  // defaults to 500
+  retryDelay?: number
+  // Called when the state changes, e.g. to ask the user to unlock the device
+  onStateChange?: (state: ConnectionState, error?: Error) => void
+}
+
+export interface ConnectionRunOptions {
+  // Aborting it stops waiting for the device and retrying
+  signal?: AbortSignal
+  // Whether the call may be sent again after losing the device; never set
+  // it for calls the user confirms, such as signing
+  idempotent?: boolean
+}
+
+export interface ResponseSignGroup extends ResponseBase {
+  groupId: Buffer
+  // Encoded transactions with the group ID assigned
+  transactions: Buffer[]
+  // null for transactions not sent by one of the device accounts
+  signatures: (Buffer | null)[]
+}
@@ -0,0 +1,113 @@
+import { ed25519 } from '@noble/curves/ed25519'
+import { sha256 } from '@noble/hashes/sha2'
+import { StdSigData, StdSigDataResponse, StdSignMetadata } from './types'
+
+const TX_TAG = Buffer.from('TX')
+const PROGRAM_TAG = Buffer.from('Program')
+const MSIG_PROGRAM_TAG = Buffer.from('MsigProgram')
+
+function verifyEd25519(
+  signature: Uint8Array,
+  message: Uint8Array,
+  publicKey: Uint8Array
+) {
+  try {
+    return ed25519.verify(signature, message, publicKey)
+  } catch {
+    // Malformed signatures or keys are simply not valid
+    return false
+  }
+}
+
+/**
+ * Rebuilds the bytes the device signs for `sign()`: the "TX"-prefixed
+ * msgpack transaction.
+ */
+export function getTransactionSigningPayload(
+  message: string | Uint8Array
+): Buffer {
+  return Buffer.concat([TX_TAG, Buffer.from(message)])
+}
+
+/**
+ * Rebuilds the bytes the device signs for `signData()`, following ARC-60:
+ * sha256(data) || sha256(authenticationData).
+ * @throws {Error} If the encoding is not supported.
+ */
+export function getSignDataPayload(
+  signingData: StdSigData,
+  metadata: StdSignMetadata
+): Buffer {
+  if (metadata.encoding !== 'base64') {
+    throw new Error('Unsupported encoding')
+  }
+  const data = Buffer.from(signingData.data, 'base64')
+  return Buffer.concat([
+    sha256(data),
+    sha256(signingData.authenticationData ?? new Uint8Array()),
+  ])
+}
+
+/**
+ * Rebuilds the bytes signed to delegate a LogicSig: "Program" || program for
+ * a single account, or "MsigProgram" || multisig key || program for a
+ * subkey of a multisig account.
+ */
+export function getProgramSigningPayload(
+  program: Uint8Array,
+  multisigKey?: Uint8Array
+): Buffer {
+  return multisigKey
+    ? Buffer.concat([MSIG_PROGRAM_TAG, multisigKey, program])
+    : Buffer.concat([PROGRAM_TAG, program])
+}
+
+/**
+ * Checks a signature returned by `sign()` against the transaction it was
+ * requested for and the public key from `getAddressAndPubKey`.
+ */
+export function verifyTransactionSignature(
+  message: string | Uint8Array,
+  signature: Uint8Array,
+  publicKey: Uint8Array
+): boolean {
+  return verifyEd25519(
+    signature,
+    getTransactionSigningPayload(message),
+    publicKey
+  )
+}
+
+/**
+ * Checks a signature returned by `signData()`. The public key defaults to
+ * the signer of the request.
+ * @throws {Error} If the encoding is not supported.
+ */
+export function verifySignDataSignature(
+  response: StdSigDataResponse,
+  metadata: StdSignMetadata,
+  publicKey: Uint8Array = response.signer
+): boolean {
+  return verifyEd25519(
+    response.signature,
+    getSignDataPayload(response, metadata),
+    publicKey
+  )
+}
+
+/**
+ * Checks a LogicSig delegation signature returned by `signProgram()`.
+ * `multisigKey` is the multisig account the signer is a subkey of, if any.
+ */
+export function verifyProgramSignature(
+  program: Uint8Array,
+  signature: Uint8Array,
+  publicKey: Uint8Array,
+  multisigKey?: Uint8Array
+): boolean {
+  return verifyEd25519(
+    signature,
+    getProgramSigningPayload(program, multisigKey),
+    publicKey
+  )
+}
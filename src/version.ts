@@ -0,0 +1,31 @@
+import { CAPABILITY_MIN_VERSIONS } from './consts'
+import { AppCapabilities, AppCapability, AppVersion } from './types'
+
+/**
+ * Compares two app versions, returning a negative number, zero or a positive
+ * number when `a` is older than, equal to or newer than `b`.
+ */
+export function compareVersions(a: AppVersion, b: AppVersion): number {
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch
+}
+
+/**
+ * Formats an app version as "major.minor.patch".
+ */
+export function formatVersion({ major, minor, patch }: AppVersion): string {
+  return `${major}.${minor}.${patch}`
+}
+
+/**
+ * Returns what an app version supports, from CAPABILITY_MIN_VERSIONS.
+ */
+export function getAppCapabilities(version: AppVersion): AppCapabilities {
+  const capabilities = {} as AppCapabilities
+  for (const capability of Object.keys(
+    CAPABILITY_MIN_VERSIONS
+  ) as AppCapability[]) {
+    capabilities[capability] =
+      compareVersions(version, CAPABILITY_MIN_VERSIONS[capability]) >= 0
+  }
+  return capabilities
+}
@@ -0,0 +1,315 @@
+import { decodeAddress, encodeAddress } from './address'
+import type { AlgorandApp } from './app'
+import { SignTxnsError, UserRejectedError } from './errors'
+import { mergeMultisigTransactions, multisigAddress } from './multisig'
+import {
+  computeGroupId,
+  decodeSignedTransaction,
+  decodeTransaction,
+  encodeSignedTransaction,
+  encodeTransaction,
+  MAX_GROUP_SIZE,
+} from './transaction'
+import {
+  AlgorandTransaction,
+  LedgerWalletOptions,
+  MultisigMetadata,
+  SignedTransaction,
+  SignerTransaction,
+  SignTxnsErrorCode,
+  TransactionSigner,
+  WalletMultisigMetadata,
+  WalletTransaction,
+} from './types'
+
+// What the device signs for one transaction
+interface SigningPlan {
+  txn: AlgorandTransaction
+  // Paths of the device keys that sign
+  paths: string[]
+  multisig?: MultisigMetadata
+}
+
+function invalid(message: string, index?: number) {
+  return new SignTxnsError(SignTxnsErrorCode.InvalidInput, message, index)
+}
+
+function unauthorized(message: string, index: number) {
+  return new SignTxnsError(SignTxnsErrorCode.Unauthorized, message, index)
+}
+
+function toTransaction(txn: SignerTransaction): AlgorandTransaction {
+  if (txn instanceof Uint8Array) {
+    return decodeTransaction(txn)
+  }
+  if ('toByte' in txn && typeof txn.toByte === 'function') {
+    return decodeTransaction(txn.toByte())
+  }
+  return txn as AlgorandTransaction
+}
+
+function decodeWalletTransaction(
+  wtxn: WalletTransaction,
+  index: number
+): AlgorandTransaction {
+  try {
+    return decodeTransaction(Buffer.from(wtxn.txn, 'base64'))
+  } catch (e) {
+    throw invalid(
+      `Invalid transaction ${index}: ${(e as Error).message}`,
+      index
+    )
+  }
+}
+
+function decodeAddressAt(address: string, index: number): Buffer {
+  try {
+    return decodeAddress(address)
+  } catch {
+    throw invalid(`Invalid address ${address} in transaction ${index}`, index)
+  }
+}
+
+function toMultisig(
+  msig: WalletMultisigMetadata,
+  index: number
+): MultisigMetadata {
+  const multisig = {
+    version: msig.version,
+    threshold: msig.threshold,
+    publicKeys: msig.addrs.map(address => decodeAddressAt(address, index)),
+  }
+  try {
+    multisigAddress(multisig)
+  } catch (e) {
+    throw invalid(
+      `Invalid msig in transaction ${index}: ${(e as Error).message}`,
+      index
+    )
+  }
+  return multisig
+}
+
+// All transactions must form one complete group, or be a single
+// ungrouped transaction
+function checkGroup(txns: AlgorandTransaction[]) {
+  if (txns.length === 1 && !txns[0].group) {
+    return
+  }
+  const group = computeGroupId(txns)
+  txns.forEach((txn, i) => {
+    if (!txn.group || !group.equals(txn.group)) {
+      throw invalid(
+        `Transaction ${i} does not belong to the group of the transactions`,
+        i
+      )
+    }
+  })
+}
+
+function checkSignedTransaction(
+  stxn: string,
+  txn: AlgorandTransaction,
+  index: number
+) {
+  let signed: SignedTransaction
+  try {
+    signed = decodeSignedTransaction(Buffer.from(stxn, 'base64'))
+  } catch (e) {
+    throw invalid(`Invalid stxn ${index}: ${(e as Error).message}`, index)
+  }
+  if (!encodeTransaction(signed.transaction).equals(encodeTransaction(txn))) {
+    throw invalid(`stxn ${index} does not sign its txn`, index)
+  }
+}
+
+/**
+ * Exposes the device as a wallet: ARC-1 `signTxns` for dApps and an
+ * algosdk-style TransactionSigner for transaction composers. Senders and
+ * authorizing addresses are mapped to the device keys in `paths`.
+ */
+export class LedgerWallet {
+  private accounts?: Promise<Map<string, string>>
+
+  constructor(
+    readonly app: AlgorandApp,
+    private readonly options: LedgerWalletOptions = {}
+  ) {}
+
+  /**
+   * Returns the addresses the wallet signs for, with the path of their key.
+   * They are fetched from the device once.
+   */
+  async getAccounts(): Promise<{ address: string; path: string }[]> {
+    const accounts = await this.accountMap()
+    return [...accounts].map(([address, path]) => ({ address, path }))
+  }
+
+  /**
+   * ARC-1 `signTxns`: signs the transactions meant for the wallet and
+   * returns their base64 SignedTxns, or null for the others. Transactions
+   * with `signers: []` are not signed, `stxn` must sign its `txn`, `authAddr`
+   * selects the key of a rekeyed sender and `msig` signs with every device
+   * key among `signers` (default: all the subkeys the device holds).
+   * Everything is checked before the first request reaches the device.
+   * @throws {SignTxnsError} With the ARC-1 code of the failure.
+   */
+  async signTxns(txns: WalletTransaction[]): Promise<(string | null)[]> {
+    if (txns.length === 0) {
+      throw invalid('No transactions to sign')
+    }
+    if (txns.length > MAX_GROUP_SIZE) {
+      throw new SignTxnsError(
+        SignTxnsErrorCode.TooManyTransactions,
+        `Too many transactions: ${txns.length}, at most ${MAX_GROUP_SIZE}`
+      )
+    }
+    const decoded = txns.map(decodeWalletTransaction)
+    checkGroup(decoded)
+
+    const accounts = await this.accountMap()
+    const plans = txns.map((wtxn, i) =>
+      this.plan(wtxn, decoded[i], i, accounts)
+    )
+
+    const signed: (string | null)[] = []
+    for (let i = 0; i < plans.length; i += 1) {
+      const plan = plans[i]
+      signed.push(plan ? (await this.sign(plan, i)).toString('base64') : null)
+    }
+    return signed
+  }
+
+  /**
+   * Returns an algosdk-compatible TransactionSigner. Each transaction is
+   * signed by the device key of its sender, or of `authAddr` for accounts
+   * rekeyed to the device.
+   */
+  getTransactionSigner(authAddr?: string): TransactionSigner {
+    return async (txnGroup, indexesToSign) => {
+      const txns = txnGroup.map(toTransaction)
+      indexesToSign.forEach(i => {
+        if (!txns[i]) throw invalid(`No transaction at index ${i}`, i)
+      })
+      const signed = await this.signTxns(
+        txns.map((txn, i) => ({
+          txn: encodeTransaction(txn).toString('base64'),
+          ...(!indexesToSign.includes(i)
+            ? { signers: [] }
+            : authAddr
+              ? { authAddr }
+              : {}),
+        }))
+      )
+      return indexesToSign.map(i => Buffer.from(signed[i] as string, 'base64'))
+    }
+  }
+
+  private async accountMap(): Promise<Map<string, string>> {
+    if (!this.accounts) {
+      const { paths = [0], store } = this.options
+      this.accounts = this.app
+        .getAddresses(paths, { store })
+        .then(({ addresses }) => {
+          return new Map(addresses.map(({ address, path }) => [address, path]))
+        })
+      this.accounts.catch(() => {
+        this.accounts = undefined
+      })
+    }
+    return this.accounts
+  }
+
+  // Works out which device keys sign a transaction, or undefined when the
+  // wallet must not sign it
+  private plan(
+    wtxn: WalletTransaction,
+    txn: AlgorandTransaction,
+    index: number,
+    accounts: Map<string, string>
+  ): SigningPlan | undefined {
+    if (wtxn.stxn !== undefined) {
+      if (wtxn.signers?.length !== 0) {
+        throw invalid(`stxn ${index} requires signers: []`, index)
+      }
+      checkSignedTransaction(wtxn.stxn, txn, index)
+      return undefined
+    }
+    if (wtxn.signers?.length === 0) {
+      return undefined
+    }
+
+    const authorizer = wtxn.authAddr ?? encodeAddress(txn.sender)
+    decodeAddressAt(authorizer, index)
+    wtxn.signers?.forEach(signer => decodeAddressAt(signer, index))
+
+    if (wtxn.msig) {
+      const multisig = toMultisig(wtxn.msig, index)
+      if (multisigAddress(multisig) !== authorizer) {
+        throw invalid(
+          `msig of transaction ${index} does not match its authorizing address ${authorizer}`,
+          index
+        )
+      }
+      const { addrs } = wtxn.msig
+      const signers = wtxn.signers ?? addrs.filter(addr => accounts.has(addr))
+      signers.forEach(signer => {
+        if (!addrs.includes(signer)) {
+          throw invalid(`Signer ${signer} is not a subkey of the msig`, index)
+        }
+      })
+      const paths = signers.map(signer => accounts.get(signer))
+      if (paths.length === 0 || paths.some(path => path === undefined)) {
+        throw unauthorized(
+          `The device holds no requested subkey of the msig of transaction ${index}`,
+          index
+        )
+      }
+      return { txn, multisig, paths: paths as string[] }
+    }
+
+    if (
+      wtxn.signers &&
+      (wtxn.signers.length !== 1 || wtxn.signers[0] !== authorizer)
+    ) {
+      throw invalid(
+        `signers of transaction ${index} must be [${authorizer}]`,
+        index
+      )
+    }
+    const path = accounts.get(authorizer)
+    if (!path) {
+      throw unauthorized(`${authorizer} is not an account of the device`, index)
+    }
+    return { txn, paths: [path] }
+  }
+
+  private async sign(plan: SigningPlan, index: number): Promise<Buffer> {
+    try {
+      if (!plan.multisig) {
+        const { blob } = await this.app.signTransaction(plan.txn, plan.paths[0])
+        return blob
+      }
+      const parts = []
+      for (const path of plan.paths) {
+        const { signedTransaction } = await this.app.signMultisig(
+          plan.txn,
+          plan.multisig,
+          path
+        )
+        parts.push(signedTransaction)
+      }
+      return encodeSignedTransaction(mergeMultisigTransactions(parts))
+    } catch (e) {
+      if (e instanceof UserRejectedError) {
+        throw new SignTxnsError(
+          SignTxnsErrorCode.UserRejected,
+          `Transaction ${index} was rejected on the device`,
+          index,
+          e
+        )
+      }
+      throw e
+    }
+  }
+}